@@ -0,0 +1,98 @@
+/**
+ * eBay Browse API stub
+ * Serves recorded responses from scripts/fixtures/ebay so ingestion can run
+ * without eBay credentials or network:
+ *
+ *   node scripts/ebay-stub-server.mjs
+ *   EBAY_API_BASE=http://localhost:4010 EBAY_CLIENT_ID=stub EBAY_CLIENT_SECRET=stub npm run dev
+ *   curl -X POST localhost:3000/api/ingest -H "Authorization: Bearer $CRON_SECRET"
+ *
+ * Sellers without a search-<seller>.json fixture return no listings. Item
+ * 204512345004 is recorded as sold out, and items missing from items.json
+ * are not returned, so POST /api/listings/verify marks both kinds ENDED.
+ * Items whose itemId has a variation id other than 0 are served as the
+ * variations of their legacy id's item group.
+ */
+
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const FIXTURES = join(dirname(fileURLToPath(import.meta.url)), 'fixtures', 'ebay');
+const PORT = parseInt(process.env.EBAY_STUB_PORT || '4010', 10);
+
+async function fixture(name) {
+  try {
+    return JSON.parse(await readFile(join(FIXTURES, name), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function error(res, status, message) {
+  send(res, status, { errors: [{ errorId: status, message }] });
+}
+
+async function handle(req, res) {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'POST' && url.pathname === '/identity/v1/oauth2/token') {
+    if (!(req.headers.authorization || '').startsWith('Basic ')) {
+      return send(res, 401, { error: 'invalid_client', error_description: 'client authentication failed' });
+    }
+    return send(res, 200, await fixture('token.json'));
+  }
+
+  if (!(req.headers.authorization || '').startsWith('Bearer ')) {
+    return error(res, 401, 'Invalid access token');
+  }
+
+  if (req.method === 'GET' && url.pathname === '/buy/browse/v1/item_summary/search') {
+    const seller = /sellers:\{([^}]+)\}/.exec(url.searchParams.get('filter') || '')?.[1];
+    const recorded = (seller && await fixture(`search-${seller}.json`)) || { total: 0, itemSummaries: [] };
+    const offset = parseInt(url.searchParams.get('offset') || '0', 10);
+    const limit = parseInt(url.searchParams.get('limit') || '50', 10);
+    const all = recorded.itemSummaries || [];
+    const page = all.slice(offset, offset + limit);
+
+    return send(res, 200, {
+      total: all.length,
+      limit,
+      offset,
+      ...(offset + limit < all.length ? { next: `${url.pathname}?offset=${offset + limit}` } : {}),
+      ...(page.length > 0 ? { itemSummaries: page } : {}),
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/buy/browse/v1/item/') {
+    const ids = (url.searchParams.get('item_ids') || '').split(',').filter(Boolean);
+    if (ids.length === 0 || ids.length > 20) return error(res, 400, 'item_ids must list 1 to 20 items');
+    const { items = [] } = (await fixture('items.json')) || {};
+    const found = items.filter(item => ids.includes(item.itemId));
+    // Like eBay: 404 when none of the items exist
+    if (found.length === 0) return error(res, 404, 'No items found for the item ids');
+    return send(res, 200, { items: found });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/buy/browse/v1/item/get_items_by_item_group') {
+    const groupId = url.searchParams.get('item_group_id');
+    const { items = [] } = (await fixture('items.json')) || {};
+    const variations = items.filter(item => item.legacyItemId === groupId && item.itemId !== `v1|${groupId}|0`);
+    if (variations.length === 0) return error(res, 404, 'No item group found for the item_group_id');
+    return send(res, 200, { items: variations });
+  }
+
+  return error(res, 404, `No stub for ${req.method} ${url.pathname}`);
+}
+
+createServer((req, res) => {
+  handle(req, res).catch(err => error(res, 500, err.message));
+}).listen(PORT, () => {
+  console.log(`eBay stub listening on http://localhost:${PORT} (fixtures: ${FIXTURES})`);
+});
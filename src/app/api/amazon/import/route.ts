@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importAmazonReport } from '@/services/amazonImport';
+import type { AmazonReportType } from '@/services/amazonReports';
+import { getRequestUser } from '@/services/auth';
+
+// Flat files are a few MB at most; anything bigger isn't a report we know
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * POST: Import an Amazon flat file (multipart form: file, reportType?).
+ * reportType is 'all_orders' or 'settlement'; detected from the header row
+ * when omitted. Sales are matched to listed inventory; the rest are queued
+ * for review.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'file is required' }, { status: 400 });
+    }
+    if (file.size > MAX_FILE_BYTES) {
+      return NextResponse.json({ error: 'File is larger than 20 MB' }, { status: 413 });
+    }
+
+    const reportType = form.get('reportType') as AmazonReportType | null;
+    if (reportType && reportType !== 'all_orders' && reportType !== 'settlement') {
+      return NextResponse.json({ error: 'reportType must be all_orders or settlement' }, { status: 400 });
+    }
+
+    const summary = await importAmazonReport(await file.text(), file.name, user.id, reportType ?? undefined);
+
+    if (typeof summary === 'string') {
+      return NextResponse.json({ error: summary }, { status: 400 });
+    }
+
+    return NextResponse.json(summary);
+  } catch (error) {
+    console.error('Amazon import error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveUnmatchedSale } from '@/services/amazonImport';
+import { getRequestUser } from '@/services/auth';
+
+// POST: Resolve a queued line: { action: 'match', itemIds } or { action: 'ignore' }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json() as { action?: string; itemIds?: unknown };
+
+    if (body.action === 'match') {
+      if (!Array.isArray(body.itemIds) || !body.itemIds.every(id => Number.isInteger(id))) {
+        return NextResponse.json({ error: 'itemIds must be a list of inventory item ids' }, { status: 400 });
+      }
+    } else if (body.action !== 'ignore') {
+      return NextResponse.json({ error: 'action must be match or ignore' }, { status: 400 });
+    }
+
+    const result = await resolveUnmatchedSale(
+      parseInt(params.id),
+      body.action === 'match' ? { action: 'match', itemIds: body.itemIds as number[] } : { action: 'ignore' },
+      user.id
+    );
+
+    if (typeof result === 'string') {
+      return NextResponse.json({ error: result }, { status: result === 'Unmatched sale not found' ? 404 : 400 });
+    }
+
+    return NextResponse.json({ sale: result });
+  } catch (error) {
+    console.error('Resolve unmatched sale error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUnmatchedSales, type UnmatchedStatus } from '@/services/amazonImport';
+import { getRequestUser } from '@/services/auth';
+
+const STATUSES: UnmatchedStatus[] = ['pending', 'resolved', 'ignored'];
+
+// GET: Amazon sale lines waiting for review (?status=pending|resolved|ignored)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const status = (request.nextUrl.searchParams.get('status') || 'pending') as UnmatchedStatus;
+    if (!STATUSES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of ${STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const sales = await getUnmatchedSales(status);
+    return NextResponse.json({ sales });
+  } catch (error) {
+    console.error('Unmatched sales error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get unmatched sales' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,15 @@
 import { NextResponse } from 'next/server';
 import { markBookAction } from '@/services/supabase';
+import { getRequestUser } from '@/services/auth';
 
+// POST: Mark a book BOUGHT or REJECT on behalf of the signed-in user
 export async function POST(request: Request) {
   try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
     const { id, action } = await request.json();
 
     if (!id || typeof id !== 'number') {
@@ -13,13 +20,13 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Action must be BOUGHT or REJECT' }, { status: 400 });
     }
 
-    const success = await markBookAction(id, action);
+    const success = await markBookAction(id, action, user.id);
 
     if (!success) {
       return NextResponse.json({ error: 'Failed to update book' }, { status: 500 });
     }
 
-    return NextResponse.json({ success: true, id, action });
+    return NextResponse.json({ success: true, id, action, userId: user.id });
   } catch (error) {
     console.error('Book action error:', error);
     return NextResponse.json(
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBookQuery } from '@/services/bookQuery';
+import { getActiveRuleSet } from '@/services/decisionRuleSets';
+import { getRequestUser } from '@/services/auth';
+import {
+  BOOK_EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  csvLine,
+  exportFilename,
+  iterateBooks,
+  toCells,
+  type ExportFormat,
+} from '@/services/exports';
+import { buildXlsx, type CellValue } from '@/services/xlsx';
+
+/**
+ * GET: Every book matching the dashboard filters as a spreadsheet.
+ * Takes the same query params as /api/books (limit and cursor are ignored)
+ * plus format=csv|xlsx (default csv). CSV is streamed a page at a time.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const format = (params.get('format') || 'csv') as ExportFormat;
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: 'format must be csv or xlsx' }, { status: 400 });
+    }
+
+    const query = parseBookQuery(params);
+    if (typeof query === 'string') {
+      return NextResponse.json({ error: query }, { status: 400 });
+    }
+    if (query.mine) query.buyer = user.id;
+
+    const hasanRule = query.hasan
+      ? (await getActiveRuleSet()).filters.find(filter => filter.id === 'hasan')
+      : undefined;
+
+    const headers = {
+      'Content-Type': EXPORT_CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${exportFilename('deals', format)}"`,
+    };
+    const header = BOOK_EXPORT_COLUMNS.map(column => column.header);
+
+    if (format === 'xlsx') {
+      const rows: CellValue[][] = [header];
+      for await (const books of iterateBooks(query, hasanRule)) {
+        rows.push(...books.map(book => toCells(BOOK_EXPORT_COLUMNS, book)));
+      }
+      return new NextResponse(buildXlsx('Deals', rows), { headers });
+    }
+
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          controller.enqueue(encoder.encode(csvLine(header)));
+          for await (const books of iterateBooks(query, hasanRule)) {
+            controller.enqueue(encoder.encode(books.map(book => csvLine(toCells(BOOK_EXPORT_COLUMNS, book))).join('')));
+          }
+          controller.close();
+        } catch (error) {
+          console.error('Books export stream error:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    return new NextResponse(stream, { headers });
+  } catch (error) {
+    console.error('Books export error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to export books';
+    return NextResponse.json({ error: message }, { status: message === 'Invalid cursor' ? 400 : 500 });
+  }
+}
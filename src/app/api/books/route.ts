@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBookQuery, queryBooks, getBookCounts, getOffers } from '@/services/bookQuery';
+import { getActiveRuleSet } from '@/services/decisionRuleSets';
+import { getRequestUser } from '@/services/auth';
+
+/**
+ * GET: One page of books for the dashboard.
+ * Query params: seller, decision, q, price (comma-separated ranges), format,
+ * weight, minProfit (cents), multiplier, hasan, team (whose Hasan filter;
+ * default team if omitted), mine (my buys), sort, order, limit, cursor.
+ * The first page (no cursor) also carries header counts and the number of
+ * matching rows; pass nextCursor back to fetch the following page. Every
+ * page carries `offers`: all sellers' listings of its ISBNs, cheapest first.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const query = parseBookQuery(request.nextUrl.searchParams);
+    if (typeof query === 'string') {
+      return NextResponse.json({ error: query }, { status: 400 });
+    }
+    if (query.mine) query.buyer = user.id;
+
+    const hasanRule = query.hasan
+      ? (await getActiveRuleSet(request.nextUrl.searchParams.get('team') || undefined)).filters.find(filter => filter.id === 'hasan')
+      : undefined;
+
+    const [page, counts] = await Promise.all([
+      queryBooks(query, hasanRule),
+      query.cursor ? Promise.resolve(null) : getBookCounts(query.seller),
+    ]);
+
+    const offers = await getOffers(Array.from(new Set(page.books.map(book => book.isbn))));
+
+    return NextResponse.json({ ...page, offers, counts });
+  } catch (error) {
+    console.error('Books query error:', error);
+    const message = error instanceof Error ? error.message : 'Failed to load books';
+    return NextResponse.json({ error: message }, { status: message === 'Invalid cursor' ? 400 : 500 });
+  }
+}
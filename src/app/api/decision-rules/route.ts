@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveRuleSet, getRuleSetVersions, createRuleSetVersion } from '@/services/decisionRuleSets';
+import { DEFAULT_RULES, DEFAULT_TEAM_ID, validateDecisionRules, type DecisionRules } from '@/services/decisionRules';
+import { getRequestUser } from '@/services/auth';
+
+// GET: Active rule set for a team (?team=, default 'default') plus its version history
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const teamId = request.nextUrl.searchParams.get('team') || DEFAULT_TEAM_ID;
+    const [ruleSet, versions] = await Promise.all([getActiveRuleSet(teamId), getRuleSetVersions(teamId)]);
+    return NextResponse.json({ ruleSet, versions, defaults: DEFAULT_RULES });
+  } catch (error) {
+    console.error('Decision rules error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get decision rules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Save { team?, rules } as the team's next rule set version
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json() as { team?: string; rules?: Partial<DecisionRules> };
+    const teamId = body.team || DEFAULT_TEAM_ID;
+
+    if (!body.rules || typeof body.rules !== 'object') {
+      return NextResponse.json({ error: 'rules is required' }, { status: 400 });
+    }
+
+    const validationError = validateDecisionRules(body.rules);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const ruleSet = await createRuleSetVersion(teamId, body.rules as DecisionRules);
+
+    if (!ruleSet) {
+      return NextResponse.json({ error: 'Failed to save decision rules' }, { status: 500 });
+    }
+
+    return NextResponse.json({ ruleSet });
+  } catch (error) {
+    console.error('Save decision rules error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
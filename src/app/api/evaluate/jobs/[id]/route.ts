@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getJobProgress, cancelEvaluationJob } from '@/services/evaluationJobs';
+import { getRequestUser } from '@/services/auth';
+
+// GET: Job status and progress counts
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const progress = await getJobProgress(params.id);
+
+    if (!progress) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      id: progress.job.id,
+      status: progress.job.status,
+      total: progress.job.total,
+      pending: progress.pending,
+      results: progress.results,
+      createdAt: progress.job.created_at,
+      startedAt: progress.job.started_at,
+      finishedAt: progress.job.finished_at,
+    });
+  } catch (error) {
+    console.error('Job progress error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get job' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: Cancel a queued or running job (already evaluated books keep their results)
+export async function DELETE(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const success = await cancelEvaluationJob(params.id);
+
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to cancel job' }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true, id: params.id });
+  } catch (error) {
+    console.error('Cancel job error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enqueueEvaluationJob, getRecentEvaluationJobs } from '@/services/evaluationJobs';
+import { parseEvaluationOptions } from '@/services/evaluator';
+import { getRequestUser, isCronOrUser } from '@/services/auth';
+
+// POST: Queue pending books for background evaluation with a team's rules
+// (body.team, default team if omitted); returns the job id. Signed-in users or cron.
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await isCronOrUser(request))) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { limit = 50 } = body;
+
+    if (typeof limit !== 'number' || limit < 1 || limit > 5000) {
+      return NextResponse.json({ error: 'limit must be between 1 and 5000' }, { status: 400 });
+    }
+
+    const options = parseEvaluationOptions(body);
+    if (typeof options === 'string') {
+      return NextResponse.json({ error: options }, { status: 400 });
+    }
+
+    const job = await enqueueEvaluationJob(limit, options, body.team || undefined);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Failed to create evaluation job' }, { status: 500 });
+    }
+
+    return NextResponse.json({ jobId: job.id, status: job.status, total: job.total }, { status: 202 });
+  } catch (error) {
+    console.error('Enqueue evaluation error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to create evaluation job' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET: Recent jobs
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const jobs = await getRecentEvaluationJobs();
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('List evaluation jobs error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list jobs' },
+      { status: 500 }
+    );
+  }
+}
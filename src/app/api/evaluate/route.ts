@@ -1,12 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getPendingBooks, updateBookEvaluation, getStats } from '@/services/supabase';
-import { getProductByIsbn, calculateFees, makeDecision } from '@/services/keepaApi';
-
-// Evaluate pending books with Keepa API
+import { getActiveFeeProfile } from '@/services/feeProfiles';
+import { getActiveRuleSet } from '@/services/decisionRuleSets';
+import { getSellerMap } from '@/services/sellers';
+import { getCachedProductsByIsbns } from '@/services/keepaCache';
+import { applyEvaluation, emptyResults, tallyOutcome, parseEvaluationOptions } from '@/services/evaluator';
+import { getRequestUser, isCronOrUser } from '@/services/auth';
+
+// Evaluate pending books with Keepa API (signed-in users or cron)
 export async function POST(request: NextRequest) {
   try {
+    if (!(await isCronOrUser(request))) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { limit = 50, delayMs = 1200 } = body;
+    const { limit = 50 } = body;
+
+    const options = parseEvaluationOptions(body);
+    if (typeof options === 'string') {
+      return NextResponse.json({ error: options }, { status: 400 });
+    }
 
     console.log(`Starting evaluation of up to ${limit} pending books...`);
 
@@ -23,14 +37,15 @@ export async function POST(request: NextRequest) {
 
     console.log(`Found ${pendingBooks.length} pending books`);
 
-    const results = {
-      evaluated: 0,
-      buy: 0,
-      review: 0,
-      reject: 0,
-      errors: 0,
-      notFound: 0,
-    };
+    // Resolve the fee profile, rule set and seller adjustments once for the whole run
+    const [feeProfile, ruleSet, sellers] = await Promise.all([getActiveFeeProfile(), getActiveRuleSet(body.team), getSellerMap()]);
+    console.log(`Using fee profile: ${feeProfile.name} v${feeProfile.version}, rules: ${ruleSet.teamId} v${ruleSet.version}`);
+
+    const results = emptyResults();
+
+    // Fresh cache entries first, then one Keepa request per 100 remaining ISBNs
+    const lookup = await getCachedProductsByIsbns(pendingBooks.map(book => book.isbn), { allowStale: false });
+    console.log(`Keepa returned ${lookup.products.size} products, ${lookup.missing.length} missing, ${lookup.invalid.length} invalid ISBNs`);
 
     // Process each book
     for (let i = 0; i < pendingBooks.length; i++) {
@@ -38,66 +53,20 @@ export async function POST(request: NextRequest) {
       console.log(`[${i + 1}/${pendingBooks.length}] Evaluating ISBN: ${book.isbn}`);
 
       try {
-        // Fetch Keepa data
-        const product = await getProductByIsbn(book.isbn);
-
-        if (!product || !product.buyBoxPrice) {
-          // Not found on Amazon or no buy box price
-          await updateBookEvaluation(book.isbn, {
-            decision: 'REJECT',
-            score: 0,
-          });
-          results.notFound++;
-          results.reject++;
-          results.evaluated++;
-          console.log(`  → REJECT (not found on Amazon)`);
-          continue;
-        }
+        const outcome = await applyEvaluation(book, lookup.products.get(book.isbn)?.product ?? null, feeProfile, ruleSet, options, sellers.get(book.seller));
+        tallyOutcome(results, outcome);
 
-        // Calculate fees and profit
-        const fees = calculateFees(book.price, product.buyBoxPrice);
-
-        // Make decision
-        const decision = makeDecision(
-          Math.max(fees.fbaProfit, fees.fbmProfit),
-          Math.max(fees.fbaRoi, fees.fbmRoi),
-          product.salesRank,
-          product.salesRankDrops30,
-          product.fbaOfferCount,
-          product.isAmazon
-        );
-
-        // Update database
-        await updateBookEvaluation(book.isbn, {
-          decision: decision.decision,
-          asin: product.asin,
-          amazon_price: product.buyBoxPrice,
-          sales_rank: product.salesRank || undefined,
-          sales_rank_drops_30: product.salesRankDrops30 || undefined,
-          sales_rank_drops_90: product.salesRankDrops90 || undefined,
-          fba_profit: fees.fbaProfit,
-          fbm_profit: fees.fbmProfit,
-          fba_roi: fees.fbaRoi,
-          score: decision.score,
-        });
-
-        results.evaluated++;
-        if (decision.decision === 'BUY') results.buy++;
-        else if (decision.decision === 'REVIEW') results.review++;
-        else results.reject++;
-
-        console.log(`  → ${decision.decision} (score: ${decision.score}, profit: $${(fees.fbaProfit / 100).toFixed(2)})`);
-
-        // Delay to avoid rate limiting
-        if (i < pendingBooks.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, delayMs));
+        if (outcome.notFound) {
+          console.log(`  → REJECT (not found on Amazon)`);
+        } else {
+          console.log(`  → ${outcome.decision} (score: ${outcome.score}, profit: $${((outcome.fbaProfit ?? 0) / 100).toFixed(2)})`);
         }
       } catch (error) {
         console.error(`  → Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
         results.errors++;
 
         // Mark as rejected if there's an error
-        await updateBookEvaluation(book.isbn, {
+        await updateBookEvaluation(book.id!, {
           decision: 'REJECT',
           score: 0,
         });
@@ -113,6 +82,9 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       message: 'Evaluation complete',
+      feeProfileId: feeProfile.id,
+      ruleSetVersion: ruleSet.version,
+      priceEstimate: options.priceEstimate,
       results,
       stats,
     });
@@ -126,8 +98,13 @@ export async function POST(request: NextRequest) {
 }
 
 // GET: Get current stats
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
     const stats = await getStats();
     return NextResponse.json(stats);
   } catch (error) {
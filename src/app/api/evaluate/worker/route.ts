@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runEvaluationWorker } from '@/services/evaluationJobs';
+import { isCronOrUser } from '@/services/auth';
+
+// Allow the worker close to a full serverless invocation
+export const maxDuration = 60;
+
+async function runWorker(request: NextRequest, options: { batchSize?: number; jobId?: string }) {
+  // Cron sends CRON_SECRET; without one configured only signed-in users may run it
+  if (!(await isCronOrUser(request))) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const workerId = `worker-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    const summary = await runEvaluationWorker({ workerId, timeBudgetMs: 50_000, ...options });
+
+    console.log(`Worker ${workerId}: ${summary.completed} completed, ${summary.retried} retried, ${summary.failed} failed`);
+
+    return NextResponse.json({ workerId, ...summary });
+  } catch (error) {
+    console.error('Evaluation worker error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Worker failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET: Cron entry point
+export async function GET(request: NextRequest) {
+  return runWorker(request, {});
+}
+
+// POST: Manual trigger, optionally scoped to one job
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const { batchSize, jobId } = body;
+  return runWorker(request, {
+    batchSize: typeof batchSize === 'number' ? batchSize : undefined,
+    jobId: typeof jobId === 'string' ? jobId : undefined,
+  });
+}
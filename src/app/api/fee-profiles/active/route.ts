@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getActiveFeeProfile, getFeeProfiles, pinFeeProfile } from '@/services/feeProfiles';
+import { getRequestUser } from '@/services/auth';
+
+// GET: Fee profile in effect now, or on ?date=YYYY-MM-DD
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const date = request.nextUrl.searchParams.get('date');
+    const at = date ? new Date(`${date}T00:00:00Z`) : new Date();
+
+    if (isNaN(at.getTime())) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+
+    const profile = await getActiveFeeProfile(at);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('Active fee profile error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get active fee profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Pin a profile as active ({ id }), or clear the pin ({ id: null })
+// so the effective-date range decides again
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const { id } = await request.json();
+
+    if (id !== null && typeof id !== 'number') {
+      return NextResponse.json({ error: 'id must be a profile id or null' }, { status: 400 });
+    }
+
+    if (id !== null) {
+      const profiles = await getFeeProfiles();
+      if (!profiles.some(p => p.id === id)) {
+        return NextResponse.json({ error: 'Fee profile not found' }, { status: 404 });
+      }
+    }
+
+    const success = await pinFeeProfile(id);
+    if (!success) {
+      return NextResponse.json({ error: 'Failed to update active fee profile' }, { status: 500 });
+    }
+
+    const profile = await getActiveFeeProfile();
+    return NextResponse.json({ success: true, profile });
+  } catch (error) {
+    console.error('Pin fee profile error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
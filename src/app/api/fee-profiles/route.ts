@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFeeProfiles, getActiveFeeProfile, createFeeProfile, type FeeProfile } from '@/services/feeProfiles';
+import { getRequestUser } from '@/services/auth';
+
+// GET: List all fee profiles and the id of the one currently in effect
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const [profiles, active] = await Promise.all([getFeeProfiles(), getActiveFeeProfile()]);
+    return NextResponse.json({ profiles, activeId: active.id });
+  } catch (error) {
+    console.error('Fee profiles error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get fee profiles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Create a new version of a named fee profile
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json() as Partial<FeeProfile>;
+
+    if (!body.name || typeof body.name !== 'string') {
+      return NextResponse.json({ error: 'Profile name is required' }, { status: 400 });
+    }
+    if (!body.effectiveFrom || !/^\d{4}-\d{2}-\d{2}$/.test(body.effectiveFrom)) {
+      return NextResponse.json({ error: 'effectiveFrom must be a YYYY-MM-DD date' }, { status: 400 });
+    }
+    if (body.effectiveTo && body.effectiveTo <= body.effectiveFrom) {
+      return NextResponse.json({ error: 'effectiveTo must be after effectiveFrom' }, { status: 400 });
+    }
+
+    const numericFields = ['referralRate', 'closingFee', 'inboundShipping', 'fbmShipping', 'ebayFeeRate', 'defaultFulfillmentFee'] as const;
+    for (const field of numericFields) {
+      if (typeof body[field] !== 'number' || body[field]! < 0) {
+        return NextResponse.json({ error: `${field} must be a non-negative number` }, { status: 400 });
+      }
+    }
+
+    const profile = await createFeeProfile({
+      name: body.name,
+      effectiveFrom: body.effectiveFrom,
+      effectiveTo: body.effectiveTo ?? null,
+      referralRate: body.referralRate!,
+      closingFee: body.closingFee!,
+      inboundShipping: body.inboundShipping!,
+      fbmShipping: body.fbmShipping!,
+      ebayFeeRate: body.ebayFeeRate!,
+      defaultFulfillmentFee: body.defaultFulfillmentFee!,
+      fulfillmentTiers: Array.isArray(body.fulfillmentTiers) ? body.fulfillmentTiers : [],
+      mediaMailRates: Array.isArray(body.mediaMailRates) ? body.mediaMailRates : [],
+    });
+
+    if (!profile) {
+      return NextResponse.json({ error: 'Failed to create fee profile' }, { status: 500 });
+    }
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    console.error('Create fee profile error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ingestSellers } from '@/services/ingestion';
+import { getSellers } from '@/services/sellers';
+import { isCronOrUser } from '@/services/auth';
+
+// Several sellers with item detail calls take a while
+export const maxDuration = 60;
+
+/**
+ * POST: Pull new listings from eBay for the active sellers and save them as
+ * pending books. Body (optional): { sellers?: string[] (seller ids),
+ * maxListings?: number } with maxListings per seller.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    if (!(await isCronOrUser(request))) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const known = (await getSellers()).map(s => s.id);
+
+    let sellers: string[] | undefined;
+    if (body.sellers !== undefined) {
+      if (!Array.isArray(body.sellers) || body.sellers.some((s: unknown) => typeof s !== 'string' || !known.includes(s))) {
+        return NextResponse.json({ error: `sellers must be a list of active seller ids: ${known.join(', ')}` }, { status: 400 });
+      }
+      sellers = body.sellers;
+    }
+
+    const { maxListings } = body;
+    if (maxListings !== undefined && (!Number.isInteger(maxListings) || maxListings < 1)) {
+      return NextResponse.json({ error: 'maxListings must be a positive integer' }, { status: 400 });
+    }
+
+    const results = await ingestSellers(sellers, { maxListings });
+
+    return NextResponse.json({
+      saved: results.reduce((sum, r) => sum + r.saved, 0),
+      updated: results.reduce((sum, r) => sum + r.updated, 0),
+      requeued: results.reduce((sum, r) => sum + r.requeued, 0),
+      results,
+    });
+  } catch (error) {
+    console.error('Ingest error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Ingestion failed' },
+      { status: 500 }
+    );
+  }
+}
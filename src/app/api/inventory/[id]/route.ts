@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInventoryItem, transitionInventoryItem } from '@/services/inventory';
+import type { InventoryTransition } from '@/services/inventoryLifecycle';
+import { getRequestUser } from '@/services/auth';
+
+// GET: One inventory item with its full event history
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const result = await getInventoryItem(parseInt(params.id));
+
+    if (!result) {
+      return NextResponse.json({ error: 'Inventory item not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Inventory item error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get inventory item' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST: Move the item to a new state.
+ * Body: { status, cost?, note?, occurredAt?, conditionGrade? (graded),
+ * channel, sku, listPrice? (listed), salePrice (sold) }; money in cents.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const transition = await request.json() as InventoryTransition;
+    const result = await transitionInventoryItem(parseInt(params.id), transition, user.id);
+
+    if (typeof result === 'string') {
+      const status = result === 'Inventory item not found' ? 404 : result.startsWith('Item is no longer') ? 409 : 400;
+      return NextResponse.json({ error: result }, { status });
+    }
+
+    return NextResponse.json({ item: result });
+  } catch (error) {
+    console.error('Inventory transition error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
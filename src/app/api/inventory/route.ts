@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getInventoryItems, getInventoryCounts } from '@/services/inventory';
+import { INVENTORY_STATUSES, type InventoryStatus } from '@/services/inventoryLifecycle';
+import { getRequestUser } from '@/services/auth';
+
+// GET: Inventory items oldest-in-state first plus per-state counts.
+// ?status= for one state, ?purchaseId= for one purchase's copies, ?limit=
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const status = params.get('status') as InventoryStatus | null;
+    if (status && !INVENTORY_STATUSES.includes(status)) {
+      return NextResponse.json({ error: `status must be one of ${INVENTORY_STATUSES.join(', ')}` }, { status: 400 });
+    }
+
+    const purchaseId = params.get('purchaseId');
+    const limit = params.get('limit');
+
+    const [items, counts] = await Promise.all([
+      getInventoryItems({
+        status: status ?? undefined,
+        purchaseId: purchaseId ? parseInt(purchaseId) : undefined,
+        limit: limit ? Math.min(Math.max(parseInt(limit) || 500, 1), 1000) : undefined,
+      }),
+      getInventoryCounts(),
+    ]);
+
+    return NextResponse.json({ items, counts });
+  } catch (error) {
+    console.error('Inventory error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get inventory' },
+      { status: 500 }
+    );
+  }
+}
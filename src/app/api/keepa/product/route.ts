@@ -1,44 +1,66 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getProductByIsbn, calculateFees, makeDecision } from '@/services/keepaApi';
+import { calculateFees } from '@/services/keepaApi';
+import { getCachedProductByIsbn } from '@/services/keepaCache';
+import { getActiveFeeProfile } from '@/services/feeProfiles';
+import { getActiveRuleSet } from '@/services/decisionRuleSets';
+import { evaluateRules } from '@/services/decisionRules';
+import { parseEvaluationOptions, selectSellPrice, buildDecisionInputs } from '@/services/evaluator';
+import { getRequestUser } from '@/services/auth';
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
     const body = await request.json();
-    const { isbn, ebayPrice } = body;
+    const { isbn, ebayPrice, weightOz } = body;
+    // force=true (body or query string) bypasses the cache
+    const force = body.force === true || request.nextUrl.searchParams.get('force') === 'true';
 
     if (!isbn) {
       return NextResponse.json({ error: 'ISBN is required' }, { status: 400 });
     }
 
-    const product = await getProductByIsbn(isbn);
+    const options = parseEvaluationOptions(body);
+    if (typeof options === 'string') {
+      return NextResponse.json({ error: options }, { status: 400 });
+    }
+
+    const cached = await getCachedProductByIsbn(isbn, { force });
 
-    if (!product) {
+    if (!cached) {
       return NextResponse.json({ error: 'Product not found on Amazon' }, { status: 404 });
     }
+    const { product } = cached;
 
     // Calculate fees and profit if eBay price provided
     let analysis = null;
     if (ebayPrice && product.buyBoxPrice) {
-      const fees = calculateFees(ebayPrice, product.buyBoxPrice);
-      const decision = makeDecision(
-        Math.max(fees.fbaProfit, fees.fbmProfit),
-        Math.max(fees.fbaRoi, fees.fbmRoi),
-        product.salesRank,
-        product.salesRankDrops30,
-        product.fbaOfferCount,
-        product.isAmazon
-      );
+      const [feeProfile, ruleSet] = await Promise.all([getActiveFeeProfile(), getActiveRuleSet(body.team)]);
+      const sellPrice = selectSellPrice(product, options);
+      const amazonPrice = sellPrice.price ?? product.buyBoxPrice;
+      const fees = calculateFees(ebayPrice, amazonPrice, {
+        profile: feeProfile,
+        weightOz: typeof weightOz === 'number' ? weightOz : product.weightOz,
+        dimensions: product.dimensions,
+      });
+      const decision = evaluateRules(ruleSet, buildDecisionInputs(product, fees, ebayPrice, amazonPrice));
 
       analysis = {
         ...fees,
         ...decision,
-        sellPrice: product.buyBoxPrice,
+        sellPrice: amazonPrice,
+        priceEstimate: sellPrice.method,
+        sellPriceEstimate: sellPrice.estimate,
       };
     }
 
     return NextResponse.json({
       product,
       analysis,
+      cache: { source: cached.source, stale: cached.stale, cachedAt: cached.cachedAt },
     });
   } catch (error) {
     console.error('Keepa API error:', error);
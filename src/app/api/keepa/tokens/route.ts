@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenBudget, MIN_TOKENS_FOR_JOBS } from '@/services/keepaTokens';
+import { getRequestUser } from '@/services/auth';
+
+// GET: Latest Keepa token balance (estimated forward from the last response)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const budget = await getTokenBudget();
+
+    if (!budget) {
+      return NextResponse.json({ known: false, reserveForJobs: MIN_TOKENS_FOR_JOBS });
+    }
+
+    return NextResponse.json({
+      known: true,
+      tokensLeft: budget.estimatedTokens,
+      lastReportedTokens: budget.tokensLeft,
+      refillRate: budget.refillRate,
+      recordedAt: new Date(budget.recordedAt).toISOString(),
+      reserveForJobs: MIN_TOKENS_FOR_JOBS,
+      jobsPaused: budget.estimatedTokens < MIN_TOKENS_FOR_JOBS,
+    });
+  } catch (error) {
+    console.error('Keepa tokens error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get Keepa tokens' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyListings } from '@/services/liveness';
+import { isCronOrUser } from '@/services/auth';
+
+// Each 20 listings is one eBay item call
+export const maxDuration = 60;
+
+async function runVerify(request: NextRequest, limit?: number) {
+  if (!(await isCronOrUser(request))) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  try {
+    const result = await verifyListings({ limit });
+    console.log(`Verified ${result.checked} listings: ${result.live} live, ${result.ended} ended, ${result.deferred} deferred`);
+
+    if (result.error) {
+      return NextResponse.json(result, { status: 502 });
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Listing verify error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Verification failed' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET: Cron entry point
+export async function GET(request: NextRequest) {
+  return runVerify(request);
+}
+
+/**
+ * POST: Re-check BUY/REVIEW listings on eBay now and mark sold or ended
+ * ones ENDED. Body (optional): { limit?: number } listings to check.
+ */
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const { limit } = body;
+  if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+    return NextResponse.json({ error: 'limit must be a positive integer' }, { status: 400 });
+  }
+  return runVerify(request, limit);
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseBulkInput, runBulkLookup } from '@/services/bulkLookup';
+import { parseEvaluationOptions } from '@/services/evaluator';
+import { BULK_LOOKUP_EXPORT_COLUMNS, EXPORT_CONTENT_TYPES, csvLine, exportFilename, toCells } from '@/services/exports';
+import { getRequestUser } from '@/services/auth';
+
+// A 1000-line ISBN list is well under this
+const MAX_FILE_BYTES = 1024 * 1024;
+
+/**
+ * POST: Price a list of ISBN + cost lines against Keepa, the active fee
+ * profile and decision rules. Body is JSON { text, priceEstimate?,
+ * targetSellDate? } or a multipart form with a CSV `file`. Invalid lines come
+ * back with an error instead of a decision. ?format=csv returns the results
+ * as a CSV download.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    let text: string;
+    let body: { priceEstimate?: unknown; targetSellDate?: unknown } = {};
+    if ((request.headers.get('content-type') || '').startsWith('multipart/form-data')) {
+      const form = await request.formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json({ error: 'file is required' }, { status: 400 });
+      }
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json({ error: 'File is larger than 1 MB' }, { status: 413 });
+      }
+      text = await file.text();
+      body = { priceEstimate: form.get('priceEstimate') ?? undefined, targetSellDate: form.get('targetSellDate') ?? undefined };
+    } else {
+      body = await request.json();
+      text = typeof (body as { text?: unknown }).text === 'string' ? (body as { text: string }).text : '';
+    }
+
+    const options = parseEvaluationOptions(body);
+    if (typeof options === 'string') {
+      return NextResponse.json({ error: options }, { status: 400 });
+    }
+
+    const lines = parseBulkInput(text);
+    if (typeof lines === 'string') {
+      return NextResponse.json({ error: lines }, { status: 400 });
+    }
+
+    const results = await runBulkLookup(lines, options);
+
+    if (request.nextUrl.searchParams.get('format') === 'csv') {
+      const csv = [BULK_LOOKUP_EXPORT_COLUMNS.map(column => column.header), ...results.map(r => toCells(BULK_LOOKUP_EXPORT_COLUMNS, r))]
+        .map(csvLine)
+        .join('');
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': EXPORT_CONTENT_TYPES.csv,
+          'Content-Disposition': `attachment; filename="${exportFilename('lookup', 'csv')}"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ priceEstimate: options.priceEstimate, results });
+  } catch (error) {
+    console.error('Bulk lookup error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Bulk lookup failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPurchase, updatePurchase, validatePurchaseInput, type PurchaseInput } from '@/services/purchases';
+import { checkInventoryQuantity, syncInventoryForPurchase } from '@/services/inventory';
+import { getRequestUser } from '@/services/auth';
+
+// GET: One purchase
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const purchase = await getPurchase(parseInt(params.id));
+
+    if (!purchase) {
+      return NextResponse.json({ error: 'Purchase not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ purchase });
+  } catch (error) {
+    console.error('Purchase error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get purchase' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: Edit a purchase (order number, quantity, amounts, date, notes).
+// The listing it came from can't be changed. Quantity and cost edits add or
+// remove 'ordered' copies and re-split the cost across the copies; copies
+// past 'ordered' can't be removed.
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const changes = await request.json() as Partial<PurchaseInput>;
+    delete changes.bookId;
+
+    const validationError = validatePurchaseInput(changes, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const id = parseInt(params.id);
+    const previous = await getPurchase(id);
+    if (!previous) {
+      return NextResponse.json({ error: 'Purchase not found' }, { status: 404 });
+    }
+
+    // The discount limit depends on fields the edit may leave out
+    const mergedError = validatePurchaseInput({ ...previous, ...changes });
+    if (mergedError) {
+      return NextResponse.json({ error: mergedError }, { status: 400 });
+    }
+
+    if (changes.quantity !== undefined && changes.quantity < previous.quantity) {
+      const quantityError = await checkInventoryQuantity(id, changes.quantity);
+      if (quantityError) {
+        return NextResponse.json({ error: quantityError }, { status: 409 });
+      }
+    }
+
+    const purchase = await updatePurchase(id, changes);
+
+    if (!purchase) {
+      return NextResponse.json({ error: 'Purchase not found' }, { status: 404 });
+    }
+
+    if (purchase.quantity !== previous.quantity || purchase.totalCost !== previous.totalCost) {
+      const syncError = await syncInventoryForPurchase(previous, purchase, user.id);
+      if (syncError) {
+        return NextResponse.json({ error: `Purchase updated but inventory was not: ${syncError}`, purchase }, { status: 500 });
+      }
+    }
+
+    return NextResponse.json({ purchase });
+  } catch (error) {
+    console.error('Update purchase error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPurchases, type Purchase } from '@/services/purchases';
+import { getRequestUser, getUserEmails } from '@/services/auth';
+import {
+  PURCHASE_EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  csvLine,
+  exportFilename,
+  toCells,
+  type ExportFormat,
+} from '@/services/exports';
+import { buildXlsx } from '@/services/xlsx';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const PAGE_SIZE = 1000;
+
+/**
+ * GET: Purchases for bookkeeping as a spreadsheet, newest first.
+ * Query params: from, to (YYYY-MM-DD, inclusive, on the purchase date),
+ * mine=true for the signed-in user's purchases, format=csv|xlsx (default csv).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const format = (params.get('format') || 'csv') as ExportFormat;
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({ error: 'format must be csv or xlsx' }, { status: 400 });
+    }
+
+    const from = params.get('from');
+    const to = params.get('to');
+    if ((from && !DATE.test(from)) || (to && !DATE.test(to))) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD dates' }, { status: 400 });
+    }
+
+    const purchases: Purchase[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await getPurchases({
+        userId: params.get('mine') === 'true' ? user.id : undefined,
+        from: from ?? undefined,
+        to: to ? new Date(Date.parse(`${to}T00:00:00Z`) + 24 * 60 * 60 * 1000).toISOString() : undefined,
+        limit: PAGE_SIZE,
+        offset,
+      });
+      purchases.push(...page);
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    const emails = await getUserEmails(Array.from(new Set(purchases.map(p => p.userId).filter((id): id is string => !!id))));
+    const rows = [
+      PURCHASE_EXPORT_COLUMNS.map(column => column.header),
+      ...purchases.map(p => toCells(PURCHASE_EXPORT_COLUMNS, { ...p, buyerEmail: p.userId ? emails.get(p.userId) ?? null : null })),
+    ];
+
+    const body = format === 'xlsx' ? buildXlsx('Purchases', rows) : rows.map(csvLine).join('');
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${exportFilename('purchases', format)}"`,
+      },
+    });
+  } catch (error) {
+    console.error('Purchases export error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to export purchases' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPurchases, createPurchase, deletePurchase, validatePurchaseInput, type PurchaseInput } from '@/services/purchases';
+import { createInventoryForPurchase } from '@/services/inventory';
+import { markBookAction } from '@/services/supabase';
+import { getRequestUser } from '@/services/auth';
+
+// GET: Purchases newest first. ?bookId= for one listing, ?mine=true for the
+// signed-in user's purchases, ?limit= (default 200)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const bookId = params.get('bookId');
+    const limit = params.get('limit');
+
+    const purchases = await getPurchases({
+      bookId: bookId ? parseInt(bookId) : undefined,
+      userId: params.get('mine') === 'true' ? user.id : undefined,
+      limit: limit ? Math.min(Math.max(parseInt(limit) || 200, 1), 1000) : undefined,
+    });
+
+    return NextResponse.json({ purchases });
+  } catch (error) {
+    console.error('Purchases error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get purchases' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Record a purchase and add one 'ordered' inventory item per copy. When
+// it comes from a listing (bookId), the listing is also marked BOUGHT by the
+// signed-in user.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const body = await request.json() as Partial<PurchaseInput>;
+
+    const validationError = validatePurchaseInput(body);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const purchase = await createPurchase({
+      bookId: body.bookId ?? null,
+      isbn: body.isbn!.trim(),
+      title: body.title!.trim(),
+      ebayItemId: body.ebayItemId || null,
+      ebayOrderNumber: body.ebayOrderNumber || null,
+      quantity: body.quantity!,
+      unitPrice: body.unitPrice!,
+      shipping: body.shipping ?? 0,
+      tax: body.tax ?? 0,
+      discount: body.discount ?? 0,
+      purchasedAt: body.purchasedAt || new Date().toISOString(),
+      notes: body.notes || null,
+    }, user.id);
+
+    if (!purchase) {
+      return NextResponse.json({ error: 'Failed to record purchase' }, { status: 500 });
+    }
+
+    // A purchase without its copies would never show up in inventory
+    const inventory = await createInventoryForPurchase(purchase, user.id);
+    if (!inventory) {
+      await deletePurchase(purchase.id);
+      return NextResponse.json({ error: 'Failed to create inventory for purchase' }, { status: 500 });
+    }
+
+    if (purchase.bookId !== null && !(await markBookAction(purchase.bookId, 'BOUGHT', user.id))) {
+      return NextResponse.json({ error: 'Purchase recorded but the book could not be marked BOUGHT', purchase }, { status: 500 });
+    }
+
+    return NextResponse.json({ purchase, inventory });
+  } catch (error) {
+    console.error('Create purchase error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
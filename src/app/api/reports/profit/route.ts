@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getProfitReport } from '@/services/profitReport';
+import { getRequestUser } from '@/services/auth';
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET: Predicted vs realized profit, ROI and days-to-sell for copies sold or
+ * written off, per book and aggregated by seller, score bucket and month.
+ * Query params: from, to (YYYY-MM-DD, inclusive, on the sale date).
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const from = request.nextUrl.searchParams.get('from');
+    const to = request.nextUrl.searchParams.get('to');
+    if ((from && !DATE.test(from)) || (to && !DATE.test(to))) {
+      return NextResponse.json({ error: 'from and to must be YYYY-MM-DD dates' }, { status: 400 });
+    }
+
+    const report = await getProfitReport(from, to);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Profit report error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to build profit report' },
+      { status: 500 }
+    );
+  }
+}
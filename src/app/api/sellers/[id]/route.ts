@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { updateSeller, validateSellerInput, type SellerInput } from '@/services/sellers';
+import { getRequestUser } from '@/services/auth';
+
+// PATCH: Edit a seller's label, username, colour, order, active flag or cost
+// adjustments. The id can't change since books reference it.
+export async function PATCH(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const changes = await request.json() as SellerInput;
+    delete changes.id;
+
+    const validationError = validateSellerInput(changes, true);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const seller = await updateSeller(params.id, changes);
+
+    if (!seller) {
+      return NextResponse.json({ error: 'Seller not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ seller });
+  } catch (error) {
+    console.error('Update seller error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
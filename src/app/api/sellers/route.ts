@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSellers, createSeller, validateSellerInput, type SellerInput } from '@/services/sellers';
+import { getRequestUser } from '@/services/auth';
+
+// GET: Sellers in dashboard order. ?all=true includes inactive sellers.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const sellers = await getSellers({ activeOnly: request.nextUrl.searchParams.get('all') !== 'true' });
+    return NextResponse.json({ sellers });
+  } catch (error) {
+    console.error('Sellers error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get sellers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Add a seller (id, label, ebayUsername required)
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request);
+    if (!user) {
+      return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+    }
+
+    const input = await request.json() as SellerInput;
+
+    const validationError = validateSellerInput(input);
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 });
+    }
+
+    const seller = await createSeller(input);
+    if (typeof seller === 'string') {
+      return NextResponse.json({ error: seller }, { status: seller.endsWith('already exists') ? 409 : 500 });
+    }
+
+    return NextResponse.json({ seller }, { status: 201 });
+  } catch (error) {
+    console.error('Create seller error:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
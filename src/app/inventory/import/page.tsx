@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { ImportSummary, UnmatchedSale } from '@/services/amazonImport';
+import type { AmazonReportType } from '@/services/amazonReports';
+import type { InventoryItem } from '@/services/inventoryLifecycle';
+import { apiFetch } from '@/services/supabaseClient';
+
+const formatCents = (cents: number | null) => (cents === null ? '—' : `$${(cents / 100).toFixed(2)}`);
+
+export default function AmazonImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [reportType, setReportType] = useState<AmazonReportType | 'auto'>('auto');
+  const [uploading, setUploading] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [queue, setQueue] = useState<UnmatchedSale[]>([]);
+  const [listed, setListed] = useState<InventoryItem[] | null>(null);
+  const [matching, setMatching] = useState<UnmatchedSale | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [filter, setFilter] = useState('');
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await apiFetch('/api/amazon/unmatched');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load review queue');
+      setQueue(data.sales);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load review queue');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  async function upload(event: React.FormEvent) {
+    event.preventDefault();
+    if (!file) return;
+    setError(null);
+    setSummary(null);
+    setUploading(true);
+
+    const form = new FormData();
+    form.set('file', file);
+    if (reportType !== 'auto') form.set('reportType', reportType);
+
+    try {
+      const response = await apiFetch('/api/amazon/import', { method: 'POST', body: form });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Import failed');
+      setSummary(data);
+      setListed(null);
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  async function startMatching(sale: UnmatchedSale) {
+    setMatching(sale);
+    setSelected([]);
+    setFilter(sale.sku || sale.asin || '');
+    if (listed) return;
+    try {
+      const response = await apiFetch('/api/inventory?status=listed&limit=1000');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load listed inventory');
+      setListed(data.items);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load listed inventory');
+    }
+  }
+
+  async function resolve(sale: UnmatchedSale, body: { action: 'match'; itemIds: number[] } | { action: 'ignore' }) {
+    setError(null);
+    try {
+      const response = await apiFetch(`/api/amazon/unmatched/${sale.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to resolve');
+      setMatching(null);
+      setQueue(prev => prev.filter(s => s.id !== sale.id));
+      if (body.action === 'match') setListed(prev => prev && prev.filter(item => !body.itemIds.includes(item.id)));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve');
+    }
+  }
+
+  const needle = filter.trim().toLowerCase();
+  const candidates = (listed ?? []).filter(item =>
+    !needle || [item.title, item.isbn, item.sku].some(value => value?.toLowerCase().includes(needle))
+  );
+
+  return (
+    <>
+      <div className="header">
+        <h1>Amazon Import</h1>
+        <p>Record sales and fees from All Orders and settlement reports</p>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6 flex flex-col gap-4">
+        <Link href="/inventory" className="text-sm text-indigo-600 hover:underline">← Back to inventory</Link>
+
+        <form onSubmit={upload} className="filter-section flex flex-wrap items-center gap-3">
+          <div className="filter-title w-full">Upload flat file</div>
+          <input type="file" accept=".txt,.tsv,.csv,text/plain,text/tab-separated-values" onChange={e => setFile(e.target.files?.[0] ?? null)} />
+          <select className="search-box" style={{ width: 200 }} value={reportType} onChange={e => setReportType(e.target.value as AmazonReportType | 'auto')}>
+            <option value="auto">Detect report type</option>
+            <option value="all_orders">All Orders</option>
+            <option value="settlement">Settlement (V2)</option>
+          </select>
+          <button
+            type="submit"
+            disabled={!file || uploading}
+            className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+          >
+            {uploading ? 'Importing…' : 'Import'}
+          </button>
+          {summary && (
+            <div className="w-full text-sm text-gray-600">
+              {summary.reportType === 'settlement' ? 'Settlement' : 'All Orders'}: {summary.lines} sale lines ·{' '}
+              <span className="text-emerald-600">{summary.matched} sold</span> · {summary.updated} corrected ·{' '}
+              <span className={summary.unmatched > 0 ? 'text-amber-600' : ''}>{summary.unmatched} need review</span> · {summary.skipped} rows skipped
+            </div>
+          )}
+        </form>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <div className="filter-section overflow-x-auto">
+          <div className="filter-title">Review queue ({queue.length})</div>
+          {queue.length === 0 ? (
+            <div className="text-sm text-gray-400">Every imported sale has been matched</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3">Order</th>
+                  <th className="py-2 pr-3">SKU / ASIN</th>
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3 text-right">Qty</th>
+                  <th className="py-2 pr-3 text-right">Price</th>
+                  <th className="py-2 pr-3 text-right">Fees</th>
+                  <th className="py-2 pr-3">Reason</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {queue.map(sale => (
+                  <tr key={sale.id} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-3 font-mono text-xs">
+                      {sale.orderId}
+                      {sale.title && <div className="font-sans text-gray-500 line-clamp-1">{sale.title}</div>}
+                    </td>
+                    <td className="py-2 pr-3 font-mono text-xs">{sale.sku || '—'}<div className="text-gray-400">{sale.asin}</div></td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{new Date(sale.saleDate).toLocaleDateString()}</td>
+                    <td className="py-2 pr-3 text-right">{sale.quantity}</td>
+                    <td className="py-2 pr-3 text-right">{formatCents(sale.salePrice)}</td>
+                    <td className="py-2 pr-3 text-right">{formatCents(sale.fees)}</td>
+                    <td className="py-2 pr-3 text-gray-500">{sale.reason}</td>
+                    <td className="py-2 whitespace-nowrap text-right">
+                      <button className="text-indigo-600 hover:underline mr-3" onClick={() => startMatching(sale)}>Match</button>
+                      <button className="text-gray-500 hover:underline" onClick={() => resolve(sale, { action: 'ignore' })}>Ignore</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {matching && (
+          <div className="filter-section">
+            <div className="filter-title">
+              Match order {matching.orderId} ({matching.quantity} {matching.quantity === 1 ? 'copy' : 'copies'}) to listed inventory
+            </div>
+            <input
+              className="search-box mb-3"
+              placeholder="Filter by title, ISBN or SKU"
+              value={filter}
+              onChange={e => setFilter(e.target.value)}
+            />
+            {listed === null ? (
+              <div className="text-sm text-gray-400">Loading listed inventory...</div>
+            ) : candidates.length === 0 ? (
+              <div className="text-sm text-gray-400">No listed copies match</div>
+            ) : (
+              <div className="filter-options max-h-72 overflow-y-auto">
+                {candidates.map(item => (
+                  <div
+                    key={item.id}
+                    className={`filter-toggle ${selected.includes(item.id) ? 'active' : ''}`}
+                    onClick={() => setSelected(prev => prev.includes(item.id) ? prev.filter(id => id !== item.id) : [...prev, item.id])}
+                  >
+                    <span className="checkbox" />
+                    <span className="label">
+                      {item.title}
+                      <span className="text-xs text-gray-400 font-mono"> · {item.isbn} · {item.channel} {item.sku}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="flex gap-2 mt-3">
+              <button
+                className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+                disabled={selected.length === 0}
+                onClick={() => resolve(matching, { action: 'match', itemIds: selected })}
+              >
+                Record sale ({selected.length})
+              </button>
+              <button className="px-4 py-2 text-sm font-semibold rounded-lg text-gray-600 hover:bg-gray-100" onClick={() => setMatching(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
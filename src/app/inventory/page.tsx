@@ -0,0 +1,315 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { X, Loader2 } from 'lucide-react';
+import {
+  INVENTORY_STATUSES,
+  INVENTORY_STATUS_LABELS,
+  INVENTORY_TRANSITIONS,
+  type InventoryCounts,
+  type InventoryItem,
+  type InventoryStatus,
+  type InventoryTransition,
+  type SalesChannel,
+} from '@/services/inventoryLifecycle';
+import { apiFetch } from '@/services/supabaseClient';
+
+// Days in a state before an item counts as stuck
+const STUCK_AFTER_DAYS: Partial<Record<InventoryStatus, number>> = {
+  ordered: 14,    // in transit
+  received: 7,    // waiting to be graded
+  graded: 7,      // waiting to be listed
+  returned: 7,
+};
+
+const formatCents = (cents: number | null) => (cents === null ? '—' : `$${(cents / 100).toFixed(2)}`);
+const toCents = (dollars: string) => Math.round((parseFloat(dollars) || 0) * 100);
+
+function daysInState(item: InventoryItem): number {
+  return Math.floor((Date.now() - new Date(item.statusChangedAt).getTime()) / (24 * 60 * 60 * 1000));
+}
+
+function isStuck(item: InventoryItem): boolean {
+  const limit = STUCK_AFTER_DAYS[item.status];
+  return limit !== undefined && daysInState(item) >= limit;
+}
+
+export default function InventoryPage() {
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [counts, setCounts] = useState<InventoryCounts | null>(null);
+  const [status, setStatus] = useState<InventoryStatus | 'all'>('all');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [moving, setMoving] = useState<{ item: InventoryItem; to: InventoryStatus } | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const response = await apiFetch(`/api/inventory${status === 'all' ? '' : `?status=${status}`}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load inventory');
+      setItems(data.items);
+      setCounts(data.counts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load inventory');
+    } finally {
+      setLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function handleMoved() {
+    setMoving(null);
+    load();
+  }
+
+  const stuck = items.filter(isStuck).length;
+
+  return (
+    <>
+      <div className="header">
+        <h1>Inventory</h1>
+        <p>Every purchased copy from order to sale</p>
+        <div className="stats">
+          {INVENTORY_STATUSES.map(s => (
+            <div key={s} className="stat" style={{ cursor: 'pointer', opacity: status === 'all' || status === s ? 1 : 0.5 }} onClick={() => setStatus(status === s ? 'all' : s)}>
+              <div className="stat-value">{counts ? counts[s] : '-'}</div>
+              <div className="stat-label">{INVENTORY_STATUS_LABELS[s].toUpperCase()}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <div className="flex gap-4">
+            <Link href="/" className="text-sm text-indigo-600 hover:underline">← Back to deals</Link>
+            <Link href="/inventory/import" className="text-sm text-indigo-600 hover:underline">Import Amazon reports</Link>
+          </div>
+          <div className="text-sm text-gray-500">
+            {status === 'all' ? 'All states' : INVENTORY_STATUS_LABELS[status]}
+            {stuck > 0 && <span className="text-amber-600"> · {stuck} stuck</span>}
+          </div>
+        </div>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        {loading ? (
+          <div className="loading">
+            <div className="loading-spinner" />
+            <p>Loading inventory...</p>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="no-results">
+            <p>No inventory in this state.</p>
+          </div>
+        ) : (
+          <div className="filter-section overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3">Title</th>
+                  <th className="py-2 pr-3">State</th>
+                  <th className="py-2 pr-3 text-right">Days</th>
+                  <th className="py-2 pr-3">Listing</th>
+                  <th className="py-2 pr-3 text-right">Cost</th>
+                  <th className="py-2 pr-3 text-right">Sold for</th>
+                  <th className="py-2">Move to</th>
+                </tr>
+              </thead>
+              <tbody>
+                {items.map(item => (
+                  <tr key={item.id} className={`border-b border-gray-100 ${isStuck(item) ? 'bg-amber-50' : ''}`}>
+                    <td className="py-2 pr-3">
+                      <div className="line-clamp-1 text-gray-900">{item.title}</div>
+                      <div className="text-xs text-gray-400 font-mono">
+                        {item.isbn}{item.conditionGrade && ` · ${item.conditionGrade}`}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 whitespace-nowrap">{INVENTORY_STATUS_LABELS[item.status]}</td>
+                    <td className={`py-2 pr-3 text-right ${isStuck(item) ? 'text-amber-600 font-semibold' : ''}`}>{daysInState(item)}</td>
+                    <td className="py-2 pr-3 font-mono text-xs">
+                      {item.channel ? `${item.channel} ${item.sku}` : '—'}
+                      {item.listPrice !== null && <div className="text-gray-400">{formatCents(item.listPrice)}</div>}
+                    </td>
+                    <td className="py-2 pr-3 text-right">{formatCents(item.totalCost)}</td>
+                    <td className="py-2 pr-3 text-right">{formatCents(item.salePrice)}</td>
+                    <td className="py-2">
+                      <div className="flex flex-wrap gap-1">
+                        {INVENTORY_TRANSITIONS[item.status].map(to => (
+                          <button
+                            key={to}
+                            className="px-2 py-1 text-xs rounded-md border border-gray-200 hover:bg-gray-100"
+                            onClick={() => setMoving({ item, to })}
+                          >
+                            {INVENTORY_STATUS_LABELS[to]}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {moving && (
+        <TransitionModal item={moving.item} to={moving.to} onMoved={handleMoved} onClose={() => setMoving(null)} />
+      )}
+    </>
+  );
+}
+
+interface TransitionModalProps {
+  item: InventoryItem;
+  to: InventoryStatus;
+  onMoved: () => void;
+  onClose: () => void;
+}
+
+// Cost, date and the details the target state needs (grade, SKU, sale price)
+function TransitionModal({ item, to, onMoved, onClose }: TransitionModalProps) {
+  const [cost, setCost] = useState('0.00');
+  const [occurredOn, setOccurredOn] = useState(new Date().toISOString().slice(0, 10));
+  const [note, setNote] = useState('');
+  const [conditionGrade, setConditionGrade] = useState(item.conditionGrade ?? 'Used - Very Good');
+  const [channel, setChannel] = useState<SalesChannel>(item.channel ?? 'FBA');
+  const [sku, setSku] = useState(item.sku ?? '');
+  const [listPrice, setListPrice] = useState(item.listPrice !== null ? (item.listPrice / 100).toFixed(2) : '');
+  const [salePrice, setSalePrice] = useState(item.listPrice !== null ? (item.listPrice / 100).toFixed(2) : '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setSaving(true);
+
+    const transition: InventoryTransition = {
+      status: to,
+      cost: toCents(cost),
+      note: note.trim() || null,
+      occurredAt: new Date(`${occurredOn}T12:00:00`).toISOString(),
+    };
+    if (to === 'graded') transition.conditionGrade = conditionGrade;
+    if (to === 'listed') {
+      transition.channel = channel;
+      transition.sku = sku;
+      if (listPrice) transition.listPrice = toCents(listPrice);
+    }
+    if (to === 'sold') transition.salePrice = toCents(salePrice);
+
+    try {
+      const response = await apiFetch(`/api/inventory/${item.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(transition),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update item');
+      onMoved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update item');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const field = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">
+            {INVENTORY_STATUS_LABELS[item.status]} → {INVENTORY_STATUS_LABELS[to]}
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 grid grid-cols-2 gap-4 text-sm">
+          <div className="col-span-2 font-semibold text-gray-900 line-clamp-2">{item.title}</div>
+
+          {to === 'graded' && (
+            <label className="col-span-2 text-gray-600">
+              Condition
+              <select className={field} value={conditionGrade} onChange={e => setConditionGrade(e.target.value)}>
+                {['New', 'Used - Like New', 'Used - Very Good', 'Used - Good', 'Used - Acceptable'].map(grade => (
+                  <option key={grade}>{grade}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {to === 'listed' && (
+            <>
+              <label className="text-gray-600">
+                Channel
+                <select className={field} value={channel} onChange={e => setChannel(e.target.value as SalesChannel)}>
+                  <option>FBA</option>
+                  <option>FBM</option>
+                </select>
+              </label>
+              <label className="text-gray-600">
+                SKU
+                <input className={field} value={sku} onChange={e => setSku(e.target.value)} required />
+              </label>
+              <label className="col-span-2 text-gray-600">
+                List price ($)
+                <input className={field} type="number" min={0} step="0.01" value={listPrice} onChange={e => setListPrice(e.target.value)} />
+              </label>
+            </>
+          )}
+
+          {to === 'sold' && (
+            <label className="col-span-2 text-gray-600">
+              Sale price ($)
+              <input className={field} type="number" min={0} step="0.01" value={salePrice} onChange={e => setSalePrice(e.target.value)} required />
+            </label>
+          )}
+
+          <label className="text-gray-600">
+            Cost of this step ($)
+            <input className={field} type="number" min={0} step="0.01" value={cost} onChange={e => setCost(e.target.value)} />
+          </label>
+          <label className="text-gray-600">
+            Date
+            <input className={field} type="date" value={occurredOn} onChange={e => setOccurredOn(e.target.value)} required />
+          </label>
+          <label className="col-span-2 text-gray-600">
+            Note
+            <input className={field} value={note} onChange={e => setNote(e.target.value)} />
+          </label>
+          {error && <div className="col-span-2 text-red-600">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t border-gray-200">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-lg text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
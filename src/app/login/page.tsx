@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { getClientSupabase } from '@/services/supabaseClient';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setSubmitting(true);
+
+    const { error: signInError } = await getClientSupabase().auth.signInWithPassword({ email, password });
+
+    setSubmitting(false);
+    if (signInError) {
+      setError(signInError.message);
+      return;
+    }
+    router.replace('/');
+  }
+
+  return (
+    <>
+      <div className="header">
+        <h1>ScanFlow</h1>
+        <p>Sign in to see deals</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="filter-section max-w-sm mx-auto mt-10 flex flex-col gap-3">
+        <div className="filter-title">Sign In</div>
+        <input
+          type="email"
+          className="search-box"
+          placeholder="Email"
+          autoComplete="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          required
+        />
+        <input
+          type="password"
+          className="search-box"
+          placeholder="Password"
+          autoComplete="current-password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          required
+        />
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+        >
+          {submitting ? 'Signing in…' : 'Sign in'}
+        </button>
+      </form>
+    </>
+  );
+}
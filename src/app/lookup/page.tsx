@@ -0,0 +1,232 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import type { BulkLookupResult } from '@/services/bulkLookup';
+import { apiFetch, apiDownload } from '@/services/supabaseClient';
+
+const formatCents = (cents: number | null) =>
+  cents === null ? '—' : `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+const profitClass = (cents: number | null) => (cents === null ? '' : cents >= 0 ? 'text-emerald-600' : 'text-red-600');
+
+const DECISION_ORDER: Record<string, number> = { BUY: 0, REVIEW: 1, REJECT: 2 };
+
+type SortKey = 'line' | 'decision' | 'score' | 'cost' | 'amazonPrice' | 'fbaProfit' | 'fbmProfit' | 'fbaRoi' | 'salesRank';
+
+const COLUMNS: { key: SortKey; label: string; numeric?: boolean }[] = [
+  { key: 'line', label: 'Line' },
+  { key: 'decision', label: 'Decision' },
+  { key: 'score', label: 'Score', numeric: true },
+  { key: 'cost', label: 'Cost', numeric: true },
+  { key: 'amazonPrice', label: 'Amazon', numeric: true },
+  { key: 'fbaProfit', label: 'FBA profit', numeric: true },
+  { key: 'fbmProfit', label: 'FBM profit', numeric: true },
+  { key: 'fbaRoi', label: 'ROI', numeric: true },
+  { key: 'salesRank', label: 'Rank', numeric: true },
+];
+
+// Sort value; lines with errors and missing numbers always sort last
+function sortValue(result: BulkLookupResult, key: SortKey): number | null {
+  if (key === 'line') return result.line;
+  if (key === 'decision') return result.decision ? DECISION_ORDER[result.decision] : null;
+  return result[key];
+}
+
+export default function BulkLookupPage() {
+  const [text, setText] = useState('');
+  const [priceEstimate, setPriceEstimate] = useState<'buy_box' | 'seasonal'>('buy_box');
+  const [results, setResults] = useState<BulkLookupResult[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [downloading, setDownloading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: 'line', desc: false });
+
+  async function loadFile(file: File | undefined) {
+    if (file) setText(await file.text());
+  }
+
+  const requestInit = (): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text, priceEstimate }),
+  });
+
+  async function lookUp(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setRunning(true);
+    try {
+      const response = await apiFetch('/api/lookup/bulk', requestInit());
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Lookup failed');
+      setResults(data.results);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Lookup failed');
+    } finally {
+      setRunning(false);
+    }
+  }
+
+  // Re-posts the same list; Keepa products come from the cache the first run filled
+  async function downloadCsv() {
+    setError(null);
+    setDownloading(true);
+    try {
+      await apiDownload('/api/lookup/bulk?format=csv', 'lookup.csv', requestInit());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Download failed');
+    } finally {
+      setDownloading(false);
+    }
+  }
+
+  function toggleSort(key: SortKey) {
+    setSort(prev => (prev.key === key ? { key, desc: !prev.desc } : { key, desc: COLUMNS.find(c => c.key === key)?.numeric ?? false }));
+  }
+
+  const sorted = useMemo(() => {
+    if (!results) return [];
+    return [...results].sort((a, b) => {
+      const av = sortValue(a, sort.key);
+      const bv = sortValue(b, sort.key);
+      if (av === null && bv === null) return a.line - b.line;
+      if (av === null) return 1;
+      if (bv === null) return -1;
+      return sort.desc ? bv - av : av - bv;
+    });
+  }, [results, sort]);
+
+  const counts = useMemo(() => {
+    const all = results ?? [];
+    return {
+      buy: all.filter(r => r.decision === 'BUY').length,
+      review: all.filter(r => r.decision === 'REVIEW').length,
+      reject: all.filter(r => r.decision === 'REJECT').length,
+      errors: all.filter(r => r.error).length,
+    };
+  }, [results]);
+
+  return (
+    <>
+      <div className="header">
+        <h1>Bulk ISBN Lookup</h1>
+        <p>Price a supplier list of ISBNs and asking prices against Amazon</p>
+        {results && (
+          <div className="stats">
+            <div className="stat">
+              <div className="stat-value" style={{ color: '#00cec9' }}>{counts.buy}</div>
+              <div className="stat-label">BUY</div>
+            </div>
+            <div className="stat">
+              <div className="stat-value" style={{ color: '#fdcb6e' }}>{counts.review}</div>
+              <div className="stat-label">REVIEW</div>
+            </div>
+            <div className="stat">
+              <div className="stat-value" style={{ color: '#e74c3c' }}>{counts.reject}</div>
+              <div className="stat-label">REJECT</div>
+            </div>
+            <div className="stat">
+              <div className="stat-value">{counts.errors}</div>
+              <div className="stat-label">ERRORS</div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6 flex flex-col gap-4">
+        <Link href="/" className="text-sm text-indigo-600 hover:underline">← Back to deals</Link>
+
+        <form onSubmit={lookUp} className="filter-section flex flex-col gap-3">
+          <div className="filter-title">ISBN and cost, one per line</div>
+          <textarea
+            className="search-box font-mono"
+            rows={10}
+            placeholder={'9780131103627, 4.50\n0262033844 12.00'}
+            value={text}
+            onChange={e => setText(e.target.value)}
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <input type="file" accept=".csv,.txt,.tsv,text/csv,text/plain" onChange={e => loadFile(e.target.files?.[0])} />
+            <select className="search-box" style={{ width: 200 }} value={priceEstimate} onChange={e => setPriceEstimate(e.target.value as 'buy_box' | 'seasonal')}>
+              <option value="buy_box">Current buy box</option>
+              <option value="seasonal">Next rush season</option>
+            </select>
+            <button
+              type="submit"
+              disabled={!text.trim() || running}
+              className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+            >
+              {running ? 'Looking up…' : 'Look up'}
+            </button>
+            {results && (
+              <button
+                type="button"
+                disabled={downloading}
+                onClick={downloadCsv}
+                className="px-4 py-2 text-sm font-semibold rounded-lg text-indigo-600 hover:bg-gray-100 disabled:opacity-50"
+              >
+                {downloading ? 'Preparing…' : 'Download CSV'}
+              </button>
+            )}
+          </div>
+        </form>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {running ? (
+          <div className="loading">
+            <div className="loading-spinner" />
+            <p>Looking up ISBNs...</p>
+          </div>
+        ) : results && (
+          <div className="filter-section overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  {COLUMNS.map(column => (
+                    <th
+                      key={column.key}
+                      className={`py-2 pr-3 cursor-pointer select-none ${column.numeric ? 'text-right' : ''}`}
+                      onClick={() => toggleSort(column.key)}
+                    >
+                      {column.label}{sort.key === column.key ? (sort.desc ? ' ↓' : ' ↑') : ''}
+                    </th>
+                  ))}
+                  <th className="py-2">Title</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map(result => (
+                  <tr key={result.line} className="border-b border-gray-100 align-top">
+                    <td className="py-2 pr-3 text-gray-400">{result.line}</td>
+                    {result.error ? (
+                      <td colSpan={COLUMNS.length} className="py-2 pr-3">
+                        <span className="font-mono text-xs">{result.input}</span>
+                        <span className="text-red-600"> — {result.error}</span>
+                      </td>
+                    ) : (
+                      <>
+                        <td className="py-2 pr-3 font-semibold" title={result.reason ?? undefined}>{result.decision}</td>
+                        <td className="py-2 pr-3 text-right">{result.score ?? '—'}</td>
+                        <td className="py-2 pr-3 text-right">{formatCents(result.cost)}</td>
+                        <td className="py-2 pr-3 text-right">{formatCents(result.amazonPrice)}</td>
+                        <td className={`py-2 pr-3 text-right ${profitClass(result.fbaProfit)}`}>{formatCents(result.fbaProfit)}</td>
+                        <td className={`py-2 pr-3 text-right ${profitClass(result.fbmProfit)}`}>{formatCents(result.fbmProfit)}</td>
+                        <td className="py-2 pr-3 text-right">{result.fbaRoi === null ? '—' : `${result.fbaRoi}%`}</td>
+                        <td className="py-2 pr-3 text-right">{result.salesRank?.toLocaleString() ?? '—'}</td>
+                        <td className="py-2">
+                          <div className="line-clamp-1 text-gray-900">{result.title ?? result.reason}</div>
+                          <div className="text-xs text-gray-400 font-mono">{result.isbn}{result.asin && ` · ${result.asin}`}</div>
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
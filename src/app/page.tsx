@@ -1,21 +1,29 @@
 'use client';
 
-import { useState, useEffect, useMemo, useCallback } from 'react';
-
-// Direct Supabase REST API — same approach as ScanFlow-ScapWeb
-const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const SUPABASE_KEY = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-const TABLE = 'ebay_books';
-const HEADERS = {
-  'apikey': SUPABASE_KEY,
-  'Authorization': `Bearer ${SUPABASE_KEY}`,
-};
-
-type Seller = 'booksrun' | 'oneplanetbooks' | 'thrift.books' | 'second.sale' | 'betterworldbooks';
-type DecisionFilter = 'all' | 'BUY' | 'REVIEW' | 'REJECT';
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import { DEFAULT_RULES, type DecisionExplanation, type FilterRule } from '@/services/decisionRules';
+import type { Seller } from '@/services/sellers';
+import type { BookOffer } from '@/services/bookQuery';
+import { DecisionExplanationPanel } from '@/components/DecisionExplanationPanel';
+import { useAuth } from '@/components/AuthProvider';
+import { PurchaseFormModal } from '@/components/PurchaseFormModal';
+import { apiFetch, apiDownload } from '@/services/supabaseClient';
+
+type DecisionFilter = 'all' | 'BUY' | 'REVIEW' | 'REJECT' | 'ENDED';
 type PriceFilter = 'all' | '0-5' | '5-10' | '10-20' | '20+';
 type FormatFilter = 'all' | 'Paperback' | 'Hardcover';
 type WeightFilter = 'all' | '0-5' | '5-10' | '10-20' | '20+';
+type SortOption = 'scraped_at' | 'score' | 'fbm_profit' | 'multiplier';
+
+const PAGE_SIZE = 50;
+
+const SORT_OPTIONS: { id: SortOption; label: string }[] = [
+  { id: 'scraped_at', label: 'Newest' },
+  { id: 'score', label: 'Score' },
+  { id: 'fbm_profit', label: 'Profit' },
+  { id: 'multiplier', label: 'Multiplier' },
+];
 
 interface Book {
   id: number;
@@ -30,6 +38,10 @@ interface Book {
   image_url: string | null;
   shipping: number;
   scraped_at: string;
+  previous_price: number | null;
+  price_changed_at: string | null;
+  verified_at: string | null;
+  ended_at: string | null;
   decision: string | null;
   asin: string | null;
   amazon_price: number | null;
@@ -40,6 +52,7 @@ interface Book {
   fbm_profit: number | null;
   fba_roi: number | null;
   score: number | null;
+  decision_explanation: DecisionExplanation | null;
   amazon_flag: string | null;
   book_type: string | null;
   weight_oz: number | null;
@@ -47,21 +60,50 @@ interface Book {
   bought_at: string | null;
 }
 
-const SELLERS: { id: Seller; label: string }[] = [
-  { id: 'booksrun', label: 'BooksRun' },
-  { id: 'oneplanetbooks', label: 'OnePlanetBooks' },
-  { id: 'thrift.books', label: 'ThriftBooks' },
-  { id: 'second.sale', label: 'SecondSale' },
-  { id: 'betterworldbooks', label: 'BWB' },
-];
+interface BookCounts {
+  total: number;
+  buy: number;
+  review: number;
+  reject: number;
+  bought: number;
+  today: number;
+  todayByBuyer: { userId: string | null; email: string | null; count: number }[];
+  sellerBuyCounts: Record<string, number>;
+}
+
+interface KeepaTokens {
+  known: boolean;
+  tokensLeft?: number;
+  refillRate?: number;
+  jobsPaused?: boolean;
+}
+
+// e.g. "5x+ ROI & $30+ Amazon" for the default Hasan filter
+function describeHasanRule(rule: FilterRule): string {
+  return rule.when.map(c => {
+    const value = Number(c.value);
+    const bound = c.op.startsWith('gt') ? '+' : c.op.startsWith('lt') ? ' max' : '';
+    if (c.field === 'multiplier') return `${value}x${bound} ROI`;
+    if (c.field === 'amazonPrice') return `$${value / 100}${bound} Amazon`;
+    return `${c.field} ${c.op} ${c.value}`;
+  }).join(' & ');
+}
 
 export default function Home() {
-  const [allBooks, setAllBooks] = useState<Book[]>([]);
+  const { userId, email, signOut } = useAuth();
+  const [books, setBooks] = useState<Book[]>([]);
+  const [offers, setOffers] = useState<Record<string, BookOffer[]>>({});
   const [loading, setLoading] = useState(true);
-  const [activeSeller, setActiveSeller] = useState<Seller>('booksrun');
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [matching, setMatching] = useState<number | null>(null);
+  const [counts, setCounts] = useState<BookCounts | null>(null);
+  const [sellers, setSellers] = useState<Seller[] | null>(null);
+  const [activeSeller, setActiveSeller] = useState('');
 
   // Filters
   const [searchQuery, setSearchQuery] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
   const [decisionFilter, setDecisionFilter] = useState<DecisionFilter>('BUY');
   const [priceFilters, setPriceFilters] = useState<PriceFilter[]>(['all']);
   const [formatFilter, setFormatFilter] = useState<FormatFilter>('all');
@@ -69,162 +111,204 @@ export default function Home() {
   const [minProfit, setMinProfit] = useState('');
   const [minRoi, setMinRoi] = useState('');
   const [hasanFilter, setHasanFilter] = useState(true);
+  const [myBuys, setMyBuys] = useState(false);
+  const [hasanRule, setHasanRule] = useState<FilterRule | undefined>(DEFAULT_RULES.filters.find(f => f.id === 'hasan'));
+  const [sort, setSort] = useState<SortOption>('scraped_at');
 
-  // Store all books per seller for counts
-  const [allBooksrun, setAllBooksrun] = useState<Book[]>([]);
-  const [allOneplanet, setAllOneplanet] = useState<Book[]>([]);
-  const [allThriftbooks, setAllThriftbooks] = useState<Book[]>([]);
-  const [allSecondsale, setAllSecondsale] = useState<Book[]>([]);
-  const [allBwb, setAllBwb] = useState<Book[]>([]);
+  const [keepaTokens, setKeepaTokens] = useState<KeepaTokens | null>(null);
+  const [purchaseBook, setPurchaseBook] = useState<Book | null>(null);
+  const [exporting, setExporting] = useState<'csv' | 'xlsx' | null>(null);
 
-  // ── Fetch ALL books for a seller with pagination (1000 per page) ──
-  const fetchAllBooksForSeller = useCallback(async (seller: string): Promise<Book[]> => {
-    const PAGE_SIZE = 1000;
-    const allResults: Book[] = [];
-    let offset = 0;
+  // Ignore responses for filters that have since changed
+  const requestId = useRef(0);
+  const sentinel = useRef<HTMLDivElement | null>(null);
 
-    try {
-      while (true) {
-        const url = `${SUPABASE_URL}/rest/v1/${TABLE}?select=*&order=scraped_at.desc&seller=eq.${seller}`;
-        const response = await fetch(url, {
-          headers: { ...HEADERS, 'Range': `${offset}-${offset + PAGE_SIZE - 1}` }
-        });
-        if (!response.ok) break;
-        const page: Book[] = await response.json();
-        allResults.push(...page);
-        if (page.length < PAGE_SIZE) break; // last page
-        offset += PAGE_SIZE;
+  // ── Debounce search so typing doesn't fire a request per keystroke ──
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  // ── Query string for GET /api/books from the current filters ──
+  const queryString = useMemo(() => {
+    const params = new URLSearchParams({ sort, order: 'desc', limit: String(PAGE_SIZE) });
+    if (activeSeller) params.set('seller', activeSeller);
+    if (decisionFilter !== 'all') params.set('decision', decisionFilter);
+    if (debouncedSearch) params.set('q', debouncedSearch);
+    if (!priceFilters.includes('all')) params.set('price', priceFilters.join(','));
+    if (formatFilter !== 'all') params.set('format', formatFilter);
+    if (weightFilter !== 'all') params.set('weight', weightFilter);
+
+    const profit = parseFloat(minProfit);
+    if (!isNaN(profit)) params.set('minProfit', String(Math.round(profit * 100)));
+
+    // ROI range (e.g. 7 means 7.0x-7.9x)
+    const multiplier = parseFloat(minRoi.replace(/x$/i, ''));
+    if (!isNaN(multiplier)) params.set('multiplier', String(multiplier));
+
+    if (hasanFilter && hasanRule) params.set('hasan', 'true');
+    if (myBuys) params.set('mine', 'true');
+    return params.toString();
+  }, [activeSeller, sort, decisionFilter, debouncedSearch, priceFilters, formatFilter, weightFilter, minProfit, minRoi, hasanFilter, hasanRule, myBuys]);
+
+  // ── Seller tabs come from the sellers table; the first one starts selected ──
+  useEffect(() => {
+    async function loadSellers() {
+      try {
+        const response = await apiFetch('/api/sellers');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load sellers');
+        setSellers(data.sellers);
+        setActiveSeller(prev => prev || data.sellers[0]?.id || '');
+      } catch (error) {
+        console.error('Error fetching sellers:', error);
+        setSellers([]);
       }
-      return allResults;
-    } catch (error) {
-      console.error(`Error fetching ${seller}:`, error);
-      return allResults; // return whatever we got so far
     }
+    loadSellers();
   }, []);
 
-  // ── Load both sellers on mount ──
+  // ── First page (and header counts) whenever the filters change ──
   useEffect(() => {
-    async function loadAll() {
-      setLoading(true);
-      const [br, op, tb, ss, bwb] = await Promise.all([
-        fetchAllBooksForSeller('booksrun'),
-        fetchAllBooksForSeller('oneplanetbooks'),
-        fetchAllBooksForSeller('thrift.books'),
-        fetchAllBooksForSeller('second.sale'),
-        fetchAllBooksForSeller('betterworldbooks'),
-      ]);
-      setAllBooksrun(br);
-      setAllOneplanet(op);
-      setAllThriftbooks(tb);
-      setAllSecondsale(ss);
-      setAllBwb(bwb);
-      // Set active seller's books
-      setAllBooks(br); // default is booksrun
-      setLoading(false);
-    }
-    loadAll();
-  }, [fetchAllBooksForSeller]);
+    if (sellers === null) return;
+    const id = ++requestId.current;
 
-  // ── Switch seller: use cached data ──
-  useEffect(() => {
-    const map: Record<Seller, Book[]> = {
-      booksrun: allBooksrun,
-      oneplanetbooks: allOneplanet,
-      'thrift.books': allThriftbooks,
-      'second.sale': allSecondsale,
-      betterworldbooks: allBwb,
-    };
-    setAllBooks(map[activeSeller]);
-  }, [activeSeller, allBooksrun, allOneplanet, allThriftbooks, allSecondsale, allBwb]);
-
-  // ── Seller counts (BUY count for each) ──
-  const sellerCounts = useMemo(() => ({
-    booksrun: allBooksrun.filter(b => b.decision === 'BUY').length,
-    oneplanetbooks: allOneplanet.filter(b => b.decision === 'BUY').length,
-    'thrift.books': allThriftbooks.filter(b => b.decision === 'BUY').length,
-    'second.sale': allSecondsale.filter(b => b.decision === 'BUY').length,
-    betterworldbooks: allBwb.filter(b => b.decision === 'BUY').length,
-  }), [allBooksrun, allOneplanet, allThriftbooks, allSecondsale, allBwb]);
-
-  // ── Stats (computed from all books for active seller) ──
-  const stats = useMemo(() => {
-    const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
-    return {
-      total: allBooks.length,
-      buy: allBooks.filter(b => b.decision === 'BUY').length,
-      review: allBooks.filter(b => b.decision === 'REVIEW').length,
-      reject: allBooks.filter(b => b.decision === 'REJECT').length,
-      bought: allBooks.filter(b => b.decision === 'BOUGHT').length,
-      today: allBooks.filter(b => b.bought_at && b.bought_at >= twentyFourHoursAgo).length,
-    };
-  }, [allBooks]);
-
-  // ── Client-side filtering (decision + all other filters) ──
-  const filteredBooks = useMemo(() => {
-    return allBooks.filter(book => {
-      // Decision filter (was server-side, now client-side)
-      if (decisionFilter !== 'all' && book.decision !== decisionFilter) return false;
-
-      // Search
-      if (searchQuery.trim()) {
-        const q = searchQuery.toLowerCase().trim();
-        if (!book.title.toLowerCase().includes(q) && !book.isbn.includes(q)) return false;
+    async function loadFirstPage() {
+      setLoading(true);
+      try {
+        const response = await apiFetch(`/api/books?${queryString}`);
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load books');
+        if (id !== requestId.current) return;
+        setBooks(data.books);
+        setOffers(data.offers);
+        setNextCursor(data.nextCursor);
+        setMatching(data.matching);
+        setCounts(data.counts);
+      } catch (error) {
+        console.error('Error fetching books:', error);
+        if (id === requestId.current) {
+          setBooks([]);
+          setOffers({});
+          setNextCursor(null);
+        }
+      } finally {
+        if (id === requestId.current) setLoading(false);
       }
+    }
+    loadFirstPage();
+  }, [queryString, sellers]);
 
-      // Price filter (multi-select)
-      const buyPrice = book.price / 100;
-      if (!priceFilters.includes('all')) {
-        let matchesPrice = false;
-        if (priceFilters.includes('0-5') && buyPrice < 5) matchesPrice = true;
-        if (priceFilters.includes('5-10') && buyPrice >= 5 && buyPrice < 10) matchesPrice = true;
-        if (priceFilters.includes('10-20') && buyPrice >= 10 && buyPrice < 20) matchesPrice = true;
-        if (priceFilters.includes('20+') && buyPrice >= 20) matchesPrice = true;
-        if (!matchesPrice) return false;
-      }
+  // ── Download every book matching the filters (limit is ignored by the export) ──
+  const exportBooks = async (format: 'csv' | 'xlsx') => {
+    setExporting(format);
+    try {
+      await apiDownload(`/api/books/export?${queryString}&format=${format}`, `deals.${format}`);
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExporting(null);
+    }
+  };
 
-      // Format filter
-      if (formatFilter !== 'all') {
-        const bookFormat = book.book_type || '';
-        if (formatFilter === 'Paperback' && !bookFormat.toLowerCase().includes('paper') && !bookFormat.toLowerCase().includes('soft')) return false;
-        if (formatFilter === 'Hardcover' && !bookFormat.toLowerCase().includes('hard')) return false;
-      }
+  // ── Next page for infinite scroll ──
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const id = requestId.current;
+    setLoadingMore(true);
+    try {
+      const response = await apiFetch(`/api/books?${queryString}&cursor=${encodeURIComponent(nextCursor)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load books');
+      if (id !== requestId.current) return;
+      setBooks(prev => [...prev, ...data.books]);
+      setOffers(prev => ({ ...prev, ...data.offers }));
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error('Error fetching more books:', error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, queryString]);
 
-      // Weight filter (oz → lbs)
-      if (weightFilter !== 'all') {
-        const weightLbs = book.weight_oz ? book.weight_oz / 16 : 0;
-        if (weightFilter === '0-5' && !(weightLbs > 0 && weightLbs < 5)) return false;
-        if (weightFilter === '5-10' && !(weightLbs >= 5 && weightLbs < 10)) return false;
-        if (weightFilter === '10-20' && !(weightLbs >= 10 && weightLbs < 20)) return false;
-        if (weightFilter === '20+' && !(weightLbs >= 20)) return false;
+  // ── Load the next page when the sentinel below the grid scrolls into view ──
+  useEffect(() => {
+    const node = sentinel.current;
+    if (!node) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: '600px' });
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [loadMore]);
+
+  // ── Keepa token budget (refreshed every minute) ──
+  useEffect(() => {
+    async function loadTokens() {
+      try {
+        const response = await apiFetch('/api/keepa/tokens');
+        if (response.ok) setKeepaTokens(await response.json());
+      } catch (error) {
+        console.error('Error fetching Keepa tokens:', error);
       }
+    }
+    loadTokens();
+    const interval = setInterval(loadTokens, 60_000);
+    return () => clearInterval(interval);
+  }, []);
 
-      // Min profit
-      if (minProfit) {
-        const v = parseFloat(minProfit);
-        if (!isNaN(v) && (book.fbm_profit == null || book.fbm_profit / 100 < v)) return false;
+  // ── Hasan filter thresholds come from the active decision rule set ──
+  useEffect(() => {
+    async function loadRules() {
+      try {
+        const response = await apiFetch('/api/decision-rules');
+        if (!response.ok) return;
+        const data = await response.json();
+        setHasanRule((data.ruleSet.filters as FilterRule[]).find(f => f.id === 'hasan'));
+      } catch (error) {
+        console.error('Error fetching decision rules:', error);
       }
+    }
+    loadRules();
+  }, []);
 
-      // ROI range (e.g. 7 means 7.0x-7.9x)
-      if (minRoi) {
-        const val = parseFloat(minRoi.replace(/x$/i, ''));
-        if (!isNaN(val)) {
-          const roi = book.amazon_price && book.price > 0 ? book.amazon_price / book.price : 0;
-          if (roi < val || roi >= val + 1) return false;
-        }
+  // ── Header stats for the active seller ──
+  const stats = counts ?? { total: 0, buy: 0, review: 0, reject: 0, bought: 0, today: 0, todayByBuyer: [], sellerBuyCounts: {} };
+
+  // Keep header counts in step with an action without refetching
+  function applyActionToCounts(book: Book, action: 'BOUGHT' | 'REJECT') {
+    setCounts(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, sellerBuyCounts: { ...prev.sellerBuyCounts } };
+      if (book.decision === 'BUY') {
+        next.buy--;
+        next.sellerBuyCounts[book.seller] = (next.sellerBuyCounts[book.seller] ?? 1) - 1;
       }
-
-      // Hasan Filter: 5x+ ROI AND $30+ Amazon price
-      if (hasanFilter) {
-        const roi = book.amazon_price && book.price > 0 ? book.amazon_price / book.price : 0;
-        const amazonDollars = book.amazon_price ? book.amazon_price / 100 : 0;
-        if (roi < 5 || amazonDollars < 30) return false;
+      if (book.decision === 'REVIEW') next.review--;
+      if (book.decision === 'REJECT') next.reject--;
+      if (action === 'BOUGHT') {
+        next.bought++;
+        next.today++;
+        const mine = next.todayByBuyer.find(b => b.userId === userId);
+        next.todayByBuyer = mine
+          ? next.todayByBuyer.map(b => (b === mine ? { ...b, count: b.count + 1 } : b))
+          : [...next.todayByBuyer, { userId, email, count: 1 }];
+      } else {
+        next.reject++;
       }
-
-      return true;
+      return next;
     });
-  }, [allBooks, decisionFilter, searchQuery, priceFilters, formatFilter, weightFilter, minProfit, minRoi, hasanFilter]);
+    setMatching(prev => (prev !== null ? prev - 1 : prev));
+  }
+
+  // ── Bought: recorded through the purchase form, which also marks the book BOUGHT ──
+  function handlePurchaseSaved(book: Book) {
+    setPurchaseBook(null);
+    applyActionToCounts(book, 'BOUGHT');
+    setBooks(prev => prev.filter(b => b.id !== book.id));
+  }
 
-  // ── Action handler (direct PATCH to Supabase) ──
+  // ── Action handler (POST /api/books/action) ──
   async function handleAction(bookId: number, action: 'BOUGHT' | 'REJECT', buttonElement: HTMLButtonElement) {
     const card = buttonElement.closest('.book-card') as HTMLElement;
     if (!card) return;
@@ -234,36 +318,19 @@ export default function Home() {
     buttonElement.innerHTML = '<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2.5" style="animation: spin 1s linear infinite;"><path d="M12 2v4m0 12v4m10-10h-4M6 12H2m15.07-5.07l-2.83 2.83M8.76 15.24l-2.83 2.83m11.31 0l-2.83-2.83M8.76 8.76L5.93 5.93"/></svg>';
 
     try {
-      const updateData: Record<string, string> = { decision: action };
-      if (action === 'BOUGHT') {
-        updateData.bought_at = new Date().toISOString();
-      }
-
-      const response = await fetch(`${SUPABASE_URL}/rest/v1/${TABLE}?id=eq.${bookId}`, {
-        method: 'PATCH',
-        headers: {
-          ...HEADERS,
-          'Content-Type': 'application/json',
-          'Prefer': 'return=minimal'
-        },
-        body: JSON.stringify(updateData)
+      const response = await apiFetch('/api/books/action', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: bookId, action }),
       });
 
       if (!response.ok) throw new Error('Failed to update');
 
       card.classList.add('removing');
 
-      // Remove from both the active list and the cached seller list
-      const removeBook = (books: Book[]) => books.filter(b => b.id !== bookId);
-      setAllBooks(removeBook);
-      const setterMap: Record<Seller, typeof setAllBooksrun> = {
-        booksrun: setAllBooksrun,
-        oneplanetbooks: setAllOneplanet,
-        'thrift.books': setAllThriftbooks,
-        'second.sale': setAllSecondsale,
-        betterworldbooks: setAllBwb,
-      };
-      setterMap[activeSeller](removeBook);
+      const book = books.find(b => b.id === bookId);
+      if (book) applyActionToCounts(book, action);
+      setBooks(prev => prev.filter(b => b.id !== bookId));
     } catch (error) {
       console.error('Error updating book:', error);
       buttons.forEach(btn => btn.disabled = false);
@@ -292,25 +359,72 @@ export default function Home() {
     return scrapedAt > twentyFourHoursAgo;
   };
 
+  // "just now", "25m ago", "3h ago", "2d ago"
+  const timeAgo = (iso: string) => {
+    const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60_000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes}m ago`;
+    const hours = Math.floor(minutes / 60);
+    return hours < 48 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`;
+  };
+
+  const sellerById = new Map((sellers ?? []).map(s => [s.id, s]));
+
+  // One card per ISBN: the first listing in sort order; the card lists every seller's offer
+  const bookGroups = useMemo(() => {
+    const seen = new Set<string>();
+    return books.filter(book => {
+      if (seen.has(book.isbn)) return false;
+      seen.add(book.isbn);
+      return true;
+    });
+  }, [books]);
+  const activeSellerLabel = sellerById.get(activeSeller)?.label ?? (activeSeller || 'All');
+
   return (
     <>
       {/* Header */}
       <div className="header">
-        <h1>{SELLERS.find(s => s.id === activeSeller)?.label ?? activeSeller} Deals</h1>
-        <p>Books from {SELLERS.find(s => s.id === activeSeller)?.label ?? activeSeller} on eBay</p>
+        <h1>{activeSellerLabel} Deals</h1>
+        <p>
+          Books from {activeSellerLabel} on eBay
+          {' · '}<Link href="/scan" style={{ color: 'white', textDecoration: 'underline' }}>Scan</Link>
+          {' · '}<Link href="/lookup" style={{ color: 'white', textDecoration: 'underline' }}>Bulk lookup</Link>
+          {' · '}<Link href="/purchases" style={{ color: 'white', textDecoration: 'underline' }}>Purchases</Link>
+          {' · '}<Link href="/inventory" style={{ color: 'white', textDecoration: 'underline' }}>Inventory</Link>
+          {' · '}<Link href="/reports" style={{ color: 'white', textDecoration: 'underline' }}>Profit report</Link>
+          {' · '}<Link href="/settings/rules" style={{ color: 'white', textDecoration: 'underline' }}>Decision rules</Link>
+          {' · '}<Link href="/settings/sellers" style={{ color: 'white', textDecoration: 'underline' }}>Sellers</Link>
+          {email && (
+            <>
+              {' · '}{email}{' '}
+              <button onClick={signOut} style={{ color: 'white', textDecoration: 'underline' }}>Sign out</button>
+            </>
+          )}
+        </p>
 
         <div className="source-toggle-container">
           <div className="source-toggle">
-            {SELLERS.map(s => (
+            {(sellers ?? []).map(s => (
               <button
                 key={s.id}
                 className={`source-btn ${activeSeller === s.id ? 'active' : ''}`}
+                style={activeSeller === s.id && s.color ? { color: s.color } : undefined}
                 onClick={() => setActiveSeller(s.id)}
               >
                 {s.label}
-                <span className="count">{sellerCounts[s.id] ?? '-'}</span>
+                <span className="count">{counts ? stats.sellerBuyCounts[s.id] ?? 0 : '-'}</span>
               </button>
             ))}
+            {sellers && sellers.length > 1 && (
+              <button
+                className={`source-btn ${activeSeller === '' ? 'active' : ''}`}
+                onClick={() => setActiveSeller('')}
+              >
+                All sellers
+                <span className="count">{counts ? Object.values(stats.sellerBuyCounts).reduce((sum, n) => sum + n, 0) : '-'}</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -338,7 +452,20 @@ export default function Home() {
           <div className="stat">
             <div className="stat-value" style={{ color: '#00b894' }}>{stats.today}</div>
             <div className="stat-label">TODAY</div>
+            {stats.todayByBuyer.length > 0 && (
+              <div className="stat-label" style={{ textTransform: 'none' }}>
+                {stats.todayByBuyer.map(b => `${b.email?.split('@')[0] ?? 'unassigned'} ${b.count}`).join(' · ')}
+              </div>
+            )}
           </div>
+          {keepaTokens?.known && (
+            <div className="stat" title={`Refills ${keepaTokens.refillRate}/min${keepaTokens.jobsPaused ? ' · evaluation jobs paused' : ''}`}>
+              <div className="stat-value" style={{ color: keepaTokens.jobsPaused ? '#ff7675' : '#dfe6e9' }}>
+                {keepaTokens.tokensLeft?.toLocaleString()}
+              </div>
+              <div className="stat-label">KEEPA TOKENS</div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -356,15 +483,30 @@ export default function Home() {
             />
           </div>
 
+          {hasanRule && (
+            <div className="filter-section">
+              <div className="filter-title">{hasanRule.label}</div>
+              <div className="filter-options">
+                <div
+                  className={`filter-toggle ${hasanFilter ? 'active' : ''}`}
+                  onClick={() => setHasanFilter(!hasanFilter)}
+                >
+                  <span className="checkbox" />
+                  <span className="label">{describeHasanRule(hasanRule)}</span>
+                </div>
+              </div>
+            </div>
+          )}
+
           <div className="filter-section">
-            <div className="filter-title">Hasan Filter</div>
+            <div className="filter-title">Buyer</div>
             <div className="filter-options">
               <div
-                className={`filter-toggle ${hasanFilter ? 'active' : ''}`}
-                onClick={() => setHasanFilter(!hasanFilter)}
+                className={`filter-toggle ${myBuys ? 'active' : ''}`}
+                onClick={() => setMyBuys(!myBuys)}
               >
                 <span className="checkbox" />
-                <span className="label">5x+ ROI &amp; $30+ Amazon</span>
+                <span className="label">My buys only</span>
               </div>
             </div>
           </div>
@@ -372,7 +514,7 @@ export default function Home() {
           <div className="filter-section">
             <div className="filter-title">Decision</div>
             <div className="filter-options">
-              {(['all', 'BUY', 'REVIEW', 'REJECT'] as DecisionFilter[]).map(d => (
+              {(['all', 'BUY', 'REVIEW', 'REJECT', 'ENDED'] as DecisionFilter[]).map(d => (
                 <div
                   key={d}
                   className={`filter-toggle ${decisionFilter === d ? 'active' : ''}`}
@@ -385,6 +527,22 @@ export default function Home() {
             </div>
           </div>
 
+          <div className="filter-section">
+            <div className="filter-title">Sort By</div>
+            <div className="filter-options">
+              {SORT_OPTIONS.map(option => (
+                <div
+                  key={option.id}
+                  className={`filter-toggle ${sort === option.id ? 'active' : ''}`}
+                  onClick={() => setSort(option.id)}
+                >
+                  <span className="checkbox" />
+                  <span className="label">{option.label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
           <div className="filter-section">
             <div className="filter-title">Buy Price</div>
             <div className="filter-options">
@@ -470,12 +628,29 @@ export default function Home() {
               onChange={e => setMinRoi(e.target.value)}
             />
           </div>
+
+          <div className="filter-section">
+            <div className="filter-title">Export</div>
+            <div className="flex gap-2">
+              {(['csv', 'xlsx'] as const).map(format => (
+                <button
+                  key={format}
+                  className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+                  disabled={exporting !== null}
+                  onClick={() => exportBooks(format)}
+                >
+                  {exporting === format ? 'Exporting…' : format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
         </div>
 
         {/* Content */}
         <div className="content">
           <div className="results-count">
-            {loading ? '' : `Showing ${filteredBooks.length} book${filteredBooks.length !== 1 ? 's' : ''}`}
+            {/* matching counts listing rows; several sellers' listings of an ISBN show as one card */}
+            {loading ? '' : `Showing ${books.length}${matching !== null && matching > books.length ? ` of ${matching}` : ''} listing${(matching ?? books.length) !== 1 ? 's' : ''}${bookGroups.length !== books.length ? ` (${bookGroups.length} book${bookGroups.length !== 1 ? 's' : ''})` : ''}`}
           </div>
 
           {loading ? (
@@ -483,13 +658,13 @@ export default function Home() {
               <div className="loading-spinner" />
               <p>Loading books...</p>
             </div>
-          ) : filteredBooks.length === 0 ? (
+          ) : bookGroups.length === 0 ? (
             <div className="no-results">
               <p>No books found matching your criteria.</p>
             </div>
           ) : (
             <div className="books-grid">
-              {filteredBooks.map(book => {
+              {bookGroups.map(book => {
                 const buyPrice = book.price / 100;
                 const amazonPrice = book.amazon_price ? book.amazon_price / 100 : null;
                 const salesRank = book.sales_rank;
@@ -497,6 +672,8 @@ export default function Home() {
                 const soldPerMonth = book.sales_rank_drops_90 != null ? Math.round(book.sales_rank_drops_90 / 3) : null;
                 const weightLbs = book.weight_oz ? (book.weight_oz / 16).toFixed(1) : null;
                 const bookIsNew = isNewBook(book);
+                const priceDropped = book.previous_price !== null && book.price < book.previous_price;
+                const bookOffers = offers[book.isbn] ?? [];
 
                 return (
                   <div key={book.id} className="book-card">
@@ -520,6 +697,14 @@ export default function Home() {
 
                       <div className="book-meta">
                         {bookIsNew && <span className="badge badge-new">NEW</span>}
+                        {bookOffers.length > 1 && bookOffers[0].id === book.id && (
+                          <span className="badge badge-cheapest">CHEAPEST</span>
+                        )}
+                        {priceDropped && (
+                          <span className="badge badge-price-drop" title={`Was $${(book.previous_price! / 100).toFixed(2)}`}>
+                            PRICE DROPPED
+                          </span>
+                        )}
                         <span className="badge badge-format">{book.book_type || 'Unknown'}</span>
                         <span className="badge badge-condition">{book.condition || 'Used'}</span>
                         <span className="badge badge-seller">{book.seller}</span>
@@ -528,7 +713,10 @@ export default function Home() {
                       <div className="price-card">
                         <div className="price-row">
                           <span className="price-label">Buy Price</span>
-                          <span className="price-value buy">${buyPrice.toFixed(2)}</span>
+                          <span className="price-value buy">
+                            {priceDropped && <s className="price-was">${(book.previous_price! / 100).toFixed(2)}</s>}
+                            ${buyPrice.toFixed(2)}
+                          </span>
                         </div>
                         {roi !== null && (
                           <div className="price-row">
@@ -565,7 +753,23 @@ export default function Home() {
                         )}
                       </div>
 
-                      <div className="book-isbn">ISBN: {book.isbn}</div>
+                      {book.decision_explanation && (
+                        <div style={{ marginBottom: '0.75rem' }}>
+                          <DecisionExplanationPanel explanation={book.decision_explanation} />
+                        </div>
+                      )}
+
+                      <div className="book-isbn">
+                        ISBN: {book.isbn}
+                        {book.decision === 'BOUGHT' && (
+                          <> · <Link href={`/purchases?bookId=${book.id}`} className="hover:underline">Purchases</Link></>
+                        )}
+                        <div title="Last time the listing was checked on eBay">
+                          {book.ended_at
+                            ? `Ended ${timeAgo(book.ended_at)}`
+                            : book.verified_at ? `Verified ${timeAgo(book.verified_at)}` : 'Not verified yet'}
+                        </div>
+                      </div>
 
                       <div className="platform-buttons">
                         {book.asin ? (
@@ -580,12 +784,33 @@ export default function Home() {
                           </span>
                         )}
                         <a href={book.ebay_url} target="_blank" rel="noopener noreferrer"
-                          className={`platform-btn ${book.seller === 'booksrun' ? 'ebay' : book.seller === 'thrift.books' ? 'thriftbooks' : book.seller === 'betterworldbooks' ? 'ebay' : 'oneplanet'}`}>
-                          <span className="platform-name">{{booksrun: 'BR eBay', 'thrift.books': 'ThriftBooks', oneplanetbooks: 'OnePlanet', 'second.sale': 'SecondSale', betterworldbooks: 'BWB'}[book.seller] || book.seller}</span>
+                          className="platform-btn ebay"
+                          style={sellerById.get(book.seller)?.color ? { background: sellerById.get(book.seller)!.color! } : undefined}>
+                          <span className="platform-name">{sellerById.get(book.seller)?.label ?? book.seller}</span>
                           <span className="platform-price">${buyPrice.toFixed(2)}</span>
                         </a>
                       </div>
 
+                      {bookOffers.length > 1 && (
+                        <div className="offers">
+                          <div className="offers-title">{bookOffers.length} sellers · landed cost</div>
+                          {bookOffers.map((offer, index) => (
+                            <a
+                              key={offer.id}
+                              href={offer.ebayUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className={`offer-row${index === 0 ? ' cheapest' : ''}${offer.id === book.id ? ' current' : ''}`}
+                              title={`$${(offer.price / 100).toFixed(2)} + $${(offer.shipping / 100).toFixed(2)} shipping, after seller adjustments`}
+                            >
+                              <span className="offer-seller">{sellerById.get(offer.seller)?.label ?? offer.seller}</span>
+                              <span className="offer-condition">{offer.condition}</span>
+                              <span className="offer-price">${(offer.landedCost / 100).toFixed(2)}</span>
+                            </a>
+                          ))}
+                        </div>
+                      )}
+
                       <div className="action-buttons">
                         <button
                           className="action-btn remove"
@@ -598,7 +823,7 @@ export default function Home() {
                         </button>
                         <button
                           className="action-btn bought"
-                          onClick={(e) => handleAction(book.id, 'BOUGHT', e.currentTarget)}
+                          onClick={() => setPurchaseBook(book)}
                           title="Bought"
                         >
                           <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5">
@@ -612,8 +837,31 @@ export default function Home() {
               })}
             </div>
           )}
+
+          {/* Infinite scroll: loads the next page as this comes into view */}
+          <div ref={sentinel} />
+          {loadingMore && (
+            <div className="loading">
+              <div className="loading-spinner" />
+            </div>
+          )}
         </div>
       </div>
+
+      {purchaseBook && (
+        <PurchaseFormModal
+          purchase={{
+            bookId: purchaseBook.id,
+            isbn: purchaseBook.isbn,
+            title: purchaseBook.title,
+            ebayItemId: purchaseBook.ebay_item_id,
+            unitPrice: purchaseBook.price,
+            shipping: purchaseBook.shipping,
+          }}
+          onSaved={() => handlePurchaseSaved(purchaseBook)}
+          onClose={() => setPurchaseBook(null)}
+        />
+      )}
     </>
   );
 }
@@ -0,0 +1,197 @@
+'use client';
+
+import { useState, useEffect, useCallback, Suspense } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import type { Purchase } from '@/services/purchases';
+import { PurchaseFormModal } from '@/components/PurchaseFormModal';
+import { apiFetch, apiDownload } from '@/services/supabaseClient';
+
+const formatCents = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// useSearchParams needs a Suspense boundary to prerender
+export default function PurchasesPage() {
+  return (
+    <Suspense>
+      <PurchaseLedger />
+    </Suspense>
+  );
+}
+
+function PurchaseLedger() {
+  // ?bookId= narrows the ledger to one listing's purchases
+  const bookId = useSearchParams().get('bookId');
+  const [purchases, setPurchases] = useState<Purchase[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mine, setMine] = useState(false);
+  const [editing, setEditing] = useState<Purchase | null>(null);
+  const [exportFrom, setExportFrom] = useState('');
+  const [exportTo, setExportTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (bookId) params.set('bookId', bookId);
+      if (mine) params.set('mine', 'true');
+      const response = await apiFetch(`/api/purchases?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load purchases');
+      setPurchases(data.purchases);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load purchases');
+    } finally {
+      setLoading(false);
+    }
+  }, [bookId, mine]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function handleSaved(saved: Purchase) {
+    setEditing(null);
+    setPurchases(prev => prev.map(p => (p.id === saved.id ? saved : p)));
+  }
+
+  // Bookkeeping export of every purchase in the date range (not just the ones shown)
+  async function exportPurchases(format: 'csv' | 'xlsx') {
+    setError(null);
+    setExporting(true);
+    try {
+      const params = new URLSearchParams({ format });
+      if (exportFrom) params.set('from', exportFrom);
+      if (exportTo) params.set('to', exportTo);
+      if (mine) params.set('mine', 'true');
+      await apiDownload(`/api/purchases/export?${params}`, `purchases.${format}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setExporting(false);
+    }
+  }
+
+  const totalSpent = purchases.reduce((sum, p) => sum + p.totalCost, 0);
+  const totalCopies = purchases.reduce((sum, p) => sum + p.quantity, 0);
+
+  return (
+    <>
+      <div className="header">
+        <h1>Purchases</h1>
+        <p>What was actually paid for each book bought</p>
+        <div className="stats">
+          <div className="stat">
+            <div className="stat-value">{purchases.length}</div>
+            <div className="stat-label">Orders</div>
+          </div>
+          <div className="stat">
+            <div className="stat-value">{totalCopies}</div>
+            <div className="stat-label">Copies</div>
+          </div>
+          <div className="stat">
+            <div className="stat-value" style={{ color: '#00b894' }}>{formatCents(totalSpent)}</div>
+            <div className="stat-label">Spent</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <Link href="/" className="text-sm text-indigo-600 hover:underline">← Back to deals</Link>
+          <div className="flex items-center gap-4">
+            {bookId && <Link href="/purchases" className="text-sm text-indigo-600 hover:underline">Show all listings</Link>}
+            <div className={`filter-toggle ${mine ? 'active' : ''}`} onClick={() => setMine(!mine)}>
+              <span className="checkbox" />
+              <span className="label">My purchases only</span>
+            </div>
+          </div>
+        </div>
+
+        <div className="filter-section flex flex-wrap items-center gap-3 mb-6">
+          <div className="filter-title w-full">Export for bookkeeping</div>
+          <label className="text-sm text-gray-600">
+            From <input type="date" className="border border-gray-200 rounded-lg px-3 py-2 text-sm" value={exportFrom} onChange={e => setExportFrom(e.target.value)} />
+          </label>
+          <label className="text-sm text-gray-600">
+            To <input type="date" className="border border-gray-200 rounded-lg px-3 py-2 text-sm" value={exportTo} onChange={e => setExportTo(e.target.value)} />
+          </label>
+          {(['csv', 'xlsx'] as const).map(format => (
+            <button
+              key={format}
+              className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+              disabled={exporting}
+              onClick={() => exportPurchases(format)}
+            >
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+
+        {error && <div className="text-sm text-red-600 mb-4">{error}</div>}
+
+        {loading ? (
+          <div className="loading">
+            <div className="loading-spinner" />
+            <p>Loading purchases...</p>
+          </div>
+        ) : purchases.length === 0 ? (
+          <div className="no-results">
+            <p>No purchases recorded yet.</p>
+          </div>
+        ) : (
+          <div className="filter-section overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b border-gray-200">
+                  <th className="py-2 pr-3">Date</th>
+                  <th className="py-2 pr-3">Title</th>
+                  <th className="py-2 pr-3">Order #</th>
+                  <th className="py-2 pr-3 text-right">Qty</th>
+                  <th className="py-2 pr-3 text-right">Each</th>
+                  <th className="py-2 pr-3 text-right">Ship</th>
+                  <th className="py-2 pr-3 text-right">Tax</th>
+                  <th className="py-2 pr-3 text-right">Discount</th>
+                  <th className="py-2 pr-3 text-right">Total</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {purchases.map(p => (
+                  <tr key={p.id} className="border-b border-gray-100">
+                    <td className="py-2 pr-3 whitespace-nowrap">{new Date(p.purchasedAt).toLocaleDateString()}</td>
+                    <td className="py-2 pr-3">
+                      <div className="line-clamp-1 text-gray-900">{p.title}</div>
+                      <div className="text-xs text-gray-400 font-mono">
+                        {p.isbn}
+                        {p.ebayItemId && (
+                          <> · <a href={`https://www.ebay.com/itm/${p.ebayItemId}`} target="_blank" rel="noopener noreferrer" className="hover:underline">{p.ebayItemId}</a></>
+                        )}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-3 font-mono">{p.ebayOrderNumber ?? '—'}</td>
+                    <td className="py-2 pr-3 text-right">{p.quantity}</td>
+                    <td className="py-2 pr-3 text-right">{formatCents(p.unitPrice)}</td>
+                    <td className="py-2 pr-3 text-right">{formatCents(p.shipping)}</td>
+                    <td className="py-2 pr-3 text-right">{formatCents(p.tax)}</td>
+                    <td className="py-2 pr-3 text-right">{p.discount ? `-${formatCents(p.discount)}` : '—'}</td>
+                    <td className="py-2 pr-3 text-right font-semibold">{formatCents(p.totalCost)}</td>
+                    <td className="py-2 text-right">
+                      <button className="text-indigo-600 hover:underline" onClick={() => setEditing(p)}>Edit</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <PurchaseFormModal purchase={editing} onSaved={handleSaved} onClose={() => setEditing(null)} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,184 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { ProfitReport, ProfitSummary } from '@/services/profitReport';
+import { apiFetch } from '@/services/supabaseClient';
+
+const formatCents = (cents: number | null) =>
+  cents === null ? '—' : `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+const profitClass = (cents: number) => (cents >= 0 ? 'text-emerald-600' : 'text-red-600');
+
+function SummaryTable({ title, keyLabel, rows }: { title: string; keyLabel: string; rows: ProfitSummary[] }) {
+  return (
+    <div className="filter-section overflow-x-auto">
+      <div className="filter-title">{title}</div>
+      {rows.length === 0 ? (
+        <div className="text-sm text-gray-400">Nothing sold yet</div>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b border-gray-200">
+              <th className="py-2 pr-3">{keyLabel}</th>
+              <th className="py-2 pr-3 text-right">Sold</th>
+              <th className="py-2 pr-3 text-right">Written off</th>
+              <th className="py-2 pr-3 text-right" title="Over books that had a prediction">Predicted</th>
+              <th className="py-2 pr-3 text-right" title="Realized profit of the same books">Realized</th>
+              <th className="py-2 pr-3 text-right">Predicted ROI</th>
+              <th className="py-2 pr-3 text-right">Realized ROI</th>
+              <th className="py-2 text-right">Days to sell</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.key} className="border-b border-gray-100">
+                <td className="py-2 pr-3 font-semibold text-gray-800">{row.key}</td>
+                <td className="py-2 pr-3 text-right">{row.sold}</td>
+                <td className="py-2 pr-3 text-right">{row.writtenOff}</td>
+                <td className="py-2 pr-3 text-right">{formatCents(row.predictedProfit)}</td>
+                <td className={`py-2 pr-3 text-right ${profitClass(row.realizedProfitPredicted - row.predictedProfit)}`}>
+                  {formatCents(row.realizedProfitPredicted)}
+                </td>
+                <td className="py-2 pr-3 text-right">{formatPercent(row.avgPredictedRoi)}</td>
+                <td className="py-2 pr-3 text-right">{formatPercent(row.avgRealizedRoi)}</td>
+                <td className="py-2 text-right">{row.avgDaysToSell ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+export default function ReportsPage() {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [report, setReport] = useState<ProfitReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const response = await apiFetch(`/api/reports/profit?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load report');
+      setReport(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load report');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const totals = report?.totals;
+
+  return (
+    <>
+      <div className="header">
+        <h1>Profit Report</h1>
+        <p>Predicted at evaluation vs realized on sale</p>
+        {totals && (
+          <div className="stats">
+            <div className="stat">
+              <div className="stat-value">{totals.sold}</div>
+              <div className="stat-label">SOLD</div>
+            </div>
+            <div className="stat">
+              <div className="stat-value" style={{ color: '#ff7675' }}>{totals.writtenOff}</div>
+              <div className="stat-label">WRITTEN OFF</div>
+            </div>
+            <div className="stat">
+              <div className="stat-value">{formatCents(totals.predictedProfit)}</div>
+              <div className="stat-label">PREDICTED</div>
+            </div>
+            <div className="stat">
+              <div className="stat-value" style={{ color: totals.realizedProfit >= 0 ? '#00b894' : '#ff7675' }}>
+                {formatCents(totals.realizedProfit)}
+              </div>
+              <div className="stat-label">REALIZED</div>
+            </div>
+            <div className="stat">
+              <div className="stat-value">{totals.avgDaysToSell ?? '—'}</div>
+              <div className="stat-label">AVG DAYS TO SELL</div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6 flex flex-col gap-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Link href="/" className="text-sm text-indigo-600 hover:underline">← Back to deals</Link>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            Sold from
+            <input type="date" className="search-box" style={{ width: 160 }} value={from} onChange={e => setFrom(e.target.value)} />
+            to
+            <input type="date" className="search-box" style={{ width: 160 }} value={to} onChange={e => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        {loading && !report ? (
+          <div className="loading">
+            <div className="loading-spinner" />
+            <p>Building report...</p>
+          </div>
+        ) : report && (
+          <>
+            <SummaryTable title="By score bucket" keyLabel="Score" rows={report.byScoreBucket} />
+            <SummaryTable title="By seller" keyLabel="Seller" rows={report.bySeller} />
+            <SummaryTable title="By month sold" keyLabel="Month" rows={report.byMonth} />
+
+            <div className="filter-section overflow-x-auto">
+              <div className="filter-title">Books</div>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    <th className="py-2 pr-3">Title</th>
+                    <th className="py-2 pr-3">Seller</th>
+                    <th className="py-2 pr-3 text-right">Score</th>
+                    <th className="py-2 pr-3 text-right">Predicted</th>
+                    <th className="py-2 pr-3 text-right">Realized</th>
+                    <th className="py-2 pr-3 text-right">Pred. ROI</th>
+                    <th className="py-2 pr-3 text-right">Real. ROI</th>
+                    <th className="py-2 text-right">Days</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.books.map(book => (
+                    <tr key={book.itemId} className="border-b border-gray-100">
+                      <td className="py-2 pr-3">
+                        <div className="line-clamp-1 text-gray-900">{book.title}</div>
+                        <div className="text-xs text-gray-400 font-mono">
+                          {book.isbn}{book.channel && ` · ${book.channel}`}{book.outcome === 'written_off' && ' · written off'}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-3">{book.seller ?? '—'}</td>
+                      <td className="py-2 pr-3 text-right">{book.score ?? '—'}</td>
+                      <td className="py-2 pr-3 text-right">{formatCents(book.predictedProfit)}</td>
+                      <td className={`py-2 pr-3 text-right ${profitClass(book.realizedProfit)}`}>{formatCents(book.realizedProfit)}</td>
+                      <td className="py-2 pr-3 text-right">{formatPercent(book.predictedRoi)}</td>
+                      <td className="py-2 pr-3 text-right">{formatPercent(book.realizedRoi)}</td>
+                      <td className="py-2 text-right">{book.daysToSell ?? '—'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
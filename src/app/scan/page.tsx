@@ -0,0 +1,341 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import { Camera, CameraOff, Delete, Loader2 } from 'lucide-react';
+import { validateIsbn } from '@/services/isbn';
+import { apiFetch } from '@/services/supabaseClient';
+
+// Shape-detection API (Chrome on Android, Safari 17+); not in the DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorInstance;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | null {
+  if (typeof window === 'undefined') return null;
+  return (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector ?? null;
+}
+
+type Verdict = 'BUY' | 'REVIEW' | 'REJECT';
+
+interface ScanResult {
+  isbn: string;
+  title: string;
+  price: number;                    // sticker price in cents
+  verdict: Verdict;
+  reason: string;
+  fbaProfit: number | null;         // in cents
+  fbmProfit: number | null;
+  sellPrice: number | null;
+  salesRank: number | null;
+  scannedAt: string;
+}
+
+const VERDICT_COLORS: Record<Verdict, string> = {
+  BUY: '#00b894',
+  REVIEW: '#fdcb6e',
+  REJECT: '#e74c3c',
+};
+
+const HISTORY_KEY = 'scanflow.scanHistory';
+const SCAN_INTERVAL_MS = 250;
+
+const formatCents = (cents: number | null) =>
+  cents === null ? '—' : `${cents < 0 ? '-' : ''}$${(Math.abs(cents) / 100).toFixed(2)}`;
+
+// Book barcodes are EAN-13 in the Bookland 978/979 prefix
+const isBookEan = (code: string) => /^97[89]\d{10}$/.test(code) && validateIsbn(code).valid;
+
+export default function ScanPage() {
+  const [isbn, setIsbn] = useState('');
+  const [price, setPrice] = useState('');
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [looking, setLooking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ScanResult | null>(null);
+  const [history, setHistory] = useState<ScanResult[]>([]);
+  const [supported, setSupported] = useState(false);   // camera + BarcodeDetector
+
+  const video = useRef<HTMLVideoElement | null>(null);
+  const stream = useRef<MediaStream | null>(null);
+  const priceInput = useRef<HTMLInputElement | null>(null);
+
+  // ── Session history survives reloads but not closing the tab ──
+  useEffect(() => {
+    setSupported(getBarcodeDetector() !== null && !!navigator.mediaDevices);
+    try {
+      setHistory(JSON.parse(sessionStorage.getItem(HISTORY_KEY) || '[]'));
+    } catch {
+      setHistory([]);
+    }
+  }, []);
+
+  const stopCamera = useCallback(() => {
+    stream.current?.getTracks().forEach(track => track.stop());
+    stream.current = null;
+    setCameraOn(false);
+  }, []);
+
+  // ── Camera: poll the video for an EAN-13 until a book barcode shows up ──
+  useEffect(() => {
+    if (!cameraOn) return;
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const detector = new Detector({ formats: ['ean_13'] });
+
+    async function start() {
+      try {
+        const media = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false });
+        if (cancelled) {
+          media.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream.current = media;
+        if (video.current) {
+          video.current.srcObject = media;
+          await video.current.play();
+        }
+        poll();
+      } catch (err) {
+        setCameraError(err instanceof Error ? err.message : 'Camera unavailable');
+        stopCamera();
+      }
+    }
+
+    async function poll() {
+      if (cancelled || !video.current) return;
+      try {
+        const codes = await detector.detect(video.current);
+        const book = codes.find(code => isBookEan(code.rawValue));
+        if (book) {
+          setIsbn(book.rawValue);
+          stopCamera();
+          priceInput.current?.focus();
+          return;
+        }
+      } catch {
+        // Frame not ready yet; try the next one
+      }
+      timer = setTimeout(poll, SCAN_INTERVAL_MS);
+    }
+
+    setCameraError(null);
+    start();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream.current?.getTracks().forEach(track => track.stop());
+      stream.current = null;
+    };
+  }, [cameraOn, stopCamera]);
+
+  function pressKey(key: string) {
+    setError(null);
+    if (key === 'back') setIsbn(prev => prev.slice(0, -1));
+    else if (key === 'clear') setIsbn('');
+    else setIsbn(prev => (prev.length < 13 ? prev + key : prev));
+  }
+
+  async function lookUp(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+
+    const validation = validateIsbn(isbn);
+    if (!validation.valid) {
+      setError(validation.error ?? 'Invalid ISBN');
+      return;
+    }
+    const cents = Math.round(parseFloat(price) * 100);
+    if (!(cents > 0)) {
+      setError('Enter the sticker price');
+      return;
+    }
+
+    setLooking(true);
+    try {
+      const response = await apiFetch('/api/keepa/product', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ isbn, ebayPrice: cents }),
+      });
+      const data = await response.json();
+
+      let scan: ScanResult;
+      if (response.status === 404) {
+        scan = {
+          isbn,
+          title: 'Not found on Amazon',
+          price: cents,
+          verdict: 'REJECT',
+          reason: 'Not found on Amazon',
+          fbaProfit: null,
+          fbmProfit: null,
+          sellPrice: null,
+          salesRank: null,
+          scannedAt: new Date().toISOString(),
+        };
+      } else if (!response.ok) {
+        throw new Error(data.error || 'Lookup failed');
+      } else {
+        const analysis = data.analysis;
+        scan = {
+          isbn,
+          title: data.product.title,
+          price: cents,
+          verdict: analysis?.decision ?? 'REJECT',
+          reason: analysis?.reason ?? 'No buy box price on Amazon',
+          fbaProfit: analysis?.fbaProfit ?? null,
+          fbmProfit: analysis?.fbmProfit ?? null,
+          sellPrice: analysis?.sellPrice ?? null,
+          salesRank: data.product.salesRank,
+          scannedAt: new Date().toISOString(),
+        };
+      }
+
+      setResult(scan);
+      setHistory(prev => {
+        const next = [scan, ...prev].slice(0, 100);
+        sessionStorage.setItem(HISTORY_KEY, JSON.stringify(next));
+        return next;
+      });
+      setIsbn('');
+      setPrice('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Lookup failed');
+    } finally {
+      setLooking(false);
+    }
+  }
+
+  function clearHistory() {
+    sessionStorage.removeItem(HISTORY_KEY);
+    setHistory([]);
+  }
+
+  return (
+    <div className="max-w-md mx-auto p-4 flex flex-col gap-4">
+      <div className="flex items-center justify-between">
+        <Link href="/" className="text-sm text-indigo-600 hover:underline">← Deals</Link>
+        <h1 className="text-lg font-bold text-gray-900">Scan</h1>
+        <span className="w-12" />
+      </div>
+
+      {result && (
+        <div className="rounded-xl p-5 text-white text-center" style={{ background: VERDICT_COLORS[result.verdict] }}>
+          <div className="text-5xl font-extrabold tracking-wide">{result.verdict}</div>
+          <div className="mt-2 text-2xl font-bold">{formatCents(result.fbaProfit)} FBA · {formatCents(result.fbmProfit)} FBM</div>
+          <div className="mt-2 text-sm opacity-90 line-clamp-2">{result.title}</div>
+          <div className="text-xs opacity-80">
+            Paid {formatCents(result.price)} · sells {formatCents(result.sellPrice)}
+            {result.salesRank !== null && ` · rank ${result.salesRank.toLocaleString()}`}
+          </div>
+          <div className="text-xs opacity-80 mt-1">{result.reason}</div>
+        </div>
+      )}
+
+      {supported && (
+        <div className="filter-section">
+          {cameraOn ? (
+            <>
+              <video ref={video} className="w-full rounded-lg bg-black" playsInline muted />
+              <button
+                className="mt-3 w-full inline-flex items-center justify-center gap-2 px-4 py-3 text-base font-semibold rounded-lg text-gray-600 hover:bg-gray-100"
+                onClick={stopCamera}
+              >
+                <CameraOff className="w-5 h-5" /> Stop camera
+              </button>
+            </>
+          ) : (
+            <button
+              className="w-full inline-flex items-center justify-center gap-2 px-4 py-3 text-base font-semibold rounded-lg bg-indigo-600 text-white"
+              onClick={() => setCameraOn(true)}
+            >
+              <Camera className="w-5 h-5" /> Scan barcode
+            </button>
+          )}
+          {cameraError && <div className="mt-2 text-sm text-red-600">{cameraError} — type the ISBN below</div>}
+        </div>
+      )}
+
+      <form onSubmit={lookUp} className="filter-section flex flex-col gap-3">
+        <div className="text-center font-mono text-2xl tracking-widest text-gray-900 min-h-[2rem]">
+          {isbn || <span className="text-gray-300">ISBN</span>}
+        </div>
+
+        {/* Keypad fallback when there's no camera or the barcode won't read */}
+        <div className="grid grid-cols-3 gap-2">
+          {['1', '2', '3', '4', '5', '6', '7', '8', '9', 'X', '0', 'back'].map(key => (
+            <button
+              key={key}
+              type="button"
+              className="py-3 text-xl font-semibold rounded-lg border border-gray-200 hover:bg-gray-100 inline-flex items-center justify-center"
+              onClick={() => pressKey(key)}
+              onContextMenu={key === 'back' ? e => { e.preventDefault(); pressKey('clear'); } : undefined}
+            >
+              {key === 'back' ? <Delete className="w-6 h-6" /> : key}
+            </button>
+          ))}
+        </div>
+
+        <label className="text-sm text-gray-600">
+          Sticker price ($)
+          <input
+            ref={priceInput}
+            className="w-full border border-gray-200 rounded-lg px-3 py-3 text-xl"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            value={price}
+            onChange={e => setPrice(e.target.value)}
+          />
+        </label>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+
+        <button
+          type="submit"
+          disabled={looking || !isbn || !price}
+          className="inline-flex items-center justify-center gap-2 px-4 py-3 text-lg font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+        >
+          {looking && <Loader2 className="w-5 h-5 animate-spin" />}
+          Check
+        </button>
+      </form>
+
+      {history.length > 0 && (
+        <div className="filter-section">
+          <div className="flex items-center justify-between">
+            <div className="filter-title">This session ({history.length})</div>
+            <button className="text-xs text-gray-500 hover:underline" onClick={clearHistory}>Clear</button>
+          </div>
+          <ul className="flex flex-col gap-2 text-sm">
+            {history.map(scan => (
+              <li key={scan.scannedAt} className="flex items-center gap-3 border-b border-gray-100 pb-2">
+                <span className="w-16 text-center text-xs font-bold text-white rounded py-1" style={{ background: VERDICT_COLORS[scan.verdict] }}>
+                  {scan.verdict}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <div className="line-clamp-1 text-gray-900">{scan.title}</div>
+                  <div className="text-xs text-gray-400 font-mono">{scan.isbn} · paid {formatCents(scan.price)}</div>
+                </div>
+                <span className={`font-semibold ${(scan.fbaProfit ?? 0) >= 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                  {formatCents(scan.fbaProfit)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import {
+  DEFAULT_TEAM_ID,
+  validateDecisionRules,
+  type DecisionRules,
+  type DecisionRuleSet,
+  type RuleCondition,
+} from '@/services/decisionRules';
+import { apiFetch } from '@/services/supabaseClient';
+
+const OPERATOR_SYMBOLS: Record<RuleCondition['op'], string> = {
+  lt: '<', lte: '≤', gt: '>', gte: '≥', eq: '=', neq: '≠',
+};
+
+function describeConditions(conditions: RuleCondition[]): string {
+  return conditions.map(c => `${c.field} ${OPERATOR_SYMBOLS[c.op]} ${c.value}`).join(' and ');
+}
+
+// The editable part of a rule set, in the shape POST /api/decision-rules expects
+function toRulesJson(rules: DecisionRules): string {
+  const { baseScore, knockouts, scoreRules, thresholds, filters } = rules;
+  return JSON.stringify({ baseScore, knockouts, scoreRules, thresholds, filters }, null, 2);
+}
+
+export default function DecisionRulesSettings() {
+  const [team, setTeam] = useState(DEFAULT_TEAM_ID);
+  const [teamInput, setTeamInput] = useState(DEFAULT_TEAM_ID);
+  const [active, setActive] = useState<DecisionRuleSet | null>(null);
+  const [versions, setVersions] = useState<DecisionRuleSet[]>([]);
+  const [defaults, setDefaults] = useState<DecisionRules | null>(null);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async (teamId: string) => {
+    setError(null);
+    try {
+      const response = await apiFetch(`/api/decision-rules?team=${encodeURIComponent(teamId)}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load rules');
+      setActive(data.ruleSet);
+      setVersions(data.versions);
+      setDefaults(data.defaults);
+      setDraft(toRulesJson(data.ruleSet));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rules');
+    }
+  }, []);
+
+  useEffect(() => {
+    load(team);
+  }, [load, team]);
+
+  async function save() {
+    setError(null);
+    setMessage(null);
+
+    let rules: DecisionRules;
+    try {
+      rules = JSON.parse(draft);
+    } catch {
+      setError('Rules are not valid JSON');
+      return;
+    }
+
+    const validationError = validateDecisionRules(rules);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await apiFetch('/api/decision-rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ team, rules }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save rules');
+      setMessage(`Saved as version ${data.ruleSet.version}. New evaluations use it immediately.`);
+      await load(team);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rules');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <>
+      <div className="header">
+        <h1>Decision Rules</h1>
+        <p>Knockouts, scoring and filters used to evaluate books</p>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6">
+        <div className="flex flex-wrap items-center justify-between gap-3 mb-6">
+          <Link href="/" className="text-sm text-indigo-600 hover:underline">← Back to deals</Link>
+          <label className="text-sm text-gray-600 flex items-center gap-2">
+            Team
+            <input
+              className="search-box"
+              style={{ width: 180 }}
+              value={teamInput}
+              onChange={e => setTeamInput(e.target.value)}
+              onBlur={() => setTeam(teamInput.trim() || DEFAULT_TEAM_ID)}
+              onKeyDown={e => e.key === 'Enter' && setTeam(teamInput.trim() || DEFAULT_TEAM_ID)}
+            />
+          </label>
+        </div>
+
+        {active && (
+          <div className="filter-section">
+            <div className="filter-title">
+              Active: {active.id === null ? 'built-in defaults' : `version ${active.version}`}
+              {' · '}BUY ≥ {active.thresholds.buy}, REVIEW ≥ {active.thresholds.review}, base score {active.baseScore}
+            </div>
+            <div className="grid md:grid-cols-3 gap-6 text-sm">
+              <div>
+                <div className="font-semibold text-gray-500 mb-2">Knockouts</div>
+                {active.knockouts.map(rule => (
+                  <div key={rule.id} className="mb-1">
+                    <span className="text-gray-800">{rule.label}</span>
+                    <div className="text-xs text-gray-400">{describeConditions(rule.when)}</div>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <div className="font-semibold text-gray-500 mb-2">Score rules</div>
+                {active.scoreRules.map(rule => (
+                  <div key={rule.id} className="mb-1 flex justify-between gap-2">
+                    <span className="text-gray-800">
+                      {rule.label}
+                      {rule.group && <span className="text-xs text-gray-400"> ({rule.group})</span>}
+                    </span>
+                    <span className={rule.points >= 0 ? 'text-emerald-600' : 'text-red-600'}>
+                      {rule.points >= 0 ? '+' : ''}{rule.points}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <div className="font-semibold text-gray-500 mb-2">Filters</div>
+                {active.filters.map(filter => (
+                  <div key={filter.id} className="mb-1">
+                    <span className="text-gray-800">{filter.label}</span>
+                    <div className="text-xs text-gray-400">{describeConditions(filter.when)}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="grid md:grid-cols-[1fr_240px] gap-4">
+          <div className="filter-section">
+            <div className="filter-title">Edit rules (JSON)</div>
+            <p className="text-xs text-gray-400 mb-3">
+              Conditions use fields profit, roi, salesRank, salesDrops30, fbaCount, isAmazon, amazonPrice, buyPrice and
+              multiplier; money is in cents. Within a score group only the first matching rule counts.
+            </p>
+            <textarea
+              className="w-full font-mono text-xs border border-gray-200 rounded-lg p-3"
+              rows={28}
+              spellCheck={false}
+              value={draft}
+              onChange={e => setDraft(e.target.value)}
+            />
+            {error && <div className="text-sm text-red-600 mt-2">{error}</div>}
+            {message && <div className="text-sm text-emerald-600 mt-2">{message}</div>}
+            <div className="flex gap-2 mt-3">
+              <button
+                className="px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+                onClick={save}
+                disabled={saving}
+              >
+                {saving ? 'Saving…' : 'Save as new version'}
+              </button>
+              {defaults && (
+                <button
+                  className="px-4 py-2 text-sm font-semibold rounded-lg text-gray-600 hover:bg-gray-100"
+                  onClick={() => setDraft(toRulesJson(defaults))}
+                >
+                  Load defaults
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="filter-section">
+            <div className="filter-title">Versions</div>
+            {versions.length === 0 && <div className="text-sm text-gray-400">No saved versions yet</div>}
+            <div className="filter-options">
+              {versions.map(version => (
+                <button
+                  key={version.id}
+                  className={`filter-toggle ${version.id === active?.id ? 'active' : ''}`}
+                  onClick={() => setDraft(toRulesJson(version))}
+                  title="Load into editor"
+                >
+                  <span className="label">
+                    v{version.version}
+                    {version.createdAt && (
+                      <span className="text-xs text-gray-400"> · {new Date(version.createdAt).toLocaleDateString()}</span>
+                    )}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import type { Seller, SellerInput } from '@/services/sellers';
+import { apiFetch } from '@/services/supabaseClient';
+
+// Form values as typed; money in dollars
+interface SellerDraft {
+  id: string;
+  label: string;
+  ebayUsername: string;
+  color: string;
+  active: boolean;
+  sortOrder: string;
+  shipping: string;
+  couponPercent: string;
+}
+
+const EMPTY_DRAFT: SellerDraft = {
+  id: '',
+  label: '',
+  ebayUsername: '',
+  color: '#667eea',
+  active: true,
+  sortOrder: '0',
+  shipping: '0.00',
+  couponPercent: '0',
+};
+
+function toDraft(seller: Seller): SellerDraft {
+  return {
+    id: seller.id,
+    label: seller.label,
+    ebayUsername: seller.ebayUsername,
+    color: seller.color ?? '',
+    active: seller.active,
+    sortOrder: String(seller.sortOrder),
+    shipping: (seller.shippingAdjustment / 100).toFixed(2),
+    couponPercent: String(seller.couponPercent),
+  };
+}
+
+function toInput(draft: SellerDraft): SellerInput {
+  return {
+    id: draft.id.trim(),
+    label: draft.label,
+    ebayUsername: draft.ebayUsername,
+    color: draft.color || null,
+    active: draft.active,
+    sortOrder: parseInt(draft.sortOrder) || 0,
+    shippingAdjustment: Math.round((parseFloat(draft.shipping) || 0) * 100),
+    couponPercent: parseFloat(draft.couponPercent) || 0,
+  };
+}
+
+export default function SellerSettings() {
+  const [sellers, setSellers] = useState<Seller[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, SellerDraft>>({});
+  const [newSeller, setNewSeller] = useState<SellerDraft>(EMPTY_DRAFT);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await apiFetch('/api/sellers?all=true');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to load sellers');
+      setSellers(data.sellers);
+      setDrafts(Object.fromEntries((data.sellers as Seller[]).map(s => [s.id, toDraft(s)])));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sellers');
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  function edit(id: string, changes: Partial<SellerDraft>) {
+    setDrafts(prev => ({ ...prev, [id]: { ...prev[id], ...changes } }));
+  }
+
+  async function save(id: string | null) {
+    setError(null);
+    setMessage(null);
+    setSaving(id ?? 'new');
+    try {
+      const draft = id ? drafts[id] : newSeller;
+      const response = await apiFetch(id ? `/api/sellers/${encodeURIComponent(id)}` : '/api/sellers', {
+        method: id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(toInput(draft)),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save seller');
+      setMessage(`Saved ${data.seller.label}`);
+      if (!id) setNewSeller(EMPTY_DRAFT);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save seller');
+    } finally {
+      setSaving(null);
+    }
+  }
+
+  const field = 'border border-gray-200 rounded-lg px-2 py-1 text-sm';
+
+  function row(draft: SellerDraft, onChange: (changes: Partial<SellerDraft>) => void, isNew: boolean) {
+    return (
+      <>
+        <td className="py-2 pr-2">
+          {isNew
+            ? <input className={`${field} w-32 font-mono`} placeholder="id" value={draft.id} onChange={e => onChange({ id: e.target.value })} />
+            : <span className="font-mono text-xs text-gray-500">{draft.id}</span>}
+        </td>
+        <td className="py-2 pr-2"><input className={`${field} w-32`} value={draft.label} onChange={e => onChange({ label: e.target.value })} /></td>
+        <td className="py-2 pr-2"><input className={`${field} w-36 font-mono`} value={draft.ebayUsername} onChange={e => onChange({ ebayUsername: e.target.value })} /></td>
+        <td className="py-2 pr-2"><input type="color" className="h-8 w-10" value={draft.color || '#667eea'} onChange={e => onChange({ color: e.target.value })} /></td>
+        <td className="py-2 pr-2"><input className={`${field} w-14 text-right`} type="number" step="1" value={draft.sortOrder} onChange={e => onChange({ sortOrder: e.target.value })} /></td>
+        <td className="py-2 pr-2"><input className={`${field} w-20 text-right`} type="number" step="0.01" value={draft.shipping} onChange={e => onChange({ shipping: e.target.value })} /></td>
+        <td className="py-2 pr-2"><input className={`${field} w-16 text-right`} type="number" min={0} max={99} step="0.5" value={draft.couponPercent} onChange={e => onChange({ couponPercent: e.target.value })} /></td>
+        <td className="py-2 pr-2 text-center"><input type="checkbox" checked={draft.active} onChange={e => onChange({ active: e.target.checked })} /></td>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div className="header">
+        <h1>Sellers</h1>
+        <p>eBay sellers shown on the dashboard and pulled in by ingestion</p>
+      </div>
+
+      <div className="max-w-6xl mx-auto p-6 flex flex-col gap-4">
+        <Link href="/" className="text-sm text-indigo-600 hover:underline">← Back to deals</Link>
+
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        {message && <div className="text-sm text-emerald-600">{message}</div>}
+
+        <div className="filter-section overflow-x-auto">
+          <div className="filter-title">Seller registry</div>
+          <p className="text-xs text-gray-500 mb-3">
+            Shipping is added to and the coupon taken off every listing price when books are evaluated.
+            Inactive sellers are hidden from the dashboard and skipped by ingestion.
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 pr-2">Id</th>
+                <th className="py-2 pr-2">Label</th>
+                <th className="py-2 pr-2">eBay username</th>
+                <th className="py-2 pr-2">Colour</th>
+                <th className="py-2 pr-2">Order</th>
+                <th className="py-2 pr-2">Shipping ($)</th>
+                <th className="py-2 pr-2">Coupon %</th>
+                <th className="py-2 pr-2">Active</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {sellers.map(seller => drafts[seller.id] && (
+                <tr key={seller.id} className={`border-b border-gray-100 ${drafts[seller.id].active ? '' : 'opacity-60'}`}>
+                  {row(drafts[seller.id], changes => edit(seller.id, changes), false)}
+                  <td className="py-2 text-right">
+                    <button className="text-indigo-600 hover:underline disabled:opacity-50" disabled={saving !== null} onClick={() => save(seller.id)}>
+                      {saving === seller.id ? 'Saving…' : 'Save'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              <tr>
+                {row(newSeller, changes => setNewSeller(prev => ({ ...prev, ...changes })), true)}
+                <td className="py-2 text-right">
+                  <button
+                    className="px-3 py-1 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+                    disabled={saving !== null || !newSeller.id || !newSeller.label || !newSeller.ebayUsername}
+                    onClick={() => save(null)}
+                  >
+                    {saving === 'new' ? 'Adding…' : 'Add'}
+                  </button>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </>
+  );
+}
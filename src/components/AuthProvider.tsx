@@ -0,0 +1,74 @@
+'use client';
+
+import { createContext, useContext, useEffect, useState } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import type { Session } from '@supabase/supabase-js';
+import { getClientSupabase } from '@/services/supabaseClient';
+
+interface AuthContextValue {
+  session: Session | null;
+  userId: string | null;
+  email: string | null;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue>({
+  session: null,
+  userId: null,
+  email: null,
+  signOut: async () => {},
+});
+
+export function useAuth(): AuthContextValue {
+  return useContext(AuthContext);
+}
+
+// Pages reachable without a session
+const PUBLIC_PATHS = ['/login'];
+
+// Tracks the Supabase session and sends signed-out visitors to /login
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const [session, setSession] = useState<Session | null>(null);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    const auth = getClientSupabase().auth;
+
+    auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setReady(true);
+    });
+
+    const { data: { subscription } } = auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const isPublic = PUBLIC_PATHS.includes(pathname);
+
+  useEffect(() => {
+    if (ready && !session && !isPublic) router.replace('/login');
+  }, [ready, session, isPublic, router]);
+
+  const value: AuthContextValue = {
+    session,
+    userId: session?.user.id ?? null,
+    email: session?.user.email ?? null,
+    signOut: async () => {
+      await getClientSupabase().auth.signOut();
+      router.replace('/login');
+    },
+  };
+
+  // Hold protected pages until we know who is signed in
+  if (!isPublic && (!ready || !session)) {
+    return (
+      <div className="loading">
+        <div className="loading-spinner" />
+      </div>
+    );
+  }
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
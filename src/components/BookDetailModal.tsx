@@ -17,8 +17,14 @@ import {
   Loader2,
   BookOpen,
   ShoppingCart,
+  RefreshCw,
+  LineChart,
 } from 'lucide-react';
 import Image from 'next/image';
+import { PriceHistoryChart, type PriceHistory } from './PriceHistoryChart';
+import { DecisionExplanationPanel } from './DecisionExplanationPanel';
+import type { DecisionExplanation } from '@/services/decisionRules';
+import { apiFetch } from '@/services/supabaseClient';
 
 interface Deal {
   ebayItemId: string;
@@ -58,6 +64,8 @@ interface KeepaProduct {
   imageUrl: string | null;
   category: string | null;
   isAmazon: boolean;
+  weightOz: number | null;
+  history: PriceHistory;
 }
 
 interface Analysis {
@@ -67,10 +75,37 @@ interface Analysis {
   fbmRoi: number;
   referralFee: number;
   fulfillmentFee: number;
+  fbmShipping: number;
+  sizeTier: string | null;
+  feeProfileId: number | null;
   decision: 'BUY' | 'REVIEW' | 'REJECT';
   reason: string;
   score: number;
+  explanation: DecisionExplanation;
   sellPrice: number;
+  priceEstimate: 'buy_box' | 'seasonal';
+  sellPriceEstimate: SellPriceEstimate | null;
+}
+
+interface SellPriceEstimate {
+  method: 'buy_box' | 'seasonal';
+  price: number;
+  currentBuyBox: number | null;
+  seasonPrices: Record<'fall_rush' | 'spring_rush' | 'off_season', number | null>;
+  targetDate: string;
+  targetSeason: 'fall_rush' | 'spring_rush' | 'off_season';
+}
+
+const SEASON_LABELS: Record<SellPriceEstimate['targetSeason'], string> = {
+  fall_rush: 'fall rush',
+  spring_rush: 'spring rush',
+  off_season: 'off season',
+};
+
+interface CacheInfo {
+  source: 'cache' | 'keepa';
+  stale: boolean;
+  cachedAt: string;
 }
 
 interface BookDetailModalProps {
@@ -83,6 +118,8 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
   const [error, setError] = useState<string | null>(null);
   const [product, setProduct] = useState<KeepaProduct | null>(null);
   const [analysis, setAnalysis] = useState<Analysis | null>(null);
+  const [cacheInfo, setCacheInfo] = useState<CacheInfo | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
 
   useEffect(() => {
     if (!deal.isbn) {
@@ -93,12 +130,13 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
 
     async function fetchAmazonData() {
       try {
-        const response = await fetch('/api/keepa/product', {
+        const response = await apiFetch('/api/keepa/product', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             isbn: deal.isbn,
             ebayPrice: deal.ebayPrice,
+            force: refreshCount > 0,
           }),
         });
 
@@ -110,6 +148,7 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
         const data = await response.json();
         setProduct(data.product);
         setAnalysis(data.analysis);
+        setCacheInfo(data.cache ?? null);
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
       } finally {
@@ -118,7 +157,13 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
     }
 
     fetchAmazonData();
-  }, [deal.isbn, deal.ebayPrice]);
+  }, [deal.isbn, deal.ebayPrice, refreshCount]);
+
+  const handleRefresh = () => {
+    setLoading(true);
+    setError(null);
+    setRefreshCount(count => count + 1);
+  };
 
   const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
   const formatRank = (rank: number) => {
@@ -228,6 +273,25 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
             </div>
           ) : (
             <>
+              {/* Data freshness */}
+              {cacheInfo && (
+                <div className={`flex items-center justify-between text-sm mb-4 ${cacheInfo.stale ? 'text-amber-600' : 'text-gray-400'}`}>
+                  <span>
+                    {cacheInfo.source === 'keepa' ? 'Fetched from Keepa just now' : `Cached ${new Date(cacheInfo.cachedAt).toLocaleString()}`}
+                    {cacheInfo.stale && ' · stale, refreshing in background'}
+                  </span>
+                  {cacheInfo.source === 'cache' && (
+                    <button
+                      onClick={handleRefresh}
+                      className="inline-flex items-center gap-1 px-2 py-1 rounded-md hover:bg-gray-100 transition-colors"
+                    >
+                      <RefreshCw className="w-3.5 h-3.5" />
+                      Refresh
+                    </button>
+                  )}
+                </div>
+              )}
+
               {/* Decision Banner */}
               {analysis && (
                 <div className={`${getDecisionColor(analysis.decision)} text-white rounded-lg p-5 mb-6`}>
@@ -245,6 +309,13 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
                 </div>
               )}
 
+              {/* Decision Breakdown */}
+              {analysis?.explanation && (
+                <div className="bg-gray-50 rounded-lg p-5 mb-6 border border-gray-100">
+                  <DecisionExplanationPanel explanation={analysis.explanation} />
+                </div>
+              )}
+
               {/* Price Comparison */}
               <div className="grid md:grid-cols-2 gap-6 mb-6">
                 {/* eBay Card */}
@@ -315,13 +386,34 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
                   </div>
                   <div className="mt-4 pt-4 border-t border-gray-200 text-sm text-gray-400">
                     <div className="flex justify-between">
-                      <span>Referral Fee (15%)</span>
+                      <span>Sell Price ({analysis.priceEstimate === 'seasonal' ? 'seasonal estimate' : 'current buy box'})</span>
+                      <span>{formatPrice(analysis.sellPrice)}</span>
+                    </div>
+                    {analysis.sellPriceEstimate?.method === 'seasonal' && (
+                      <div className="flex justify-between mt-1">
+                        <span>
+                          Projected for {SEASON_LABELS[analysis.sellPriceEstimate.targetSeason]} ({analysis.sellPriceEstimate.targetDate})
+                        </span>
+                        <span>
+                          {formatPrice(analysis.sellPriceEstimate.price)}
+                          {analysis.sellPriceEstimate.seasonPrices.off_season !== null && (
+                            <> · off season {formatPrice(analysis.sellPriceEstimate.seasonPrices.off_season)}</>
+                          )}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex justify-between mt-1">
+                      <span>Referral Fee</span>
                       <span>{formatPrice(analysis.referralFee)}</span>
                     </div>
                     <div className="flex justify-between mt-1">
-                      <span>FBA Fulfillment</span>
+                      <span>FBA Fulfillment{analysis.sizeTier ? ` (${analysis.sizeTier.replace('_', ' ')})` : ''}</span>
                       <span>{formatPrice(analysis.fulfillmentFee)}</span>
                     </div>
+                    <div className="flex justify-between mt-1">
+                      <span>FBM Media Mail{product?.weightOz ? ` (${(product.weightOz / 16).toFixed(1)} lbs)` : ''}</span>
+                      <span>{formatPrice(analysis.fbmShipping)}</span>
+                    </div>
                   </div>
                 </div>
               )}
@@ -382,6 +474,17 @@ export function BookDetailModal({ deal, onClose }: BookDetailModalProps) {
                 </div>
               )}
 
+              {/* Price & Rank History */}
+              {product?.history && (
+                <div className="bg-gray-50 rounded-lg p-5 mb-6 border border-gray-100">
+                  <h4 className="text-sm font-semibold text-gray-500 mb-4 flex items-center gap-2">
+                    <LineChart className="w-4 h-4" />
+                    Price &amp; Rank History
+                  </h4>
+                  <PriceHistoryChart history={product.history} />
+                </div>
+              )}
+
               {/* Additional Info */}
               {product && (
                 <div className="bg-gray-50 rounded-lg p-5 border border-gray-100">
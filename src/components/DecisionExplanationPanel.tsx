@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, CheckCircle, XCircle } from 'lucide-react';
+import type { DecisionExplanation } from '@/services/decisionRules';
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+
+// The inputs worth showing next to the rules that used them
+function describeInputs(inputs: NonNullable<DecisionExplanation['inputs']>): string[] {
+  const parts = [`profit ${formatPrice(inputs.profit)}`, `ROI ${inputs.roi}%`];
+  if (inputs.multiplier !== null) parts.push(`${inputs.multiplier.toFixed(1)}x`);
+  if (inputs.salesRank !== null) parts.push(`rank #${inputs.salesRank.toLocaleString()}`);
+  if (inputs.salesDrops30 !== null) parts.push(`${inputs.salesDrops30} sales/30d`);
+  if (inputs.fbaCount !== null) parts.push(`${inputs.fbaCount} FBA offers`);
+  return parts;
+}
+
+interface DecisionExplanationPanelProps {
+  explanation: DecisionExplanation;
+  defaultOpen?: boolean;
+}
+
+// Expandable "Why BUY?" breakdown: knockouts checked, score components, thresholds
+export function DecisionExplanationPanel({ explanation, defaultOpen = false }: DecisionExplanationPanelProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const knockedOut = explanation.knockouts.some(k => k.fired);
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setOpen(!open)}
+        className="inline-flex items-center gap-1 font-semibold text-indigo-600 hover:text-indigo-800"
+      >
+        {open ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+        Why {explanation.decision}?
+      </button>
+
+      {open && (
+        <div className="mt-2 space-y-3 text-gray-600">
+          <div>{explanation.reason}</div>
+
+          {explanation.inputs && (
+            <div className="text-xs text-gray-400">{describeInputs(explanation.inputs).join(' · ')}</div>
+          )}
+
+          <div>
+            <div className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">Knockouts</div>
+            {explanation.knockouts.map(check => (
+              <div key={check.id} className="flex items-center gap-1.5">
+                {check.fired
+                  ? <XCircle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" />
+                  : <CheckCircle className="w-3.5 h-3.5 text-emerald-500 flex-shrink-0" />}
+                <span className={check.fired ? 'text-red-600' : ''}>{check.label}</span>
+              </div>
+            ))}
+          </div>
+
+          {!knockedOut && (
+            <div>
+              <div className="text-xs font-semibold uppercase tracking-wide text-gray-400 mb-1">Score</div>
+              <div className="flex justify-between">
+                <span>Base score</span>
+                <span>{explanation.baseScore}</span>
+              </div>
+              {explanation.scoreComponents.map(component => (
+                <div key={component.id} className="flex justify-between">
+                  <span>{component.label}</span>
+                  <span className={component.points >= 0 ? 'text-emerald-600' : 'text-red-600'}>
+                    {component.points >= 0 ? '+' : ''}{component.points}
+                  </span>
+                </div>
+              ))}
+              <div className="flex justify-between font-semibold border-t border-gray-200 mt-1 pt-1">
+                <span>Total{explanation.rawScore !== explanation.score ? ` (capped from ${explanation.rawScore})` : ''}</span>
+                <span>{explanation.score}</span>
+              </div>
+            </div>
+          )}
+
+          <div className="text-xs text-gray-400">
+            BUY at {explanation.thresholds.buy}+, REVIEW at {explanation.thresholds.review}+
+            {' · '}rules {explanation.ruleSetId === null ? 'default' : `v${explanation.ruleSetVersion}`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+
+interface HistoryPoint {
+  t: number;
+  v: number | null;
+}
+
+export interface PriceHistory {
+  buyBox: HistoryPoint[];
+  used: HistoryPoint[];
+  new: HistoryPoint[];
+  amazon: HistoryPoint[];
+  salesRank: HistoryPoint[];
+}
+
+type PriceSeries = 'buyBox' | 'used' | 'new' | 'amazon';
+
+const RANGES = [30, 90, 180, 365] as const;
+type RangeDays = typeof RANGES[number];
+
+const SERIES: { key: PriceSeries; label: string; color: string }[] = [
+  { key: 'buyBox', label: 'Buy Box', color: '#e11d48' },
+  { key: 'used', label: 'Used', color: '#2563eb' },
+  { key: 'new', label: 'New', color: '#16a34a' },
+  { key: 'amazon', label: 'Amazon', color: '#f59e0b' },
+];
+
+const RANK_COLOR = '#7c3aed';
+
+// SVG coordinate space; the element scales to its container width
+const WIDTH = 640;
+const PRICE_HEIGHT = 200;
+const RANK_HEIGHT = 110;
+const PAD = { top: 10, right: 12, bottom: 20, left: 56 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Points inside [from, to], with the value in effect at `from` carried in
+// and the latest value carried out to `to`, so step lines span the window
+function windowSeries(points: HistoryPoint[], from: number, to: number): HistoryPoint[] {
+  if (points.length === 0) return [];
+  const result: HistoryPoint[] = [];
+  let carried: HistoryPoint | null = null;
+
+  for (const p of points) {
+    if (p.t < from) carried = p;
+    else if (p.t <= to) result.push(p);
+  }
+
+  if (carried) result.unshift({ t: from, v: carried.v });
+  if (result.length > 0) result.push({ t: to, v: result[result.length - 1].v });
+  return result;
+}
+
+function valueAt(points: HistoryPoint[], t: number): number | null {
+  let value: number | null = null;
+  for (const p of points) {
+    if (p.t > t) break;
+    value = p.v;
+  }
+  return value;
+}
+
+// Step path; null values lift the pen
+function stepPath(points: HistoryPoint[], x: (t: number) => number, y: (v: number) => number): string {
+  let d = '';
+  let penDown = false;
+  for (let i = 0; i < points.length; i++) {
+    const p = points[i];
+    if (p.v === null) {
+      penDown = false;
+      continue;
+    }
+    const px = x(p.t).toFixed(1);
+    const py = y(p.v).toFixed(1);
+    if (!penDown) {
+      d += `M${px},${py}`;
+      penDown = true;
+    } else {
+      d += `H${px}V${py}`;
+    }
+    const next = points[i + 1];
+    if (next) d += `H${x(next.t).toFixed(1)}`;
+  }
+  return d;
+}
+
+function niceBounds(values: number[]): [number, number] {
+  if (values.length === 0) return [0, 1];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const pad = max === min ? Math.max(1, max * 0.1) : (max - min) * 0.1;
+  return [Math.max(0, min - pad), max + pad];
+}
+
+const formatPrice = (cents: number) => `$${(cents / 100).toFixed(2)}`;
+const formatRank = (rank: number) => {
+  if (rank >= 1000000) return `${(rank / 1000000).toFixed(1)}M`;
+  if (rank >= 1000) return `${Math.round(rank / 1000)}K`;
+  return rank.toString();
+};
+const formatDate = (t: number) => new Date(t).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+interface PriceHistoryChartProps {
+  history: PriceHistory;
+}
+
+export function PriceHistoryChart({ history }: PriceHistoryChartProps) {
+  const [range, setRange] = useState<RangeDays>(90);
+  const [hidden, setHidden] = useState<Set<PriceSeries>>(new Set());
+  const [hoverT, setHoverT] = useState<number | null>(null);
+
+  const to = useMemo(() => Date.now(), []);
+  const from = to - range * DAY_MS;
+
+  const windowed = useMemo(() => ({
+    buyBox: windowSeries(history.buyBox, from, to),
+    used: windowSeries(history.used, from, to),
+    new: windowSeries(history.new, from, to),
+    amazon: windowSeries(history.amazon, from, to),
+    salesRank: windowSeries(history.salesRank, from, to),
+  }), [history, from, to]);
+
+  const x = (t: number) => PAD.left + ((t - from) / (to - from)) * (WIDTH - PAD.left - PAD.right);
+
+  const visiblePrices = SERIES.filter(s => !hidden.has(s.key))
+    .flatMap(s => windowed[s.key].map(p => p.v).filter((v): v is number => v !== null));
+  const [priceMin, priceMax] = niceBounds(visiblePrices);
+  const priceY = (v: number) => PAD.top + (1 - (v - priceMin) / (priceMax - priceMin)) * (PRICE_HEIGHT - PAD.top - PAD.bottom);
+
+  const rankValues = windowed.salesRank.map(p => p.v).filter((v): v is number => v !== null);
+  const [rankMin, rankMax] = niceBounds(rankValues);
+  // Better (lower) rank plots higher
+  const rankY = (v: number) => PAD.top + ((v - rankMin) / (rankMax - rankMin)) * (RANK_HEIGHT - PAD.top - PAD.bottom);
+
+  const handleMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH;
+    const ratio = (svgX - PAD.left) / (WIDTH - PAD.left - PAD.right);
+    setHoverT(ratio >= 0 && ratio <= 1 ? from + ratio * (to - from) : null);
+  };
+
+  const toggleSeries = (key: PriceSeries) => {
+    setHidden(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const ticks = [0, 0.25, 0.5, 0.75, 1].map(f => from + f * (to - from));
+  const hasPrices = visiblePrices.length > 0;
+  const hasRank = rankValues.length > 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex flex-wrap gap-3">
+          {SERIES.map(s => (
+            <button
+              key={s.key}
+              onClick={() => toggleSeries(s.key)}
+              className={`inline-flex items-center gap-1.5 text-sm ${hidden.has(s.key) ? 'text-gray-300' : 'text-gray-600'}`}
+            >
+              <span className="w-3 h-0.5 rounded" style={{ background: hidden.has(s.key) ? '#d1d5db' : s.color }} />
+              {s.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map(days => (
+            <button
+              key={days}
+              onClick={() => setRange(days)}
+              className={`px-2.5 py-1 text-sm font-semibold rounded-md transition-colors ${range === days ? 'bg-gray-900 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+            >
+              {days}d
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {hoverT !== null && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm mb-2">
+          <span className="text-gray-400">{formatDate(hoverT)}</span>
+          {SERIES.filter(s => !hidden.has(s.key)).map(s => {
+            const v = valueAt(windowed[s.key], hoverT);
+            return (
+              <span key={s.key} style={{ color: s.color }}>
+                {s.label}: {v !== null ? formatPrice(v) : '—'}
+              </span>
+            );
+          })}
+          {hasRank && (
+            <span style={{ color: RANK_COLOR }}>
+              Rank: {(() => { const v = valueAt(windowed.salesRank, hoverT); return v !== null ? `#${v.toLocaleString()}` : '—'; })()}
+            </span>
+          )}
+        </div>
+      )}
+
+      {hasPrices ? (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${PRICE_HEIGHT}`}
+          className="w-full h-auto"
+          onMouseMove={handleMove}
+          onMouseLeave={() => setHoverT(null)}
+        >
+          {[0, 0.5, 1].map(f => {
+            const v = priceMin + f * (priceMax - priceMin);
+            return (
+              <g key={f}>
+                <line x1={PAD.left} x2={WIDTH - PAD.right} y1={priceY(v)} y2={priceY(v)} stroke="#f1f5f9" />
+                <text x={PAD.left - 6} y={priceY(v) + 4} textAnchor="end" fontSize="11" fill="#9ca3af">{formatPrice(v)}</text>
+              </g>
+            );
+          })}
+          {ticks.map(t => (
+            <text key={t} x={x(t)} y={PRICE_HEIGHT - 4} textAnchor="middle" fontSize="11" fill="#9ca3af">{formatDate(t)}</text>
+          ))}
+          {SERIES.filter(s => !hidden.has(s.key)).map(s => (
+            <path key={s.key} d={stepPath(windowed[s.key], x, priceY)} fill="none" stroke={s.color} strokeWidth={1.75} />
+          ))}
+          {hoverT !== null && (
+            <line x1={x(hoverT)} x2={x(hoverT)} y1={PAD.top} y2={PRICE_HEIGHT - PAD.bottom} stroke="#9ca3af" strokeDasharray="3 3" />
+          )}
+        </svg>
+      ) : (
+        <div className="text-sm text-gray-400 py-8 text-center">No price history in the last {range} days</div>
+      )}
+
+      {hasRank && (
+        <>
+          <div className="text-sm font-semibold text-gray-400 mt-4 mb-1">Sales Rank</div>
+          <svg
+            viewBox={`0 0 ${WIDTH} ${RANK_HEIGHT}`}
+            className="w-full h-auto"
+            onMouseMove={handleMove}
+            onMouseLeave={() => setHoverT(null)}
+          >
+            {[0, 1].map(f => {
+              const v = rankMin + f * (rankMax - rankMin);
+              return (
+                <g key={f}>
+                  <line x1={PAD.left} x2={WIDTH - PAD.right} y1={rankY(v)} y2={rankY(v)} stroke="#f1f5f9" />
+                  <text x={PAD.left - 6} y={rankY(v) + 4} textAnchor="end" fontSize="11" fill="#9ca3af">#{formatRank(v)}</text>
+                </g>
+              );
+            })}
+            {ticks.map(t => (
+              <text key={t} x={x(t)} y={RANK_HEIGHT - 4} textAnchor="middle" fontSize="11" fill="#9ca3af">{formatDate(t)}</text>
+            ))}
+            <path d={stepPath(windowed.salesRank, x, rankY)} fill="none" stroke={RANK_COLOR} strokeWidth={1.5} />
+            {hoverT !== null && (
+              <line x1={x(hoverT)} x2={x(hoverT)} y1={PAD.top} y2={RANK_HEIGHT - PAD.bottom} stroke="#9ca3af" strokeDasharray="3 3" />
+            )}
+          </svg>
+        </>
+      )}
+    </div>
+  );
+}
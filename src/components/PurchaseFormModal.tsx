@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { X, Loader2 } from 'lucide-react';
+import type { Purchase, PurchaseInput } from '@/services/purchases';
+import { apiFetch } from '@/services/supabaseClient';
+
+interface PurchaseFormModalProps {
+  // Existing purchase to edit (has id) or values prefilled from a listing
+  purchase: (Partial<PurchaseInput> & { id?: number }) & Pick<PurchaseInput, 'isbn' | 'title' | 'unitPrice'>;
+  onSaved: (purchase: Purchase) => void;
+  onClose: () => void;
+}
+
+const toDollars = (cents: number | undefined) => ((cents ?? 0) / 100).toFixed(2);
+const toCents = (dollars: string) => Math.round((parseFloat(dollars) || 0) * 100);
+
+export function PurchaseFormModal({ purchase, onSaved, onClose }: PurchaseFormModalProps) {
+  const editing = purchase.id !== undefined;
+  const [orderNumber, setOrderNumber] = useState(purchase.ebayOrderNumber ?? '');
+  const [quantity, setQuantity] = useState(String(purchase.quantity ?? 1));
+  const [unitPrice, setUnitPrice] = useState(toDollars(purchase.unitPrice));
+  const [shipping, setShipping] = useState(toDollars(purchase.shipping));
+  const [tax, setTax] = useState(toDollars(purchase.tax));
+  const [discount, setDiscount] = useState(toDollars(purchase.discount));
+  const [purchasedAt, setPurchasedAt] = useState((purchase.purchasedAt ?? new Date().toISOString()).slice(0, 10));
+  const [notes, setNotes] = useState(purchase.notes ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const qty = parseInt(quantity) || 0;
+  const total = toCents(unitPrice) * qty + toCents(shipping) + toCents(tax) - toCents(discount);
+
+  async function handleSubmit(event: React.FormEvent) {
+    event.preventDefault();
+    setError(null);
+    setSaving(true);
+
+    const body: Partial<PurchaseInput> = {
+      ebayOrderNumber: orderNumber.trim() || null,
+      quantity: qty,
+      unitPrice: toCents(unitPrice),
+      shipping: toCents(shipping),
+      tax: toCents(tax),
+      discount: toCents(discount),
+      purchasedAt: new Date(`${purchasedAt}T12:00:00`).toISOString(),
+      notes: notes.trim() || null,
+    };
+    if (!editing) {
+      Object.assign(body, {
+        bookId: purchase.bookId ?? null,
+        isbn: purchase.isbn,
+        title: purchase.title,
+        ebayItemId: purchase.ebayItemId ?? null,
+      });
+    }
+
+    try {
+      const response = await apiFetch(editing ? `/api/purchases/${purchase.id}` : '/api/purchases', {
+        method: editing ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save purchase');
+      onSaved(data.purchase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save purchase');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const field = 'w-full border border-gray-200 rounded-lg px-3 py-2 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/40 backdrop-blur-sm">
+      <form onSubmit={handleSubmit} className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-5 border-b border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900">{editing ? 'Edit Purchase' : 'Record Purchase'}</h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 rounded-lg hover:bg-gray-100 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-5 grid grid-cols-2 gap-4 text-sm">
+          <div className="col-span-2">
+            <div className="font-semibold text-gray-900 line-clamp-2">{purchase.title}</div>
+            <div className="text-gray-500 font-mono">
+              ISBN {purchase.isbn}{purchase.ebayItemId && ` · eBay item ${purchase.ebayItemId}`}
+            </div>
+          </div>
+
+          <label className="col-span-2 text-gray-600">
+            eBay order number
+            <input className={field} value={orderNumber} onChange={e => setOrderNumber(e.target.value)} placeholder="e.g. 12-34567-89012" />
+          </label>
+          <label className="text-gray-600">
+            Quantity
+            <input className={field} type="number" min={1} step={1} value={quantity} onChange={e => setQuantity(e.target.value)} required />
+          </label>
+          <label className="text-gray-600">
+            Price per copy ($)
+            <input className={field} type="number" min={0} step="0.01" value={unitPrice} onChange={e => setUnitPrice(e.target.value)} required />
+          </label>
+          <label className="text-gray-600">
+            Shipping ($)
+            <input className={field} type="number" min={0} step="0.01" value={shipping} onChange={e => setShipping(e.target.value)} />
+          </label>
+          <label className="text-gray-600">
+            Tax ($)
+            <input className={field} type="number" min={0} step="0.01" value={tax} onChange={e => setTax(e.target.value)} />
+          </label>
+          <label className="text-gray-600">
+            Best Offer discount ($)
+            <input className={field} type="number" min={0} step="0.01" value={discount} onChange={e => setDiscount(e.target.value)} />
+          </label>
+          <label className="text-gray-600">
+            Purchased on
+            <input className={field} type="date" value={purchasedAt} onChange={e => setPurchasedAt(e.target.value)} required />
+          </label>
+          <label className="col-span-2 text-gray-600">
+            Notes
+            <textarea className={field} rows={2} value={notes} onChange={e => setNotes(e.target.value)} />
+          </label>
+
+          <div className="col-span-2 flex items-center justify-between border-t border-gray-100 pt-4">
+            <span className="text-gray-500">Total paid</span>
+            <span className="text-lg font-bold text-gray-900">${(total / 100).toFixed(2)}</span>
+          </div>
+          {error && <div className="col-span-2 text-red-600">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-2 p-5 border-t border-gray-200">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-lg text-gray-600 hover:bg-gray-100">
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={saving || qty < 1}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg bg-indigo-600 text-white disabled:opacity-50"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {editing ? 'Save changes' : 'Mark bought'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
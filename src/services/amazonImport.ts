@@ -0,0 +1,357 @@
+import { supabase, EBAY_BOOKS_TABLE } from './supabase';
+import { PURCHASES_TABLE } from './purchases';
+import { getInventoryItem, getInventoryItems, transitionInventoryItem, updateSaleAmounts, revertSale } from './inventory';
+import { validateTransition, type InventoryItem, type InventoryTransition } from './inventoryLifecycle';
+import { isbn10to13, isbn13to10, validateIsbn } from './isbn';
+import { parseAmazonReport, type AmazonReportType, type SaleLine } from './amazonReports';
+
+/**
+ * Amazon Import
+ * Records sales from uploaded Amazon flat files against inventory. Each sale
+ * line is matched to listed copies by SKU, then by ASIN/ISBN; lines already
+ * recorded (same order id) get their price and fees corrected instead, so a
+ * settlement report can follow the All Orders report for the same sale.
+ * Lines that can't be matched wait in amazon_unmatched_sales for review.
+ */
+
+export type UnmatchedStatus = 'pending' | 'resolved' | 'ignored';
+
+export interface ImportSummary {
+  importId: number | null;
+  reportType: AmazonReportType;
+  lines: number;
+  matched: number;                  // lines that sold listed copies
+  updated: number;                  // lines that corrected copies already sold
+  unmatched: number;                // lines sent to the review queue
+  skipped: number;                  // rows that weren't sales
+}
+
+export interface UnmatchedSale {
+  id: number;
+  importId: number | null;
+  reportType: AmazonReportType;
+  orderId: string;
+  sku: string | null;
+  asin: string | null;
+  title: string | null;
+  saleDate: string;
+  quantity: number;
+  salePrice: number;
+  fees: number | null;
+  reason: string;
+  status: UnmatchedStatus;
+  resolvedItemIds: number[] | null;
+  raw: Record<string, string>;
+  createdAt: string;
+}
+
+export const AMAZON_IMPORTS_TABLE = 'amazon_imports';
+export const AMAZON_UNMATCHED_TABLE = 'amazon_unmatched_sales';
+
+interface UnmatchedRow {
+  id: number;
+  import_id: number | null;
+  report_type: AmazonReportType;
+  order_id: string;
+  sku: string | null;
+  asin: string | null;
+  title: string | null;
+  sale_date: string;
+  quantity: number;
+  sale_price: number;
+  fees: number | null;
+  reason: string;
+  status: UnmatchedStatus;
+  resolved_item_ids: number[] | null;
+  raw: Record<string, string>;
+  created_at: string;
+}
+
+function rowToUnmatched(row: UnmatchedRow): UnmatchedSale {
+  return {
+    id: row.id,
+    importId: row.import_id,
+    reportType: row.report_type,
+    orderId: row.order_id,
+    sku: row.sku,
+    asin: row.asin,
+    title: row.title,
+    saleDate: row.sale_date,
+    quantity: row.quantity,
+    salePrice: row.sale_price,
+    fees: row.fees,
+    reason: row.reason,
+    status: row.status,
+    resolvedItemIds: row.resolved_item_ids,
+    raw: row.raw,
+    createdAt: row.created_at,
+  };
+}
+
+function unmatchedToLine(sale: UnmatchedSale): SaleLine {
+  return {
+    orderId: sale.orderId,
+    sku: sale.sku,
+    asin: sale.asin,
+    title: sale.title,
+    saleDate: sale.saleDate,
+    quantity: sale.quantity,
+    salePrice: sale.salePrice,
+    fees: sale.fees,
+    raw: sale.raw,
+  };
+}
+
+// Share i of n of an amount in cents; the first share absorbs the remainder
+function share(total: number, n: number, i: number): number {
+  const each = Math.floor(total / n);
+  return each + (i === 0 ? total - each * n : 0);
+}
+
+// ISBN-13/10 forms of a code if it is a valid ISBN (book ASINs are often the ISBN-10)
+function isbnForms(code: string | null): string[] {
+  const clean = (code || '').replace(/[-\s]/g, '').toUpperCase();
+  if (!validateIsbn(clean).valid) return [];
+  const other = clean.length === 10 ? isbn10to13(clean) : isbn13to10(clean);
+  return other ? [clean, other] : [clean];
+}
+
+// Listed copies the line could be, oldest first: by SKU, then ASIN/ISBN
+async function findListedCopies(line: SaleLine): Promise<InventoryItem[]> {
+  if (line.sku) {
+    const bySku = await getInventoryItems({ status: 'listed', sku: line.sku });
+    if (bySku.length > 0) return bySku;
+  }
+
+  const isbns = Array.from(new Set([...isbnForms(line.asin), ...isbnForms(line.sku)]));
+  if (isbns.length > 0) {
+    const byIsbn = await getInventoryItems({ status: 'listed', isbns });
+    if (byIsbn.length > 0) return byIsbn;
+  }
+
+  if (line.asin) {
+    const { data: books } = await supabase.from(EBAY_BOOKS_TABLE).select('id').eq('asin', line.asin);
+    const bookIds = (books || []).map(b => b.id as number);
+    if (bookIds.length > 0) {
+      const { data: purchases } = await supabase.from(PURCHASES_TABLE).select('id').in('book_id', bookIds);
+      const purchaseIds = (purchases || []).map(p => p.id as number);
+      if (purchaseIds.length > 0) return getInventoryItems({ status: 'listed', purchaseIds });
+    }
+  }
+
+  return [];
+}
+
+// Copies already recorded as sold on this order (and SKU, when both have one)
+async function findSoldCopies(line: SaleLine): Promise<InventoryItem[]> {
+  const sold = await getInventoryItems({ status: 'sold', saleOrderId: line.orderId });
+  return sold.filter(item => !line.sku || !item.sku || item.sku === line.sku);
+}
+
+/**
+ * Sell the given copies for a line, splitting price and fees across them.
+ * All or nothing: every transition is checked first, and if one still fails
+ * the copies already sold are put back, so a failed line can be retried from
+ * the review queue without counting any copy twice.
+ */
+async function sellCopies(items: InventoryItem[], line: SaleLine, note: string, userId: string): Promise<boolean> {
+  const transitions: InventoryTransition[] = items.map((_, i) => ({
+    status: 'sold',
+    salePrice: share(line.salePrice, items.length, i),
+    cost: line.fees !== null ? share(line.fees, items.length, i) : 0,
+    occurredAt: line.saleDate,
+    orderId: line.orderId,
+    note,
+  }));
+
+  for (let i = 0; i < items.length; i++) {
+    const invalid = validateTransition(items[i].status, transitions[i]);
+    if (invalid) {
+      console.error(`Can't sell inventory item ${items[i].id} for order ${line.orderId}: ${invalid}`);
+      return false;
+    }
+  }
+
+  for (let i = 0; i < items.length; i++) {
+    const result = await transitionInventoryItem(items[i].id, transitions[i], userId);
+    if (typeof result === 'string') {
+      console.error(`Failed to sell inventory item ${items[i].id} for order ${line.orderId}: ${result}`);
+      for (const sold of items.slice(0, i)) await revertSale(sold);
+      return false;
+    }
+  }
+  return true;
+}
+
+async function correctCopies(items: InventoryItem[], line: SaleLine, note: string, userId: string): Promise<void> {
+  for (let i = 0; i < items.length; i++) {
+    await updateSaleAmounts(items[i], {
+      salePrice: share(line.salePrice, items.length, i),
+      saleFees: line.fees !== null ? share(line.fees, items.length, i) : null,
+      note,
+    }, userId);
+  }
+}
+
+/**
+ * Match one line and record it; returns 'matched', 'updated' or the reason
+ * it couldn't be matched.
+ */
+async function applySaleLine(line: SaleLine, reportType: AmazonReportType, userId: string): Promise<'matched' | 'updated' | string> {
+  const note = `Amazon ${reportType === 'settlement' ? 'settlement' : 'order'} ${line.orderId}`;
+
+  const sold = await findSoldCopies(line);
+  if (sold.length > 0) {
+    await correctCopies(sold, line, `${note} (amounts corrected)`, userId);
+    return 'updated';
+  }
+
+  const listed = await findListedCopies(line);
+  if (listed.length === 0) return 'No listed copy matches the SKU, ASIN or ISBN';
+  if (listed.length < line.quantity) return `Only ${listed.length} of ${line.quantity} copies are listed`;
+
+  return (await sellCopies(listed.slice(0, line.quantity), line, note, userId)) ? 'matched' : 'Failed to record the sale';
+}
+
+// Parse and record an uploaded report; returns an error message for unreadable files
+export async function importAmazonReport(
+  text: string,
+  filename: string,
+  userId: string,
+  reportType?: AmazonReportType
+): Promise<ImportSummary | string> {
+  const parsed = parseAmazonReport(text, reportType);
+  if (typeof parsed === 'string') return parsed;
+
+  const { data: importRow, error: importError } = await supabase
+    .from(AMAZON_IMPORTS_TABLE)
+    .insert({ report_type: parsed.reportType, filename, user_id: userId, lines: parsed.lines.length, skipped: parsed.skipped })
+    .select('id')
+    .single();
+
+  if (importError) {
+    console.error('Error recording Amazon import:', importError.message);
+  }
+
+  const summary: ImportSummary = {
+    importId: importRow?.id ?? null,
+    reportType: parsed.reportType,
+    lines: parsed.lines.length,
+    matched: 0,
+    updated: 0,
+    unmatched: 0,
+    skipped: parsed.skipped,
+  };
+
+  for (const line of parsed.lines) {
+    const outcome = await applySaleLine(line, parsed.reportType, userId);
+    if (outcome === 'matched') summary.matched++;
+    else if (outcome === 'updated') summary.updated++;
+    else {
+      summary.unmatched++;
+      await queueUnmatched(line, parsed.reportType, summary.importId, outcome);
+    }
+  }
+
+  if (summary.importId !== null) {
+    await supabase
+      .from(AMAZON_IMPORTS_TABLE)
+      .update({ matched: summary.matched, updated: summary.updated, unmatched: summary.unmatched })
+      .eq('id', summary.importId);
+  }
+
+  return summary;
+}
+
+// Re-importing the same file doesn't queue the same line twice
+async function queueUnmatched(line: SaleLine, reportType: AmazonReportType, importId: number | null, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from(AMAZON_UNMATCHED_TABLE)
+    .upsert({
+      import_id: importId,
+      report_type: reportType,
+      order_id: line.orderId,
+      sku: line.sku ?? '',
+      asin: line.asin,
+      title: line.title,
+      sale_date: line.saleDate,
+      quantity: line.quantity,
+      sale_price: line.salePrice,
+      fees: line.fees,
+      reason,
+      raw: line.raw,
+    }, { onConflict: 'report_type,order_id,sku', ignoreDuplicates: true });
+
+  if (error) {
+    console.error(`Error queueing unmatched Amazon line ${line.orderId}:`, error.message);
+  }
+}
+
+export async function getUnmatchedSales(status: UnmatchedStatus = 'pending', limit: number = 200): Promise<UnmatchedSale[]> {
+  const { data, error } = await supabase
+    .from(AMAZON_UNMATCHED_TABLE)
+    .select('*')
+    .eq('status', status)
+    .order('sale_date', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching unmatched Amazon sales:', error.message);
+    return [];
+  }
+
+  return (data || []).map(rowToUnmatched);
+}
+
+/**
+ * Resolve a queued line by hand: sell the chosen copies (listed, or already
+ * sold on this order to correct them) or ignore it. Returns an error message
+ * on failure.
+ */
+export async function resolveUnmatchedSale(
+  id: number,
+  resolution: { action: 'match'; itemIds: number[] } | { action: 'ignore' },
+  userId: string
+): Promise<UnmatchedSale | string> {
+  const { data: row, error } = await supabase.from(AMAZON_UNMATCHED_TABLE).select('*').eq('id', id).maybeSingle();
+  if (error || !row) return 'Unmatched sale not found';
+
+  const sale = rowToUnmatched(row);
+  if (sale.status !== 'pending') return `Already ${sale.status}`;
+
+  if (resolution.action === 'match') {
+    if (resolution.itemIds.length === 0) return 'Choose at least one inventory item';
+
+    const line = unmatchedToLine(sale);
+    const note = `Amazon ${sale.reportType === 'settlement' ? 'settlement' : 'order'} ${sale.orderId} (matched by hand)`;
+    const found = await Promise.all(resolution.itemIds.map(itemId => getInventoryItem(itemId)));
+    if (found.some(result => !result)) return 'Inventory item not found';
+
+    const items = found.map(result => result!.item);
+    if (items.some(item => item.status !== 'listed' && item.status !== 'sold')) return 'Only listed or sold copies can be matched';
+
+    const listed = items.filter(item => item.status === 'listed');
+    const sold = items.filter(item => item.status === 'sold');
+    if (listed.length > 0 && !(await sellCopies(listed, line, note, userId))) return 'Failed to record the sale';
+    if (sold.length > 0) await correctCopies(sold, line, note, userId);
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from(AMAZON_UNMATCHED_TABLE)
+    .update({
+      status: resolution.action === 'match' ? 'resolved' : 'ignored',
+      resolved_item_ids: resolution.action === 'match' ? resolution.itemIds : null,
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (updateError) {
+    console.error(`Error resolving unmatched Amazon sale ${id}:`, updateError.message);
+    return 'Failed to update the review queue';
+  }
+
+  return rowToUnmatched(updated);
+}
@@ -0,0 +1,150 @@
+/**
+ * Amazon Reports
+ * Parses Amazon Seller Central flat-file downloads (tab-delimited, header row
+ * first) into sale lines: the "All Orders" report and the settlement report
+ * (flat file V2). Works from the file alone; nothing here talks to Amazon.
+ * Money is in cents; fees are positive.
+ */
+
+export type AmazonReportType = 'all_orders' | 'settlement';
+
+export interface SaleLine {
+  orderId: string;
+  sku: string | null;
+  asin: string | null;              // All Orders only
+  title: string | null;
+  saleDate: string;                 // ISO timestamp
+  quantity: number;
+  salePrice: number;                // item price for all units, before fees
+  fees: number | null;              // null when the report doesn't carry fees (All Orders)
+  raw: Record<string, string>;      // first source row, for the review queue
+}
+
+export interface ParsedReport {
+  reportType: AmazonReportType;
+  lines: SaleLine[];
+  skipped: number;                  // rows that aren't sales (cancelled or pending, refunds, summary rows)
+}
+
+// Parse tab-delimited text into rows keyed by lowercased header
+export function parseFlatFile(text: string): Record<string, string>[] {
+  const [headerLine, ...lines] = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (!headerLine) return [];
+  const headers = headerLine.split('\t').map(h => h.trim().toLowerCase());
+
+  return lines
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      const cells = line.split('\t');
+      return Object.fromEntries(headers.map((h, i) => [h, (cells[i] ?? '').trim()]));
+    });
+}
+
+// Which report a header row belongs to, or null if it's neither
+export function detectReportType(text: string): AmazonReportType | null {
+  const headers = (text.replace(/^\uFEFF/, '').split(/\r?\n/)[0] || '').toLowerCase().split('\t').map(h => h.trim());
+  if (headers.includes('settlement-id') && headers.includes('amount-type')) return 'settlement';
+  if (headers.includes('amazon-order-id') && headers.includes('item-price')) return 'all_orders';
+  return null;
+}
+
+// "12.99", "1,234.50", "-3.45" → cents
+function toCents(value: string | undefined): number {
+  const n = parseFloat((value || '').replace(/,/g, ''));
+  return isNaN(n) ? 0 : Math.round(n * 100);
+}
+
+// Settlement dates come as "2024-09-03 07:00:00 UTC" or "03.09.2024 07:00:00 UTC"
+function toIsoDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const dotted = value.match(/^(\d{2})\.(\d{2})\.(\d{4})(.*)$/);
+  const normalized = (dotted ? `${dotted[3]}-${dotted[2]}-${dotted[1]}${dotted[4]}` : value).replace(/ UTC$/, 'Z').replace(' ', 'T');
+  const time = Date.parse(normalized);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function parseAllOrders(rows: Record<string, string>[]): ParsedReport {
+  const lines: SaleLine[] = [];
+  let skipped = 0;
+
+  for (const row of rows) {
+    const status = (row['order-status'] || '').toLowerCase();
+    const quantity = parseInt(row['quantity'] || '0');
+    // Pending orders (payment not confirmed) can still be cancelled; they're
+    // imported from a later report once they ship
+    if (!row['amazon-order-id'] || status === 'cancelled' || status.startsWith('pending') || quantity < 1) {
+      skipped++;
+      continue;
+    }
+
+    lines.push({
+      orderId: row['amazon-order-id'],
+      sku: row['sku'] || null,
+      asin: row['asin'] || null,
+      title: row['product-name'] || null,
+      saleDate: toIsoDate(row['purchase-date']) ?? new Date().toISOString(),
+      quantity,
+      salePrice: toCents(row['item-price']),
+      fees: null,
+      raw: row,
+    });
+  }
+
+  return { reportType: 'all_orders', lines, skipped };
+}
+
+/**
+ * Settlement reports have one row per amount (principal, shipping, each fee)
+ * for each order item; 'Order' rows are summed per order and SKU. Refunds,
+ * adjustments and the summary row at the top are skipped.
+ */
+function parseSettlement(rows: Record<string, string>[]): ParsedReport {
+  const byItem = new Map<string, SaleLine>();
+  let skipped = 0;
+
+  for (const row of rows) {
+    if (!row['order-id'] || row['transaction-type'] !== 'Order') {
+      skipped++;
+      continue;
+    }
+
+    const key = `${row['order-id']}\t${row['sku']}`;
+    let line = byItem.get(key);
+    if (!line) {
+      line = {
+        orderId: row['order-id'],
+        sku: row['sku'] || null,
+        asin: null,
+        title: null,
+        saleDate: toIsoDate(row['posted-date-time'] || row['posted-date']) ?? new Date().toISOString(),
+        quantity: 0,
+        salePrice: 0,
+        fees: 0,
+        raw: row,
+      };
+      byItem.set(key, line);
+    }
+
+    const amount = toCents(row['amount']);
+    if (row['amount-type'] === 'ItemPrice') {
+      line.salePrice += amount;
+      if (row['amount-description'] === 'Principal') line.quantity += parseInt(row['quantity-purchased'] || '1') || 1;
+    } else if (row['amount-type'] === 'ItemFees' || row['amount-type'] === 'ItemWithheldTax') {
+      line.fees! -= amount;
+    } else if (row['amount-type'] === 'Promotion') {
+      line.salePrice += amount;
+    }
+  }
+
+  const lines = Array.from(byItem.values()).map(line => ({ ...line, quantity: Math.max(line.quantity, 1) }));
+  return { reportType: 'settlement', lines, skipped };
+}
+
+// Parse an uploaded report; returns an error message when the file isn't one we know
+export function parseAmazonReport(text: string, reportType?: AmazonReportType): ParsedReport | string {
+  const type = reportType ?? detectReportType(text);
+  if (!type) return 'Not an Amazon All Orders or settlement flat file (tab-delimited with a header row)';
+
+  const rows = parseFlatFile(text);
+  return type === 'settlement' ? parseSettlement(rows) : parseAllOrders(rows);
+}
@@ -0,0 +1,48 @@
+import { supabase } from './supabase';
+
+/**
+ * Request Authentication
+ * API routes identify the signed-in user from the Supabase access token the
+ * browser sends as `Authorization: Bearer <token>` (see apiFetch).
+ */
+
+export interface AuthUser {
+  id: string;
+  email: string | null;
+}
+
+export async function getRequestUser(request: Request): Promise<AuthUser | null> {
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) return null;
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return { id: data.user.id, email: data.user.email ?? null };
+}
+
+// Emails for user ids, for attributing actions; cached for the instance lifetime
+const emailCache = new Map<string, string | null>();
+
+export async function getUserEmails(ids: string[]): Promise<Map<string, string | null>> {
+  const missing = ids.filter(id => !emailCache.has(id));
+
+  await Promise.all(missing.map(async id => {
+    const { data, error } = await supabase.auth.admin.getUserById(id);
+    if (error) {
+      console.error(`Error looking up user ${id}:`, error.message);
+      return;
+    }
+    emailCache.set(id, data.user?.email ?? null);
+  }));
+
+  return new Map(ids.map(id => [id, emailCache.get(id) ?? null]));
+}
+
+// Schedulers sending `Bearer <CRON_SECRET>`, or any signed-in user
+export async function isCronOrUser(request: Request): Promise<boolean> {
+  const secret = process.env.CRON_SECRET;
+  if (secret && request.headers.get('authorization') === `Bearer ${secret}`) return true;
+  return (await getRequestUser(request)) !== null;
+}
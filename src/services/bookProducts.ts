@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+import type { PriceEstimateMethod } from './keepaApi';
+
+/**
+ * Book Products
+ * One row per ISBN with the Amazon side of an evaluation: ASIN, sell price,
+ * sales rank and weight. Every seller's listing of the ISBN shares it;
+ * decisions and profit stay on the listings (ebay_books) because they
+ * depend on each seller's price. Listings keep a copy of these fields for
+ * the dashboard's filters and sorts.
+ */
+
+export interface BookProduct {
+  isbn: string;
+  asin: string | null;
+  amazonPrice: number | null;               // sell price used for profit, in cents
+  priceEstimate: PriceEstimateMethod | null;
+  targetSellDate: string | null;
+  salesRank: number | null;
+  salesRankDrops30: number | null;
+  salesRankDrops90: number | null;
+  weightOz: number | null;
+  evaluatedAt: string;
+}
+
+export const BOOK_PRODUCTS_TABLE = 'book_products';
+
+interface BookProductRow {
+  isbn: string;
+  asin: string | null;
+  amazon_price: number | null;
+  price_estimate: PriceEstimateMethod | null;
+  target_sell_date: string | null;
+  sales_rank: number | null;
+  sales_rank_drops_30: number | null;
+  sales_rank_drops_90: number | null;
+  weight_oz: number | null;
+  evaluated_at: string;
+}
+
+// Create or refresh the product record for an ISBN
+export async function saveBookProduct(product: Omit<BookProduct, 'evaluatedAt'>): Promise<boolean> {
+  const row: BookProductRow = {
+    isbn: product.isbn,
+    asin: product.asin,
+    amazon_price: product.amazonPrice,
+    price_estimate: product.priceEstimate,
+    target_sell_date: product.targetSellDate,
+    sales_rank: product.salesRank,
+    sales_rank_drops_30: product.salesRankDrops30,
+    sales_rank_drops_90: product.salesRankDrops90,
+    weight_oz: product.weightOz,
+    evaluated_at: new Date().toISOString(),
+  };
+
+  const { error } = await supabase
+    .from(BOOK_PRODUCTS_TABLE)
+    .upsert(row, { onConflict: 'isbn' });
+
+  if (error) {
+    console.error(`Error saving product ${product.isbn}:`, error.message);
+    return false;
+  }
+
+  return true;
+}
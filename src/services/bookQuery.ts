@@ -0,0 +1,354 @@
+import { supabase, EBAY_BOOKS_TABLE, type EbayBook } from './supabase';
+import { getSellers, landedCost } from './sellers';
+import { getUserEmails } from './auth';
+import type { FilterRule, RuleField } from './decisionRules';
+
+/**
+ * Book Query
+ * Server-side filtering, sorting and keyset pagination for the dashboard's
+ * GET /api/books. Filters mirror the dashboard sidebar; money is in cents.
+ */
+
+export type DecisionFilter = 'all' | 'BUY' | 'REVIEW' | 'REJECT' | 'BOUGHT' | 'ENDED';
+export type PriceRange = '0-5' | '5-10' | '10-20' | '20+';
+export type WeightRange = '0-5' | '5-10' | '10-20' | '20+';
+export type FormatFilter = 'Paperback' | 'Hardcover';
+export type BookSort = 'scraped_at' | 'score' | 'fbm_profit' | 'multiplier' | 'price' | 'amazon_price' | 'sales_rank';
+
+export const BOOK_SORTS: BookSort[] = ['scraped_at', 'score', 'fbm_profit', 'multiplier', 'price', 'amazon_price', 'sales_rank'];
+const DECISIONS: DecisionFilter[] = ['all', 'BUY', 'REVIEW', 'REJECT', 'BOUGHT', 'ENDED'];
+const RANGES: PriceRange[] = ['0-5', '5-10', '10-20', '20+'];
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export interface BookQuery {
+  seller: string | null;
+  decision: DecisionFilter;
+  search: string;
+  priceRanges: PriceRange[];       // empty = any price
+  format: FormatFilter | null;
+  weight: WeightRange | null;
+  minProfit: number | null;        // FBM profit floor in cents
+  multiplier: number | null;       // 7 = 7.0x-7.9x (Amazon price / buy price)
+  hasan: boolean;
+  mine: boolean;                   // only books the requesting user bought
+  buyer: string | null;            // user id; set by the route when mine=true
+  sort: BookSort;
+  order: 'asc' | 'desc';
+  cursor: string | null;
+  limit: number;
+}
+
+export interface BookPage {
+  books: EbayBook[];
+  nextCursor: string | null;
+  matching: number | null;         // total rows matching the filters; first page only
+}
+
+// Counts for the dashboard header (one seller, ignoring sidebar filters)
+export interface BookCounts {
+  total: number;
+  buy: number;
+  review: number;
+  reject: number;
+  bought: number;
+  today: number;
+  todayByBuyer: { userId: string | null; email: string | null; count: number }[];
+  sellerBuyCounts: Record<string, number>;
+}
+
+// One seller's listing of a book, for comparing offers across sellers
+export interface BookOffer {
+  id: number;
+  seller: string;
+  price: number;                   // cents
+  shipping: number;                // cents
+  landedCost: number;              // after the seller's coupon, plus all shipping; cents
+  condition: string;
+  decision: EbayBook['decision'];
+  ebayUrl: string;
+}
+
+interface Cursor {
+  v: string | number | null;       // sort column value of the last row
+  id: number;
+}
+
+// Buy price bounds in cents, [min, max)
+const PRICE_BOUNDS: Record<PriceRange, [number | null, number | null]> = {
+  '0-5': [null, 500],
+  '5-10': [500, 1000],
+  '10-20': [1000, 2000],
+  '20+': [2000, null],
+};
+
+// Weight bounds in ounces, [min, max); 0-5 lbs excludes unknown (0) weights
+const WEIGHT_BOUNDS: Record<WeightRange, [number, number | null]> = {
+  '0-5': [0.01, 80],
+  '5-10': [80, 160],
+  '10-20': [160, 320],
+  '20+': [320, null],
+};
+
+// Rule fields that have a column to filter on
+const RULE_FIELD_COLUMNS: Partial<Record<RuleField, string>> = {
+  profit: 'best_profit',
+  roi: 'best_roi',
+  salesRank: 'sales_rank',
+  salesDrops30: 'sales_rank_drops_30',
+  amazonPrice: 'amazon_price',
+  buyPrice: 'price',
+  multiplier: 'multiplier',
+};
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString());
+    return typeof cursor.id === 'number' ? cursor : null;
+  } catch {
+    return null;
+  }
+}
+
+// Quote a value for a PostgREST or() filter
+function quote(value: string | number): string {
+  return typeof value === 'number' ? String(value) : `"${value.replace(/["\\]/g, '')}"`;
+}
+
+function parseNumber(value: string | null): number | null {
+  if (value === null || value.trim() === '') return null;
+  const n = parseFloat(value);
+  return isNaN(n) ? null : n;
+}
+
+// Parse GET /api/books query params; returns an error message when invalid
+export function parseBookQuery(params: URLSearchParams): BookQuery | string {
+  const decision = (params.get('decision') || 'all') as DecisionFilter;
+  if (!DECISIONS.includes(decision)) return `decision must be one of ${DECISIONS.join(', ')}`;
+
+  const priceRanges = (params.get('price') || '').split(',').filter(Boolean) as PriceRange[];
+  if (priceRanges.some(r => !RANGES.includes(r))) return `price must be a comma-separated list of ${RANGES.join(', ')}`;
+
+  const format = params.get('format') as FormatFilter | null;
+  if (format && format !== 'Paperback' && format !== 'Hardcover') return 'format must be Paperback or Hardcover';
+
+  const weight = params.get('weight') as WeightRange | null;
+  if (weight && !RANGES.includes(weight)) return `weight must be one of ${RANGES.join(', ')}`;
+
+  const sort = (params.get('sort') || 'scraped_at') as BookSort;
+  if (!BOOK_SORTS.includes(sort)) return `sort must be one of ${BOOK_SORTS.join(', ')}`;
+
+  const order = params.get('order') || 'desc';
+  if (order !== 'asc' && order !== 'desc') return 'order must be asc or desc';
+
+  const limit = parseNumber(params.get('limit')) ?? DEFAULT_PAGE_SIZE;
+  if (limit < 1 || limit > MAX_PAGE_SIZE) return `limit must be between 1 and ${MAX_PAGE_SIZE}`;
+
+  return {
+    seller: params.get('seller'),
+    decision,
+    search: (params.get('q') || '').trim(),
+    priceRanges,
+    format,
+    weight,
+    minProfit: parseNumber(params.get('minProfit')),
+    multiplier: parseNumber(params.get('multiplier')),
+    hasan: params.get('hasan') === 'true',
+    mine: params.get('mine') === 'true',
+    buyer: null,
+    sort,
+    order,
+    cursor: params.get('cursor'),
+    limit: Math.floor(limit),
+  };
+}
+
+/**
+ * One page of books matching the query, ordered by the sort column (nulls
+ * last) then id. hasanRule is the active rule set's Hasan filter.
+ */
+export async function queryBooks(query: BookQuery, hasanRule?: FilterRule): Promise<BookPage> {
+  const cursor = query.cursor ? decodeCursor(query.cursor) : null;
+  if (query.cursor && !cursor) throw new Error('Invalid cursor');
+
+  let q = supabase
+    .from(EBAY_BOOKS_TABLE)
+    .select('*', cursor ? {} : { count: 'exact' });
+
+  // PostgREST allows one or= per request, so OR-groups are ANDed inside it
+  const orGroups: string[] = [];
+
+  if (query.seller) q = q.eq('seller', query.seller);
+  if (query.buyer) q = q.eq('user_id', query.buyer).eq('decision', 'BOUGHT');
+  else if (query.decision !== 'all') q = q.eq('decision', query.decision);
+  // Sold/ended listings only show when asked for
+  else orGroups.push('decision.is.null,decision.neq.ENDED');
+
+  if (query.search) {
+    const term = query.search.replace(/[,()"\\*%]/g, ' ').trim();
+    if (term) orGroups.push(`title.ilike.${quote(`*${term}*`)},isbn.ilike.${quote(`*${term}*`)}`);
+  }
+
+  if (query.priceRanges.length > 0) {
+    orGroups.push(query.priceRanges.map(range => {
+      const [min, max] = PRICE_BOUNDS[range];
+      const bounds = [min !== null ? `price.gte.${min}` : null, max !== null ? `price.lt.${max}` : null].filter(Boolean);
+      return bounds.length === 1 ? bounds[0] : `and(${bounds.join(',')})`;
+    }).join(','));
+  }
+
+  if (query.format === 'Paperback') orGroups.push('book_type.ilike.*paper*,book_type.ilike.*soft*');
+  if (query.format === 'Hardcover') q = q.ilike('book_type', '%hard%');
+
+  if (query.weight) {
+    const [min, max] = WEIGHT_BOUNDS[query.weight];
+    q = q.gte('weight_oz', min);
+    if (max !== null) q = q.lt('weight_oz', max);
+  }
+
+  if (query.minProfit !== null) q = q.gte('fbm_profit', query.minProfit);
+
+  if (query.multiplier !== null) {
+    q = q.gte('multiplier', query.multiplier).lt('multiplier', query.multiplier + 1);
+  }
+
+  if (query.hasan && hasanRule) {
+    for (const condition of hasanRule.when) {
+      const column = RULE_FIELD_COLUMNS[condition.field];
+      if (!column) {
+        console.warn(`Hasan filter field ${condition.field} has no column; ignoring`);
+        continue;
+      }
+      q = q.filter(column, condition.op, condition.value);
+    }
+  }
+
+  // Keyset pagination: rows after the cursor in (sort value, id) order, nulls last
+  const ascending = query.order === 'asc';
+  if (cursor) {
+    const cmp = ascending ? 'gt' : 'lt';
+    if (cursor.v === null) {
+      q = q.is(query.sort, null)[cmp]('id', cursor.id);
+    } else {
+      const v = quote(cursor.v);
+      orGroups.push(`${query.sort}.${cmp}.${v},and(${query.sort}.eq.${v},id.${cmp}.${cursor.id}),${query.sort}.is.null`);
+    }
+  }
+
+  if (orGroups.length === 1) q = q.or(orGroups[0]);
+  else if (orGroups.length > 1) q = q.or(`and(${orGroups.map(group => `or(${group})`).join(',')})`);
+
+  const { data, error, count } = await q
+    .order(query.sort, { ascending, nullsFirst: false })
+    .order('id', { ascending })
+    .limit(query.limit + 1);
+
+  if (error) {
+    throw new Error(`Error querying books: ${error.message}`);
+  }
+
+  const rows: EbayBook[] = data || [];
+  const books = rows.slice(0, query.limit);
+  const last = books[books.length - 1];
+  const nextCursor = rows.length > query.limit && last
+    ? encodeCursor({ v: (last as unknown as Record<string, string | number | null>)[query.sort], id: last.id! })
+    : null;
+
+  return { books, nextCursor, matching: cursor ? null : count };
+}
+
+// Header counts for one seller plus BUY counts for every active seller
+export async function getBookCounts(seller: string | null): Promise<BookCounts> {
+  const sellers = await getSellers();
+  const count = () => {
+    const q = supabase.from(EBAY_BOOKS_TABLE).select('*', { count: 'exact', head: true });
+    return seller ? q.eq('seller', seller) : q;
+  };
+  const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+
+  const todayBuyers = supabase.from(EBAY_BOOKS_TABLE).select('user_id').gte('bought_at', twentyFourHoursAgo);
+
+  const [totalRes, buyRes, reviewRes, rejectRes, boughtRes, todayRes, todayBuyersRes, ...sellerRes] = await Promise.all([
+    count(),
+    count().eq('decision', 'BUY'),
+    count().eq('decision', 'REVIEW'),
+    count().eq('decision', 'REJECT'),
+    count().eq('decision', 'BOUGHT'),
+    count().gte('bought_at', twentyFourHoursAgo),
+    seller ? todayBuyers.eq('seller', seller) : todayBuyers,
+    ...sellers.map(s =>
+      supabase.from(EBAY_BOOKS_TABLE).select('*', { count: 'exact', head: true }).eq('seller', s.id).eq('decision', 'BUY')
+    ),
+  ]);
+
+  // Today's buys per buyer (null = bought before accounts existed)
+  const perBuyer = new Map<string | null, number>();
+  for (const row of (todayBuyersRes.data || []) as { user_id: string | null }[]) {
+    perBuyer.set(row.user_id, (perBuyer.get(row.user_id) ?? 0) + 1);
+  }
+  const emails = await getUserEmails(Array.from(perBuyer.keys()).filter((id): id is string => id !== null));
+
+  return {
+    total: totalRes.count || 0,
+    buy: buyRes.count || 0,
+    review: reviewRes.count || 0,
+    reject: rejectRes.count || 0,
+    bought: boughtRes.count || 0,
+    today: todayRes.count || 0,
+    todayByBuyer: Array.from(perBuyer.entries())
+      .map(([userId, n]) => ({ userId, email: userId ? emails.get(userId) ?? null : null, count: n }))
+      .sort((a, b) => b.count - a.count),
+    sellerBuyCounts: Object.fromEntries(sellers.map((s, i) => [s.id, sellerRes[i].count || 0])),
+  };
+}
+
+/**
+ * Every active seller's live (not ENDED) listing of these ISBNs, keyed by
+ * ISBN and sorted cheapest landed cost first. Lets the dashboard show one
+ * card per book with all its offers, whatever seller tab or filters found it.
+ */
+export async function getOffers(isbns: string[]): Promise<Record<string, BookOffer[]>> {
+  const offers: Record<string, BookOffer[]> = {};
+  if (isbns.length === 0) return offers;
+
+  const [sellers, { data, error }] = await Promise.all([
+    getSellers(),
+    supabase
+      .from(EBAY_BOOKS_TABLE)
+      .select('id, isbn, seller, price, shipping, condition, decision, ebay_url')
+      .in('isbn', isbns),
+  ]);
+
+  if (error) {
+    console.error('Error loading offers:', error.message);
+    return offers;
+  }
+
+  const sellerById = new Map(sellers.map(seller => [seller.id, seller]));
+  for (const row of data || []) {
+    const seller = sellerById.get(row.seller);
+    if (!seller || row.decision === 'ENDED') continue;
+    const offer: BookOffer = {
+      id: row.id,
+      seller: row.seller,
+      price: row.price,
+      shipping: row.shipping ?? 0,
+      landedCost: landedCost(row.price, row.shipping ?? 0, seller),
+      condition: row.condition,
+      decision: row.decision,
+      ebayUrl: row.ebay_url,
+    };
+    if (offers[row.isbn]) offers[row.isbn].push(offer);
+    else offers[row.isbn] = [offer];
+  }
+
+  for (const list of Object.values(offers)) {
+    list.sort((a, b) => a.landedCost - b.landedCost || a.id - b.id);
+  }
+  return offers;
+}
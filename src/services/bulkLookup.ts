@@ -0,0 +1,164 @@
+import { calculateFees, type PriceEstimateMethod } from './keepaApi';
+import { isbn10to13, validateIsbn } from './isbn';
+import { getCachedProductsByIsbns } from './keepaCache';
+import { getActiveFeeProfile } from './feeProfiles';
+import { getActiveRuleSet } from './decisionRuleSets';
+import { evaluateRules, type Decision } from './decisionRules';
+import { buildDecisionInputs, selectSellPrice, type EvaluationOptions, DEFAULT_EVALUATION_OPTIONS } from './evaluator';
+
+/**
+ * Bulk Lookup
+ * Prices a supplier list of ISBN + asking price (pasted or a CSV) the same
+ * way eBay listings are evaluated: Keepa through the cache, the active fee
+ * profile and the team's decision rules. Nothing is saved.
+ */
+
+export const MAX_BULK_LINES = 1000;
+
+export interface BulkLookupLine {
+  line: number;                     // 1-based line number in the input
+  input: string;
+  isbn: string | null;              // normalised ISBN-13 (ISBN-10 kept when it has no 978 form)
+  cost: number | null;              // asking price in cents
+  error: string | null;
+}
+
+export interface BulkLookupResult extends BulkLookupLine {
+  title: string | null;
+  asin: string | null;
+  amazonPrice: number | null;       // sell price used for profit, in cents
+  priceEstimate: PriceEstimateMethod | null;
+  salesRank: number | null;
+  salesRankDrops90: number | null;
+  fbaProfit: number | null;         // in cents
+  fbmProfit: number | null;         // in cents
+  fbaRoi: number | null;            // percentage
+  score: number | null;
+  decision: Decision | null;        // null for lines with an error
+  reason: string | null;
+}
+
+// Cost in cents from "12.50", "$12.50" or "12,50"; null when not a price
+function parseCost(text: string): number | null {
+  const clean = text.replace(/[$\s"]/g, '').replace(/^(\d+),(\d{1,2})$/, '$1.$2');
+  if (!/^\d+(\.\d+)?$/.test(clean)) return null;
+  return Math.round(parseFloat(clean) * 100);
+}
+
+// ISBN and cost fields of a line: tab, semicolon (where "3,50" is a price) or
+// comma separated columns, or "isbn cost" separated by a space
+function splitFields(input: string): string[] {
+  const separator = ['\t', ';', ','].find(s => input.includes(s));
+  const fields = separator ? input.split(separator) : input.split(/\s+(?=\S+$)/);
+  return fields.map(field => field.trim().replace(/^"|"$/g, ''));
+}
+
+/**
+ * Split pasted text or CSV into ISBN + cost lines. Fields may be separated by
+ * commas, semicolons, tabs or spaces; a header row (no digits in the first
+ * field) is skipped. Each line is validated on its own.
+ */
+export function parseBulkInput(text: string): BulkLookupLine[] | string {
+  const rows = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const lines: BulkLookupLine[] = [];
+
+  rows.forEach((row, index) => {
+    const input = row.trim();
+    if (!input) return;
+
+    const [rawIsbn = '', rawCost = ''] = splitFields(input);
+    if (index === 0 && !/\d/.test(rawIsbn)) return;
+
+    const line: BulkLookupLine = { line: index + 1, input, isbn: null, cost: null, error: null };
+    const clean = rawIsbn.replace(/[-\s]/g, '').toUpperCase();
+    const validation = validateIsbn(clean);
+    if (!validation.valid) {
+      line.error = validation.error ?? 'Invalid ISBN';
+    } else {
+      line.isbn = clean.length === 10 ? isbn10to13(clean) ?? clean : clean;
+      line.cost = parseCost(rawCost);
+      if (line.cost === null) line.error = rawCost ? `"${rawCost}" is not a price` : 'Cost is missing';
+    }
+    lines.push(line);
+  });
+
+  if (lines.length === 0) return 'No ISBNs found';
+  if (lines.length > MAX_BULK_LINES) return `At most ${MAX_BULK_LINES} lines per lookup (got ${lines.length})`;
+  return lines;
+}
+
+function emptyResult(line: BulkLookupLine): BulkLookupResult {
+  return {
+    ...line,
+    title: null,
+    asin: null,
+    amazonPrice: null,
+    priceEstimate: null,
+    salesRank: null,
+    salesRankDrops90: null,
+    fbaProfit: null,
+    fbmProfit: null,
+    fbaRoi: null,
+    score: null,
+    decision: null,
+    reason: null,
+  };
+}
+
+/**
+ * Look up and decide every valid line, in input order. One Keepa request
+ * covers up to 100 uncached ISBNs. Throws on Keepa errors (e.g. out of tokens).
+ */
+export async function runBulkLookup(
+  lines: BulkLookupLine[],
+  options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS
+): Promise<BulkLookupResult[]> {
+  const isbns = Array.from(new Set(lines.filter(line => !line.error).map(line => line.isbn!)));
+  if (isbns.length === 0) return lines.map(emptyResult);
+
+  const [feeProfile, ruleSet, lookup] = await Promise.all([
+    getActiveFeeProfile(),
+    getActiveRuleSet(),
+    getCachedProductsByIsbns(isbns),
+  ]);
+
+  return lines.map(line => {
+    const result = emptyResult(line);
+    if (line.error) return result;
+
+    const product = lookup.products.get(line.isbn!)?.product ?? null;
+    if (!product || !product.buyBoxPrice) {
+      result.title = product?.title ?? null;
+      result.asin = product?.asin ?? null;
+      result.decision = 'REJECT';
+      result.score = 0;
+      result.reason = product ? 'No buy box price on Amazon' : 'Not found on Amazon';
+      return result;
+    }
+
+    const sellPrice = selectSellPrice(product, options);
+    const amazonPrice = sellPrice.price ?? product.buyBoxPrice;
+    const fees = calculateFees(line.cost!, amazonPrice, {
+      profile: feeProfile,
+      weightOz: product.weightOz,
+      dimensions: product.dimensions,
+    });
+    const decision = evaluateRules(ruleSet, buildDecisionInputs(product, fees, line.cost!, amazonPrice));
+
+    return {
+      ...result,
+      title: product.title,
+      asin: product.asin,
+      amazonPrice,
+      priceEstimate: sellPrice.method,
+      salesRank: product.salesRank,
+      salesRankDrops90: product.salesRankDrops90,
+      fbaProfit: fees.fbaProfit,
+      fbmProfit: fees.fbmProfit,
+      fbaRoi: fees.fbaRoi,
+      score: decision.score,
+      decision: decision.decision,
+      reason: decision.reason,
+    };
+  });
+}
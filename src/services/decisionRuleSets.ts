@@ -0,0 +1,97 @@
+import { supabase } from './supabase';
+import { DEFAULT_RULE_SET, DEFAULT_TEAM_ID, type DecisionRules, type DecisionRuleSet } from './decisionRules';
+
+/**
+ * Decision Rule Sets
+ * Versioned rule sets per team in the decision_rule_sets table. Saving always
+ * creates a new version; the latest version is the one evaluations use.
+ */
+
+export const DECISION_RULE_SETS_TABLE = 'decision_rule_sets';
+
+interface DecisionRuleSetRow {
+  id: number;
+  team_id: string;
+  version: number;
+  rules: DecisionRules;
+  created_at: string;
+}
+
+function rowToRuleSet(row: DecisionRuleSetRow): DecisionRuleSet {
+  return {
+    ...DEFAULT_RULE_SET,
+    ...row.rules,
+    id: row.id,
+    teamId: row.team_id,
+    version: row.version,
+    createdAt: row.created_at,
+  };
+}
+
+// All versions for a team, newest first
+export async function getRuleSetVersions(teamId: string = DEFAULT_TEAM_ID): Promise<DecisionRuleSet[]> {
+  const { data, error } = await supabase
+    .from(DECISION_RULE_SETS_TABLE)
+    .select('*')
+    .eq('team_id', teamId)
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error(`Error fetching rule sets for team ${teamId}:`, error.message);
+    return [];
+  }
+
+  return (data || []).map(rowToRuleSet);
+}
+
+// Latest version for a team; falls back to DEFAULT_RULE_SET when none is saved
+export async function getActiveRuleSet(teamId: string = DEFAULT_TEAM_ID): Promise<DecisionRuleSet> {
+  const { data, error } = await supabase
+    .from(DECISION_RULE_SETS_TABLE)
+    .select('*')
+    .eq('team_id', teamId)
+    .order('version', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error(`Error fetching active rule set for team ${teamId}:`, error.message);
+    return { ...DEFAULT_RULE_SET, teamId };
+  }
+
+  return data && data.length > 0 ? rowToRuleSet(data[0]) : { ...DEFAULT_RULE_SET, teamId };
+}
+
+// Save rules as the team's next version
+export async function createRuleSetVersion(teamId: string, rules: DecisionRules): Promise<DecisionRuleSet | null> {
+  const { data: latest } = await supabase
+    .from(DECISION_RULE_SETS_TABLE)
+    .select('version')
+    .eq('team_id', teamId)
+    .order('version', { ascending: false })
+    .limit(1);
+
+  const version = latest && latest.length > 0 ? latest[0].version + 1 : 1;
+
+  const { data, error } = await supabase
+    .from(DECISION_RULE_SETS_TABLE)
+    .insert({
+      team_id: teamId,
+      version,
+      rules: {
+        baseScore: rules.baseScore,
+        knockouts: rules.knockouts,
+        scoreRules: rules.scoreRules,
+        thresholds: rules.thresholds,
+        filters: rules.filters ?? [],
+      },
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error saving rule set for team ${teamId}:`, error.message);
+    return null;
+  }
+
+  return rowToRuleSet(data);
+}
@@ -0,0 +1,296 @@
+/**
+ * Decision Rules
+ * Declarative knockout and scoring rules that turn a priced book into
+ * BUY / REVIEW / REJECT. Rule sets are plain JSON so teams can edit them;
+ * DEFAULT_RULE_SET reproduces the original hardcoded makeDecision.
+ *
+ * This module is pure (no database access) so the dashboard can import it.
+ */
+
+export type Decision = 'BUY' | 'REVIEW' | 'REJECT';
+
+// Values a rule can test. Money is in cents, ROI in percent.
+export interface DecisionInputs {
+  profit: number;
+  roi: number;
+  salesRank: number | null;
+  salesDrops30: number | null;
+  fbaCount: number | null;
+  isAmazon: boolean;
+  amazonPrice: number | null;
+  buyPrice: number | null;
+}
+
+export type RuleField = keyof DecisionInputs | 'multiplier';
+export type RuleOperator = 'lt' | 'lte' | 'gt' | 'gte' | 'eq' | 'neq';
+
+export const RULE_FIELDS: RuleField[] = [
+  'profit', 'roi', 'salesRank', 'salesDrops30', 'fbaCount', 'isAmazon', 'amazonPrice', 'buyPrice', 'multiplier',
+];
+export const RULE_OPERATORS: RuleOperator[] = ['lt', 'lte', 'gt', 'gte', 'eq', 'neq'];
+
+// A condition on a missing (null) value never matches
+export interface RuleCondition {
+  field: RuleField;
+  op: RuleOperator;
+  value: number | boolean;
+}
+
+// Rejects the book when every condition matches
+export interface KnockoutRule {
+  id: string;
+  label: string;
+  when: RuleCondition[];
+}
+
+// Adds points when every condition matches. Within a group only the first
+// matching rule counts, which is how tiered bonuses are expressed.
+export interface ScoreRule {
+  id: string;
+  label: string;
+  when: RuleCondition[];
+  points: number;
+  group?: string;
+}
+
+// Named dashboard filter, e.g. the Hasan filter
+export interface FilterRule {
+  id: string;
+  label: string;
+  when: RuleCondition[];
+}
+
+export interface DecisionRules {
+  baseScore: number;
+  knockouts: KnockoutRule[];
+  scoreRules: ScoreRule[];
+  thresholds: { buy: number; review: number };
+  filters: FilterRule[];
+}
+
+export interface DecisionRuleSet extends DecisionRules {
+  id: number | null;           // null for the built-in default
+  teamId: string;
+  version: number;
+  createdAt: string | null;
+}
+
+export interface KnockoutCheck {
+  id: string;
+  label: string;
+  fired: boolean;
+}
+
+export interface ScoreComponent {
+  id: string;
+  label: string;
+  group?: string;
+  points: number;
+}
+
+// Everything needed to explain a decision after the fact; saved with the book
+export interface DecisionExplanation {
+  ruleSetId: number | null;
+  ruleSetVersion: number;
+  inputs: (DecisionInputs & { multiplier: number | null }) | null;   // null when not found on Amazon
+  knockouts: KnockoutCheck[];           // in order, up to the one that fired
+  baseScore: number;
+  scoreComponents: ScoreComponent[];    // score rules that applied
+  rawScore: number;                     // before clamping to 0-100
+  score: number;
+  thresholds: { buy: number; review: number };
+  decision: Decision;
+  reason: string;
+}
+
+export interface RuleDecision {
+  decision: Decision;
+  reason: string;
+  score: number;
+  ruleSetId: number | null;
+  ruleSetVersion: number;
+  firedRules: string[];        // ids of the knockout or score rules that applied
+  explanation: DecisionExplanation;
+}
+
+export const DEFAULT_TEAM_ID = 'default';
+
+export const DEFAULT_RULES: DecisionRules = {
+  baseScore: 50,
+  knockouts: [
+    { id: 'min_profit', label: 'Profit below $3', when: [{ field: 'profit', op: 'lt', value: 300 }] },
+    { id: 'min_roi', label: 'ROI below 30%', when: [{ field: 'roi', op: 'lt', value: 30 }] },
+    { id: 'max_rank', label: 'Rank too high (>3M)', when: [{ field: 'salesRank', op: 'gt', value: 3000000 }] },
+    { id: 'min_velocity', label: 'No sales velocity', when: [{ field: 'salesDrops30', op: 'lt', value: 2 }] },
+    { id: 'amazon_selling', label: 'Amazon is selling', when: [{ field: 'isAmazon', op: 'eq', value: true }] },
+  ],
+  scoreRules: [
+    { id: 'profit_10', label: 'Profit $10+', group: 'profit', points: 20, when: [{ field: 'profit', op: 'gte', value: 1000 }] },
+    { id: 'profit_5', label: 'Profit $5+', group: 'profit', points: 10, when: [{ field: 'profit', op: 'gte', value: 500 }] },
+    { id: 'roi_100', label: 'ROI 100%+', group: 'roi', points: 15, when: [{ field: 'roi', op: 'gte', value: 100 }] },
+    { id: 'roi_50', label: 'ROI 50%+', group: 'roi', points: 10, when: [{ field: 'roi', op: 'gte', value: 50 }] },
+    { id: 'rank_100k', label: 'Rank under 100K', group: 'rank', points: 15, when: [{ field: 'salesRank', op: 'lt', value: 100000 }] },
+    { id: 'rank_500k', label: 'Rank under 500K', group: 'rank', points: 10, when: [{ field: 'salesRank', op: 'lt', value: 500000 }] },
+    { id: 'rank_1m', label: 'Rank under 1M', group: 'rank', points: 5, when: [{ field: 'salesRank', op: 'lt', value: 1000000 }] },
+    { id: 'velocity_10', label: '10+ sales/mo', group: 'velocity', points: 10, when: [{ field: 'salesDrops30', op: 'gte', value: 10 }] },
+    { id: 'velocity_5', label: '5+ sales/mo', group: 'velocity', points: 5, when: [{ field: 'salesDrops30', op: 'gte', value: 5 }] },
+    { id: 'competition_10', label: 'More than 10 FBA offers', group: 'competition', points: -10, when: [{ field: 'fbaCount', op: 'gt', value: 10 }] },
+    { id: 'competition_5', label: 'More than 5 FBA offers', group: 'competition', points: -5, when: [{ field: 'fbaCount', op: 'gt', value: 5 }] },
+  ],
+  thresholds: { buy: 70, review: 50 },
+  filters: [
+    {
+      id: 'hasan',
+      label: 'Hasan Filter',
+      when: [
+        { field: 'multiplier', op: 'gte', value: 5 },
+        { field: 'amazonPrice', op: 'gte', value: 3000 },
+      ],
+    },
+  ],
+};
+
+export const DEFAULT_RULE_SET: DecisionRuleSet = {
+  ...DEFAULT_RULES,
+  id: null,
+  teamId: DEFAULT_TEAM_ID,
+  version: 0,
+  createdAt: null,
+};
+
+function multiplier(inputs: DecisionInputs): number | null {
+  return inputs.amazonPrice && inputs.buyPrice && inputs.buyPrice > 0 ? inputs.amazonPrice / inputs.buyPrice : null;
+}
+
+function fieldValue(inputs: DecisionInputs, field: RuleField): number | boolean | null {
+  if (field === 'multiplier') return multiplier(inputs);
+  return inputs[field];
+}
+
+export function matchesCondition(inputs: DecisionInputs, condition: RuleCondition): boolean {
+  const actual = fieldValue(inputs, condition.field);
+  if (actual === null) return false;
+
+  switch (condition.op) {
+    case 'eq': return actual === condition.value;
+    case 'neq': return actual !== condition.value;
+    case 'lt': return actual < condition.value;
+    case 'lte': return actual <= condition.value;
+    case 'gt': return actual > condition.value;
+    case 'gte': return actual >= condition.value;
+  }
+}
+
+export function matchesConditions(inputs: DecisionInputs, conditions: RuleCondition[]): boolean {
+  return conditions.every(condition => matchesCondition(inputs, condition));
+}
+
+export function evaluateRules(ruleSet: DecisionRuleSet, inputs: DecisionInputs): RuleDecision {
+  const meta = { ruleSetId: ruleSet.id, ruleSetVersion: ruleSet.version };
+  const explanation: DecisionExplanation = {
+    ...meta,
+    inputs: { ...inputs, multiplier: multiplier(inputs) },
+    knockouts: [],
+    baseScore: ruleSet.baseScore,
+    scoreComponents: [],
+    rawScore: 0,
+    score: 0,
+    thresholds: ruleSet.thresholds,
+    decision: 'REJECT',
+    reason: '',
+  };
+
+  // Knockout filters
+  for (const rule of ruleSet.knockouts) {
+    const fired = matchesConditions(inputs, rule.when);
+    explanation.knockouts.push({ id: rule.id, label: rule.label, fired });
+    if (fired) {
+      explanation.reason = rule.label;
+      return { decision: 'REJECT', reason: rule.label, score: 0, firedRules: [rule.id], ...meta, explanation };
+    }
+  }
+
+  // Calculate score
+  let score = ruleSet.baseScore;
+  const firedRules: string[] = [];
+  const usedGroups = new Set<string>();
+
+  for (const rule of ruleSet.scoreRules) {
+    if (rule.group && usedGroups.has(rule.group)) continue;
+    if (!matchesConditions(inputs, rule.when)) continue;
+    score += rule.points;
+    firedRules.push(rule.id);
+    explanation.scoreComponents.push({ id: rule.id, label: rule.label, group: rule.group, points: rule.points });
+    if (rule.group) usedGroups.add(rule.group);
+  }
+
+  explanation.rawScore = score;
+  score = Math.min(100, Math.max(0, score));
+
+  const [decision, reason]: [Decision, string] =
+    score >= ruleSet.thresholds.buy ? ['BUY', 'Strong opportunity']
+    : score >= ruleSet.thresholds.review ? ['REVIEW', 'Needs review']
+    : ['REJECT', 'Below threshold'];
+
+  Object.assign(explanation, { score, decision, reason });
+  return { decision, reason, score, firedRules, ...meta, explanation };
+}
+
+// Explanation for books that never reached the rules (no Amazon match or buy box)
+export function notFoundExplanation(ruleSet: DecisionRuleSet): DecisionExplanation {
+  const reason = 'Not found on Amazon';
+  return {
+    ruleSetId: ruleSet.id,
+    ruleSetVersion: ruleSet.version,
+    inputs: null,
+    knockouts: [{ id: 'not_found', label: reason, fired: true }],
+    baseScore: ruleSet.baseScore,
+    scoreComponents: [],
+    rawScore: 0,
+    score: 0,
+    thresholds: ruleSet.thresholds,
+    decision: 'REJECT',
+    reason,
+  };
+}
+
+function validateConditions(conditions: unknown, path: string): string | null {
+  if (!Array.isArray(conditions) || conditions.length === 0) return `${path}.when must be a non-empty array`;
+  for (let i = 0; i < conditions.length; i++) {
+    const c = conditions[i] as Partial<RuleCondition>;
+    if (!c || !RULE_FIELDS.includes(c.field as RuleField)) return `${path}.when[${i}].field must be one of ${RULE_FIELDS.join(', ')}`;
+    if (!RULE_OPERATORS.includes(c.op as RuleOperator)) return `${path}.when[${i}].op must be one of ${RULE_OPERATORS.join(', ')}`;
+    if (typeof c.value !== 'number' && typeof c.value !== 'boolean') return `${path}.when[${i}].value must be a number or boolean`;
+  }
+  return null;
+}
+
+function validateRuleList(rules: unknown, path: string, withPoints: boolean): string | null {
+  if (!Array.isArray(rules)) return `${path} must be an array`;
+  const ids = new Set<string>();
+  for (let i = 0; i < rules.length; i++) {
+    const rule = rules[i] as Partial<ScoreRule>;
+    if (!rule || typeof rule.id !== 'string' || !rule.id) return `${path}[${i}].id is required`;
+    if (ids.has(rule.id)) return `${path}[${i}].id "${rule.id}" is duplicated`;
+    ids.add(rule.id);
+    if (typeof rule.label !== 'string' || !rule.label) return `${path}[${i}].label is required`;
+    if (withPoints && typeof rule.points !== 'number') return `${path}[${i}].points must be a number`;
+    if (rule.group !== undefined && typeof rule.group !== 'string') return `${path}[${i}].group must be a string`;
+    const error = validateConditions(rule.when, `${path}[${i}]`);
+    if (error) return error;
+  }
+  return null;
+}
+
+// Returns an error message, or null when the rules are well-formed
+export function validateDecisionRules(rules: Partial<DecisionRules>): string | null {
+  if (typeof rules.baseScore !== 'number') return 'baseScore must be a number';
+  if (!rules.thresholds || typeof rules.thresholds.buy !== 'number' || typeof rules.thresholds.review !== 'number') {
+    return 'thresholds.buy and thresholds.review must be numbers';
+  }
+  if (rules.thresholds.review > rules.thresholds.buy) return 'thresholds.review must not exceed thresholds.buy';
+
+  return validateRuleList(rules.knockouts, 'knockouts', false)
+    ?? validateRuleList(rules.scoreRules, 'scoreRules', true)
+    ?? validateRuleList(rules.filters ?? [], 'filters', false);
+}
@@ -0,0 +1,198 @@
+/**
+ * eBay Browse API Service (Server-side)
+ * Application-token (client credentials) access to seller storefront listings.
+ * EBAY_API_BASE points the client at another host, e.g. the recorded-fixture
+ * stub in scripts/ebay-stub-server.mjs.
+ */
+
+import { isbn10to13, validateIsbn } from './isbn';
+
+const EBAY_API_BASE = (process.env.EBAY_API_BASE || 'https://api.ebay.com').replace(/\/$/, '');
+const EBAY_CLIENT_ID = process.env.EBAY_CLIENT_ID || '';
+const EBAY_CLIENT_SECRET = process.env.EBAY_CLIENT_SECRET || '';
+const EPN_CAMPAIGN_ID = process.env.EPN_CAMPAIGN_ID || '';
+
+const MARKETPLACE_ID = 'EBAY_US';
+const BOOKS_CATEGORY_ID = '267';          // Books & Magazines
+const OAUTH_SCOPE = 'https://api.ebay.com/oauth/api_scope';
+
+export const MAX_SEARCH_LIMIT = 200;      // Browse API page size cap
+const MAX_ITEMS_PER_GET = 20;             // getItems accepts up to 20 ids
+
+interface EbayAmount {
+  value: string;
+  currency: string;
+}
+
+export interface EbayItemSummary {
+  itemId: string;                         // RESTful id, e.g. v1|123456789012|0
+  legacyItemId?: string;
+  title: string;
+  price?: EbayAmount;
+  condition?: string;
+  categories?: { categoryId: string; categoryName?: string }[];
+  image?: { imageUrl: string };
+  itemWebUrl: string;
+  itemAffiliateWebUrl?: string;
+  seller?: { username: string };
+  shippingOptions?: { shippingCostType?: string; shippingCost?: EbayAmount }[];
+}
+
+export interface EbayItem extends EbayItemSummary {
+  gtin?: string;
+  estimatedAvailabilities?: { estimatedAvailabilityStatus?: string; estimatedAvailableQuantity?: number }[];
+  itemEndDate?: string;
+  epid?: string;
+  localizedAspects?: { name: string; value: string }[];
+  categoryPath?: string;
+}
+
+interface SearchResponse {
+  total: number;
+  next?: string;
+  itemSummaries?: EbayItemSummary[];
+}
+
+let cachedToken: { token: string; expiresAt: number } | null = null;
+
+// Application access token, cached until a minute before it expires
+async function getAccessToken(): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) return cachedToken.token;
+  if (!EBAY_CLIENT_ID || !EBAY_CLIENT_SECRET) {
+    throw new Error('EBAY_CLIENT_ID and EBAY_CLIENT_SECRET must be set');
+  }
+
+  const response = await fetch(`${EBAY_API_BASE}/identity/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${Buffer.from(`${EBAY_CLIENT_ID}:${EBAY_CLIENT_SECRET}`).toString('base64')}`,
+    },
+    body: new URLSearchParams({ grant_type: 'client_credentials', scope: OAUTH_SCOPE }),
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.access_token) {
+    throw new Error(`eBay OAuth error: ${data?.error_description || response.status}`);
+  }
+
+  cachedToken = { token: data.access_token, expiresAt: Date.now() + (data.expires_in ?? 7200) * 1000 };
+  return cachedToken.token;
+}
+
+// With notFound given, a 404 returns it instead of throwing
+async function browseRequest<T>(path: string, params: Record<string, string>, notFound?: T): Promise<T> {
+  const token = await getAccessToken();
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${token}`,
+    'X-EBAY-C-MARKETPLACE-ID': MARKETPLACE_ID,
+  };
+  // With a campaign id eBay returns itemAffiliateWebUrl for EPN tracking
+  if (EPN_CAMPAIGN_ID) headers['X-EBAY-C-ENDUSERCTX'] = `affiliateCampaignId=${EPN_CAMPAIGN_ID}`;
+
+  const response = await fetch(`${EBAY_API_BASE}/buy/browse/v1${path}?${new URLSearchParams(params)}`, { headers });
+  const data = await response.json().catch(() => null);
+
+  if (response.status === 401) cachedToken = null;
+  if (response.status === 404 && notFound !== undefined) return notFound;
+  if (!response.ok || !data) {
+    const message = data?.errors?.[0]?.message;
+    throw new Error(`eBay Browse API error: ${message || response.status}`);
+  }
+
+  return data as T;
+}
+
+/**
+ * One page of a seller's fixed-price book listings, newest first.
+ * Throws on transport or API errors.
+ */
+export async function searchSellerListings(
+  seller: string,
+  options: { offset?: number; limit?: number } = {}
+): Promise<{ items: EbayItemSummary[]; total: number; hasMore: boolean }> {
+  const data = await browseRequest<SearchResponse>('/item_summary/search', {
+    category_ids: BOOKS_CATEGORY_ID,
+    filter: `sellers:{${seller}},buyingOptions:{FIXED_PRICE}`,
+    sort: 'newlyListed',
+    limit: String(Math.min(options.limit ?? MAX_SEARCH_LIMIT, MAX_SEARCH_LIMIT)),
+    offset: String(options.offset ?? 0),
+  });
+
+  return { items: data.itemSummaries || [], total: data.total ?? 0, hasMore: !!data.next };
+}
+
+/**
+ * Full item details (GTIN and item specifics) for many listings, in chunks
+ * of 20. Items eBay no longer returns are left out.
+ */
+export async function getItems(itemIds: string[]): Promise<EbayItem[]> {
+  const items: EbayItem[] = [];
+  for (let i = 0; i < itemIds.length; i += MAX_ITEMS_PER_GET) {
+    const chunk = itemIds.slice(i, i + MAX_ITEMS_PER_GET);
+    // eBay answers 404 when none of the chunk's items exist any more
+    const data = await browseRequest<{ items?: EbayItem[] }>('/item/', { item_ids: chunk.join(',') }, {});
+    items.push(...(data.items || []));
+  }
+  return items;
+}
+
+/**
+ * Variations of a multi-variation listing, which getItems doesn't return
+ * for the v1|<id>|0 form. Empty when the listing is gone or isn't one.
+ */
+export async function getItemGroup(legacyItemId: string): Promise<EbayItem[]> {
+  const data = await browseRequest<{ items?: EbayItem[] }>('/item/get_items_by_item_group', { item_group_id: legacyItemId }, {});
+  return data.items || [];
+}
+
+// Browse API id for a stored item id (legacy ids are plain digits)
+export function toRestfulItemId(itemId: string): string {
+  return itemId.startsWith('v1|') ? itemId : `v1|${itemId}|0`;
+}
+
+// Legacy (listing) id for a stored or RESTful item id; every variation of a listing shares it
+export function toLegacyItemId(itemId: string): string {
+  return itemId.startsWith('v1|') ? itemId.split('|')[1] : itemId;
+}
+
+// Whether a returned item can still be bought: not sold out and not past its end date
+export function isItemAvailable(item: EbayItem): boolean {
+  if (item.estimatedAvailabilities?.some(a => a.estimatedAvailabilityStatus === 'OUT_OF_STOCK')) return false;
+  return !item.itemEndDate || new Date(item.itemEndDate).getTime() > Date.now();
+}
+
+// Item specifics that carry the book's ISBN, most specific first
+const ISBN_ASPECTS = ['ISBN-13', 'ISBN13', 'ISBN', 'ISBN-10', 'ISBN10', 'EAN'];
+
+/**
+ * ISBN-13 of a listing from its GTIN or ISBN/EAN item specifics; null when
+ * none of them is a valid ISBN.
+ */
+export function extractIsbn(item: EbayItem): string | null {
+  const aspects = item.localizedAspects || [];
+  const candidates = [
+    item.gtin,
+    ...ISBN_ASPECTS.flatMap(name => aspects.filter(a => a.name.toUpperCase() === name).map(a => a.value)),
+  ];
+
+  for (const candidate of candidates) {
+    // Specifics sometimes hold several codes ("0131103628, 9780131103627")
+    for (const code of (candidate || '').split(/[,;/|]/)) {
+      const clean = code.replace(/[-\s]/g, '').toUpperCase();
+      if (!validateIsbn(clean).valid) continue;
+      return clean.length === 10 ? isbn10to13(clean) ?? clean : clean;
+    }
+  }
+  return null;
+}
+
+// Value of a named item specific, case-insensitively
+export function getAspect(item: EbayItem, name: string): string | null {
+  return item.localizedAspects?.find(a => a.name.toLowerCase() === name.toLowerCase())?.value ?? null;
+}
+
+// Dollar amount string to cents
+export function amountToCents(amount: EbayAmount | undefined): number {
+  return amount ? Math.round(parseFloat(amount.value) * 100) : 0;
+}
@@ -0,0 +1,469 @@
+import { supabase, getPendingBooks, updateBookEvaluation, EBAY_BOOKS_TABLE, type EbayBook } from './supabase';
+import { getActiveFeeProfile } from './feeProfiles';
+import { getActiveRuleSet } from './decisionRuleSets';
+import { DEFAULT_TEAM_ID, type DecisionRuleSet } from './decisionRules';
+import { getSellerMap } from './sellers';
+import { getCachedProductsByIsbns, type CachedProduct } from './keepaCache';
+import { getTokenBudget, MIN_TOKENS_FOR_JOBS, TOKENS_PER_PRODUCT } from './keepaTokens';
+import {
+  applyEvaluation,
+  emptyResults,
+  DEFAULT_EVALUATION_OPTIONS,
+  type EvaluationOptions,
+  type EvaluationResults,
+} from './evaluator';
+
+/**
+ * Evaluation Jobs
+ * Persistent queue for Keepa evaluations. A job is a set of items (one per
+ * book); workers claim items in batches through the claim_evaluation_items
+ * function, which locks rows with FOR UPDATE SKIP LOCKED so concurrent
+ * workers never evaluate the same book twice. Jobs pause while the Keepa
+ * token balance is below MIN_TOKENS_FOR_JOBS and resume once it refills.
+ */
+
+export const EVALUATION_JOBS_TABLE = 'evaluation_jobs';
+export const EVALUATION_JOB_ITEMS_TABLE = 'evaluation_job_items';
+
+export const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 30_000;          // 30s, 60s, 120s...
+const LOCK_TIMEOUT_SECONDS = 300;            // Reclaim items from crashed workers
+const PAGE_SIZE = 1000;                      // PostgREST's default row cap
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'cancelled';
+export type JobItemStatus = 'pending' | 'processing' | 'done' | 'failed' | 'cancelled';
+
+export interface EvaluationJob {
+  id: string;
+  status: JobStatus;
+  requested_limit: number;
+  total: number;
+  price_estimate: 'buy_box' | 'seasonal';
+  target_sell_date: string | null;
+  team_id: string;                  // whose decision rules the job applies
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface EvaluationJobItem {
+  id: number;
+  job_id: string;
+  book_id: number;
+  isbn: string;
+  status: JobItemStatus;
+  attempts: number;
+  next_attempt_at: string;
+  locked_at: string | null;
+  locked_by: string | null;
+  decision: 'BUY' | 'REVIEW' | 'REJECT' | null;
+  not_found: boolean;
+  last_error: string | null;
+}
+
+export interface JobProgress {
+  job: EvaluationJob;
+  results: EvaluationResults;
+  pending: number;
+}
+
+// Create a job for up to `limit` pending books not already queued elsewhere,
+// evaluated with teamId's decision rules
+export async function enqueueEvaluationJob(
+  limit: number,
+  options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS,
+  teamId: string = DEFAULT_TEAM_ID
+): Promise<EvaluationJob | null> {
+  // Both lists can exceed the row cap, so page through them
+  const queued = new Set<number>();
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: openItems, error: openError } = await supabase
+      .from(EVALUATION_JOB_ITEMS_TABLE)
+      .select('book_id')
+      .in('status', ['pending', 'processing'])
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (openError) {
+      console.error('Error loading queued books:', openError.message);
+      return null;
+    }
+
+    (openItems || []).forEach(row => queued.add(row.book_id as number));
+    if (!openItems || openItems.length < PAGE_SIZE) break;
+  }
+
+  const books: EbayBook[] = [];
+  for (let from = 0; books.length < limit; from += PAGE_SIZE) {
+    const page = await getPendingBooks(PAGE_SIZE, from);
+    books.push(...page.filter(book => book.id !== undefined && !queued.has(book.id)));
+    if (page.length < PAGE_SIZE) break;
+  }
+  books.splice(limit);
+
+  const { data: job, error: jobError } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .insert({
+      status: books.length > 0 ? 'queued' : 'completed',
+      requested_limit: limit,
+      total: books.length,
+      price_estimate: options.priceEstimate,
+      target_sell_date: options.targetSellDate?.toISOString().slice(0, 10) ?? null,
+      team_id: teamId,
+      finished_at: books.length > 0 ? null : new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (jobError) {
+    console.error('Error creating evaluation job:', jobError.message);
+    return null;
+  }
+
+  if (books.length > 0) {
+    const { error: itemsError } = await supabase
+      .from(EVALUATION_JOB_ITEMS_TABLE)
+      .insert(books.map(book => ({ job_id: job.id, book_id: book.id, isbn: book.isbn })));
+
+    if (itemsError) {
+      console.error(`Error queueing items for job ${job.id}:`, itemsError.message);
+      await supabase.from(EVALUATION_JOBS_TABLE).delete().eq('id', job.id);
+      return null;
+    }
+  }
+
+  return job;
+}
+
+export async function getEvaluationJob(id: string): Promise<EvaluationJob | null> {
+  const { data, error } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching job ${id}:`, error.message);
+    return null;
+  }
+
+  return data;
+}
+
+export async function getRecentEvaluationJobs(limit: number = 20): Promise<EvaluationJob[]> {
+  const { data, error } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching evaluation jobs:', error.message);
+    return [];
+  }
+
+  return data || [];
+}
+
+// Progress counts in the same shape as POST /api/evaluate's results
+export async function getJobProgress(id: string): Promise<JobProgress | null> {
+  const job = await getEvaluationJob(id);
+  if (!job) return null;
+
+  const items = () => supabase
+    .from(EVALUATION_JOB_ITEMS_TABLE)
+    .select('*', { count: 'exact', head: true })
+    .eq('job_id', id);
+
+  const [finishedRes, buyRes, reviewRes, rejectRes, failedRes, notFoundRes, pendingRes] = await Promise.all([
+    items().in('status', ['done', 'failed']),
+    items().eq('decision', 'BUY'),
+    items().eq('decision', 'REVIEW'),
+    items().eq('decision', 'REJECT'),
+    items().eq('status', 'failed'),
+    items().eq('not_found', true),
+    items().in('status', ['pending', 'processing']),
+  ]);
+
+  const results = emptyResults();
+  results.evaluated = finishedRes.count || 0;
+  results.buy = buyRes.count || 0;
+  results.review = reviewRes.count || 0;
+  results.reject = rejectRes.count || 0;
+  results.errors = failedRes.count || 0;
+  results.notFound = notFoundRes.count || 0;
+
+  return { job, results, pending: pendingRes.count || 0 };
+}
+
+export async function cancelEvaluationJob(id: string): Promise<boolean> {
+  const { error } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+    .eq('id', id)
+    .in('status', ['queued', 'running', 'paused']);
+
+  if (error) {
+    console.error(`Error cancelling job ${id}:`, error.message);
+    return false;
+  }
+
+  // Release items not yet claimed so their books can be queued again
+  const { error: itemsError } = await supabase
+    .from(EVALUATION_JOB_ITEMS_TABLE)
+    .update({ status: 'cancelled' })
+    .eq('job_id', id)
+    .eq('status', 'pending');
+
+  if (itemsError) {
+    console.error(`Error releasing items of job ${id}:`, itemsError.message);
+    return false;
+  }
+
+  return true;
+}
+
+// Claim a batch of due items across all active jobs (or one job)
+async function claimItems(workerId: string, batchSize: number, jobId?: string): Promise<EvaluationJobItem[]> {
+  const { data, error } = await supabase.rpc('claim_evaluation_items', {
+    p_worker: workerId,
+    p_batch_size: batchSize,
+    p_lock_timeout_seconds: LOCK_TIMEOUT_SECONDS,
+    p_job_id: jobId ?? null,
+  });
+
+  if (error) {
+    console.error('Error claiming evaluation items:', error.message);
+    return [];
+  }
+
+  return data || [];
+}
+
+async function completeItem(item: EvaluationJobItem, decision: 'BUY' | 'REVIEW' | 'REJECT', notFound: boolean): Promise<void> {
+  const { error } = await supabase
+    .from(EVALUATION_JOB_ITEMS_TABLE)
+    .update({ status: 'done', decision, not_found: notFound, locked_at: null, locked_by: null, last_error: null })
+    .eq('id', item.id);
+
+  if (error) console.error(`Error completing job item ${item.id}:`, error.message);
+}
+
+// Schedule a retry with exponential backoff, or give up after MAX_ATTEMPTS
+async function failItem(item: EvaluationJobItem, message: string): Promise<'retry' | 'failed'> {
+  if (item.attempts < MAX_ATTEMPTS) {
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (item.attempts - 1);
+    const { error } = await supabase
+      .from(EVALUATION_JOB_ITEMS_TABLE)
+      .update({
+        status: 'pending',
+        next_attempt_at: new Date(Date.now() + delay).toISOString(),
+        locked_at: null,
+        locked_by: null,
+        last_error: message,
+      })
+      .eq('id', item.id);
+
+    if (error) console.error(`Error rescheduling job item ${item.id}:`, error.message);
+    return 'retry';
+  }
+
+  // Out of attempts: reject the book like the synchronous evaluator does
+  await updateBookEvaluation(item.book_id, { decision: 'REJECT', score: 0 });
+  const { error } = await supabase
+    .from(EVALUATION_JOB_ITEMS_TABLE)
+    .update({ status: 'failed', decision: 'REJECT', locked_at: null, locked_by: null, last_error: message })
+    .eq('id', item.id);
+
+  if (error) console.error(`Error failing job item ${item.id}:`, error.message);
+  return 'failed';
+}
+
+// Mark claimed jobs running, and finished jobs completed
+async function updateJobStatuses(jobIds: string[]): Promise<void> {
+  const now = new Date().toISOString();
+
+  for (const jobId of jobIds) {
+    const { error: startError } = await supabase
+      .from(EVALUATION_JOBS_TABLE)
+      .update({ status: 'running', started_at: now })
+      .eq('id', jobId)
+      .eq('status', 'queued');
+
+    if (startError) {
+      console.error(`Error starting evaluation job ${jobId}:`, startError.message);
+    }
+
+    const { count, error: countError } = await supabase
+      .from(EVALUATION_JOB_ITEMS_TABLE)
+      .select('*', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .in('status', ['pending', 'processing']);
+
+    if (countError) {
+      console.error(`Error counting open items for job ${jobId}:`, countError.message);
+      continue;
+    }
+
+    if (count === 0) {
+      const { error: completeError } = await supabase
+        .from(EVALUATION_JOBS_TABLE)
+        .update({ status: 'completed', finished_at: now })
+        .eq('id', jobId)
+        .eq('status', 'running');
+
+      if (completeError) {
+        console.error(`Error completing evaluation job ${jobId}:`, completeError.message);
+      }
+    }
+  }
+}
+
+// Pause every active job (claim_evaluation_items skips paused jobs)
+async function pauseActiveJobs(): Promise<void> {
+  const { error } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .update({ status: 'paused' })
+    .in('status', ['queued', 'running']);
+
+  if (error) console.error('Error pausing evaluation jobs:', error.message);
+}
+
+// Resume paused jobs to whichever state they were paused from
+async function resumePausedJobs(): Promise<void> {
+  const { error: runningError } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .update({ status: 'running' })
+    .eq('status', 'paused')
+    .not('started_at', 'is', null);
+
+  const { error: queuedError } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .update({ status: 'queued' })
+    .eq('status', 'paused')
+    .is('started_at', null);
+
+  const error = runningError || queuedError;
+  if (error) console.error('Error resuming evaluation jobs:', error.message);
+}
+
+// Sell price options and rule set team each job was queued with
+async function loadJobSettings(jobIds: string[]): Promise<Map<string, { options: EvaluationOptions; teamId: string }>> {
+  const result = new Map<string, { options: EvaluationOptions; teamId: string }>();
+  const { data, error } = await supabase
+    .from(EVALUATION_JOBS_TABLE)
+    .select('id, price_estimate, target_sell_date, team_id')
+    .in('id', jobIds);
+
+  if (error) {
+    console.error('Error loading job options:', error.message);
+  }
+
+  for (const job of data || []) {
+    result.set(job.id, {
+      options: {
+        priceEstimate: job.price_estimate === 'seasonal' ? 'seasonal' : 'buy_box',
+        targetSellDate: job.target_sell_date ? new Date(`${job.target_sell_date}T00:00:00Z`) : undefined,
+      },
+      teamId: job.team_id || DEFAULT_TEAM_ID,
+    });
+  }
+  return result;
+}
+
+/**
+ * Claim and evaluate batches until the queue is drained or the time budget
+ * runs out. Designed to be called repeatedly (e.g. from a cron) so each
+ * invocation fits inside a serverless timeout.
+ */
+export async function runEvaluationWorker(options: {
+  workerId: string;
+  batchSize?: number;
+  timeBudgetMs?: number;
+  jobId?: string;
+}): Promise<{ claimed: number; completed: number; retried: number; failed: number; paused: boolean }> {
+  const { workerId, batchSize = 100, timeBudgetMs = 50_000, jobId } = options;
+  const deadline = Date.now() + timeBudgetMs;
+  const summary = { claimed: 0, completed: 0, retried: 0, failed: 0, paused: false };
+  const [feeProfile, defaultRuleSet, sellers] = await Promise.all([getActiveFeeProfile(), getActiveRuleSet(), getSellerMap()]);
+  const ruleSets = new Map<string, DecisionRuleSet>([[DEFAULT_TEAM_ID, defaultRuleSet]]);
+  let resumed = false;
+
+  while (Date.now() < deadline) {
+    // Size the batch to the token budget, keeping a reserve for interactive lookups
+    let size = batchSize;
+    const budget = await getTokenBudget();
+    if (budget) {
+      const spendable = budget.estimatedTokens - MIN_TOKENS_FOR_JOBS;
+      if (spendable < TOKENS_PER_PRODUCT) {
+        console.log(`Keepa balance ~${budget.estimatedTokens} below reserve ${MIN_TOKENS_FOR_JOBS}; pausing evaluation jobs`);
+        await pauseActiveJobs();
+        summary.paused = true;
+        break;
+      }
+      size = Math.min(batchSize, Math.floor(spendable / TOKENS_PER_PRODUCT));
+    }
+
+    if (!resumed) {
+      await resumePausedJobs();
+      resumed = true;
+    }
+
+    const items = await claimItems(workerId, size, jobId);
+    if (items.length === 0) break;
+    summary.claimed += items.length;
+
+    const { data: books, error } = await supabase
+      .from(EBAY_BOOKS_TABLE)
+      .select('*')
+      .in('id', items.map(item => item.book_id));
+
+    if (error) {
+      console.error('Error loading books for job items:', error.message);
+    }
+    const booksById = new Map<number, EbayBook>((books || []).map(book => [book.id, book]));
+    const settingsByJob = await loadJobSettings(Array.from(new Set(items.map(item => item.job_id))));
+    for (const { teamId } of Array.from(settingsByJob.values())) {
+      if (!ruleSets.has(teamId)) ruleSets.set(teamId, await getActiveRuleSet(teamId));
+    }
+
+    // One Keepa call for the whole batch; if it fails every item retries
+    let products: Map<string, CachedProduct> | null = null;
+    let lookupError = '';
+    try {
+      products = (await getCachedProductsByIsbns(items.map(item => item.isbn), { allowStale: false })).products;
+    } catch (err) {
+      lookupError = err instanceof Error ? err.message : 'Keepa lookup failed';
+    }
+
+    for (const item of items) {
+      const book = booksById.get(item.book_id);
+      const settings = settingsByJob.get(item.job_id);
+
+      try {
+        if (!products) throw new Error(lookupError);
+        if (!book) throw new Error(`Book ${item.book_id} not found`);
+        const outcome = await applyEvaluation(
+          book,
+          products.get(item.isbn)?.product ?? null,
+          feeProfile,
+          ruleSets.get(settings?.teamId ?? DEFAULT_TEAM_ID)!,
+          settings?.options,
+          sellers.get(book.seller)
+        );
+        await completeItem(item, outcome.decision, outcome.notFound);
+        summary.completed++;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`Job item ${item.id} (${item.isbn}) failed attempt ${item.attempts}: ${message}`);
+        const result = await failItem(item, message);
+        if (result === 'retry') summary.retried++;
+        else summary.failed++;
+      }
+    }
+
+    await updateJobStatuses(Array.from(new Set(items.map(item => item.job_id))));
+  }
+
+  return summary;
+}
@@ -0,0 +1,188 @@
+import {
+  calculateFees,
+  estimateSellPrice,
+  type KeepaProduct,
+  type PriceEstimateMethod,
+  type SellPriceEstimate,
+} from './keepaApi';
+import { updateBookEvaluation, type EbayBook } from './supabase';
+import { saveBookProduct } from './bookProducts';
+import type { FeeProfile } from './feeProfiles';
+import { evaluateRules, notFoundExplanation, type DecisionInputs, type DecisionRuleSet } from './decisionRules';
+import { effectiveBuyPrice, type Seller } from './sellers';
+
+/**
+ * Book Evaluator
+ * Prices a pending book's Keepa product against the fee profile, runs the
+ * team's decision rules and saves the decision. The Amazon side is also
+ * saved to the ISBN's shared product record. Shared by POST /api/evaluate and the job worker.
+ */
+
+export interface EvaluationOutcome {
+  decision: 'BUY' | 'REVIEW' | 'REJECT';
+  score: number;
+  notFound: boolean;
+  fbaProfit: number | null;
+}
+
+// Which sell price profit is calculated from. 'seasonal' projects the
+// price at targetSellDate (default: next rush season) from Keepa history.
+export interface EvaluationOptions {
+  priceEstimate: PriceEstimateMethod;
+  targetSellDate?: Date;
+}
+
+export const DEFAULT_EVALUATION_OPTIONS: EvaluationOptions = {
+  priceEstimate: process.env.SELL_PRICE_ESTIMATE === 'seasonal' ? 'seasonal' : 'buy_box',
+};
+
+export function parseEvaluationOptions(body: { priceEstimate?: unknown; targetSellDate?: unknown }): EvaluationOptions | string {
+  const options: EvaluationOptions = { ...DEFAULT_EVALUATION_OPTIONS };
+
+  if (body.priceEstimate !== undefined) {
+    if (body.priceEstimate !== 'buy_box' && body.priceEstimate !== 'seasonal') {
+      return "priceEstimate must be 'buy_box' or 'seasonal'";
+    }
+    options.priceEstimate = body.priceEstimate;
+  }
+
+  if (body.targetSellDate !== undefined && body.targetSellDate !== null) {
+    const date = typeof body.targetSellDate === 'string' ? new Date(`${body.targetSellDate}T00:00:00Z`) : null;
+    if (!date || isNaN(date.getTime())) return 'targetSellDate must be a YYYY-MM-DD date';
+    options.targetSellDate = date;
+  }
+
+  return options;
+}
+
+/**
+ * Pick the sell price for profit calculations. Falls back to the buy box
+ * when a seasonal estimate was requested but history is too thin.
+ */
+export function selectSellPrice(product: KeepaProduct, options: EvaluationOptions): {
+  price: number | null;
+  method: PriceEstimateMethod;
+  estimate: SellPriceEstimate | null;
+} {
+  const estimate = estimateSellPrice(product, options.targetSellDate);
+  if (options.priceEstimate === 'seasonal' && estimate?.method === 'seasonal') {
+    return { price: estimate.price, method: 'seasonal', estimate };
+  }
+  return { price: product.buyBoxPrice, method: 'buy_box', estimate };
+}
+
+// Rule engine inputs for a priced product; profit and ROI are the better of FBA/FBM
+export function buildDecisionInputs(
+  product: KeepaProduct,
+  fees: ReturnType<typeof calculateFees>,
+  buyPrice: number,
+  sellPrice: number
+): DecisionInputs {
+  return {
+    profit: Math.max(fees.fbaProfit, fees.fbmProfit),
+    roi: Math.max(fees.fbaRoi, fees.fbmRoi),
+    salesRank: product.salesRank,
+    salesDrops30: product.salesRankDrops30,
+    fbaCount: product.fbaOfferCount,
+    isAmazon: product.isAmazon,
+    amazonPrice: sellPrice,
+    buyPrice,
+  };
+}
+
+// Running totals reported by /api/evaluate and evaluation job progress
+export interface EvaluationResults {
+  evaluated: number;
+  buy: number;
+  review: number;
+  reject: number;
+  errors: number;
+  notFound: number;
+}
+
+export function emptyResults(): EvaluationResults {
+  return { evaluated: 0, buy: 0, review: 0, reject: 0, errors: 0, notFound: 0 };
+}
+
+export function tallyOutcome(results: EvaluationResults, outcome: EvaluationOutcome): void {
+  results.evaluated++;
+  if (outcome.notFound) results.notFound++;
+  if (outcome.decision === 'BUY') results.buy++;
+  else if (outcome.decision === 'REVIEW') results.review++;
+  else results.reject++;
+}
+
+// Evaluate and save a book whose Keepa product was already fetched (null = not
+// found). The buy price includes the seller's coupon and shipping adjustment.
+export async function applyEvaluation(
+  book: EbayBook,
+  product: KeepaProduct | null,
+  feeProfile: FeeProfile,
+  ruleSet: DecisionRuleSet,
+  options: EvaluationOptions = DEFAULT_EVALUATION_OPTIONS,
+  seller?: Seller
+): Promise<EvaluationOutcome> {
+  if (!product || !product.buyBoxPrice) {
+    // Not found on Amazon or no buy box price
+    await updateBookEvaluation(book.id!, {
+      decision: 'REJECT',
+      score: 0,
+      rule_set_id: ruleSet.id,
+      rule_set_version: ruleSet.version,
+      fired_rules: [],
+      decision_explanation: notFoundExplanation(ruleSet),
+    });
+    return { decision: 'REJECT', score: 0, notFound: true, fbaProfit: null };
+  }
+
+  const sellPrice = selectSellPrice(product, options);
+  const amazonPrice = sellPrice.price ?? product.buyBoxPrice;
+
+  // Listing weight wins; fall back to Keepa's package weight
+  const weightOz = book.weight_oz ?? product.weightOz;
+  const buyPrice = effectiveBuyPrice(book.price, seller);
+  const fees = calculateFees(buyPrice, amazonPrice, {
+    profile: feeProfile,
+    weightOz,
+    dimensions: product.dimensions,
+  });
+
+  const decision = evaluateRules(ruleSet, buildDecisionInputs(product, fees, buyPrice, amazonPrice));
+  const targetSellDate = sellPrice.method === 'seasonal' ? sellPrice.estimate?.targetDate ?? null : null;
+
+  await saveBookProduct({
+    isbn: book.isbn,
+    asin: product.asin,
+    amazonPrice,
+    priceEstimate: sellPrice.method,
+    targetSellDate,
+    salesRank: product.salesRank || null,
+    salesRankDrops30: product.salesRankDrops30 || null,
+    salesRankDrops90: product.salesRankDrops90 || null,
+    weightOz: product.weightOz ?? null,
+  });
+
+  await updateBookEvaluation(book.id!, {
+    decision: decision.decision,
+    asin: product.asin,
+    amazon_price: amazonPrice,
+    price_estimate: sellPrice.method,
+    target_sell_date: targetSellDate,
+    sales_rank: product.salesRank || undefined,
+    sales_rank_drops_30: product.salesRankDrops30 || undefined,
+    sales_rank_drops_90: product.salesRankDrops90 || undefined,
+    fba_profit: fees.fbaProfit,
+    fbm_profit: fees.fbmProfit,
+    fba_roi: fees.fbaRoi,
+    fbm_roi: fees.fbmRoi,
+    score: decision.score,
+    fee_profile_id: fees.feeProfileId,
+    rule_set_id: decision.ruleSetId,
+    rule_set_version: decision.ruleSetVersion,
+    fired_rules: decision.firedRules,
+    decision_explanation: decision.explanation,
+    weight_oz: weightOz ?? undefined,
+  });
+
+  return { decision: decision.decision, score: decision.score, notFound: false, fbaProfit: fees.fbaProfit };
+}
@@ -0,0 +1,141 @@
+import type { EbayBook } from './supabase';
+import type { Purchase } from './purchases';
+import type { BulkLookupResult } from './bulkLookup';
+import { queryBooks, MAX_PAGE_SIZE, type BookQuery } from './bookQuery';
+import type { FilterRule } from './decisionRules';
+import type { CellValue } from './xlsx';
+
+/**
+ * Exports
+ * Column layouts and row sources for the CSV/XLSX exports of dashboard deal
+ * lists and purchases. Money columns are exported in dollars (suffix _usd)
+ * so spreadsheets can sum them directly.
+ */
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+}
+
+const dollars = (cents: number | null | undefined): number | null =>
+  cents === null || cents === undefined ? null : Math.round(cents) / 100;
+
+// Every ebay_books column plus the computed multiplier and sold/month shown on the cards
+export const BOOK_EXPORT_COLUMNS: ExportColumn<EbayBook>[] = [
+  { header: 'id', value: b => b.id ?? null },
+  { header: 'isbn', value: b => b.isbn },
+  { header: 'title', value: b => b.title },
+  { header: 'price_usd', value: b => dollars(b.price) },
+  { header: 'shipping_usd', value: b => dollars(b.shipping) },
+  { header: 'condition', value: b => b.condition },
+  { header: 'seller', value: b => b.seller },
+  { header: 'category', value: b => b.category },
+  { header: 'ebay_item_id', value: b => b.ebay_item_id },
+  { header: 'ebay_url', value: b => b.ebay_url },
+  { header: 'image_url', value: b => b.image_url },
+  { header: 'scraped_at', value: b => b.scraped_at },
+  { header: 'previous_price_usd', value: b => dollars(b.previous_price) },
+  { header: 'price_changed_at', value: b => b.price_changed_at },
+  { header: 'verified_at', value: b => b.verified_at },
+  { header: 'ended_at', value: b => b.ended_at },
+  { header: 'decision', value: b => b.decision },
+  { header: 'asin', value: b => b.asin },
+  { header: 'amazon_price_usd', value: b => dollars(b.amazon_price) },
+  { header: 'price_estimate', value: b => b.price_estimate },
+  { header: 'target_sell_date', value: b => b.target_sell_date },
+  { header: 'multiplier', value: b => (b.amazon_price && b.price > 0 ? Math.round((b.amazon_price / b.price) * 100) / 100 : null) },
+  { header: 'sales_rank', value: b => b.sales_rank },
+  { header: 'sales_rank_drops_30', value: b => b.sales_rank_drops_30 },
+  { header: 'sales_rank_drops_90', value: b => b.sales_rank_drops_90 },
+  { header: 'sold_per_month', value: b => (b.sales_rank_drops_90 != null ? Math.round(b.sales_rank_drops_90 / 3) : null) },
+  { header: 'fba_profit_usd', value: b => dollars(b.fba_profit) },
+  { header: 'fbm_profit_usd', value: b => dollars(b.fbm_profit) },
+  { header: 'fba_roi', value: b => b.fba_roi },
+  { header: 'score', value: b => b.score },
+  { header: 'fired_rules', value: b => b.fired_rules?.join(';') ?? null },
+  { header: 'decision_explanation', value: b => (b.decision_explanation ? JSON.stringify(b.decision_explanation) : null) },
+  { header: 'fee_profile_id', value: b => b.fee_profile_id },
+  { header: 'rule_set_id', value: b => b.rule_set_id },
+  { header: 'rule_set_version', value: b => b.rule_set_version },
+  { header: 'book_type', value: b => b.book_type },
+  { header: 'weight_oz', value: b => b.weight_oz },
+  { header: 'evaluated_at', value: b => b.evaluated_at },
+  { header: 'bought_at', value: b => b.bought_at },
+  { header: 'user_id', value: b => b.user_id },
+];
+
+// Purchases for bookkeeping; buyerEmail comes from the auth users
+export const PURCHASE_EXPORT_COLUMNS: ExportColumn<Purchase & { buyerEmail: string | null }>[] = [
+  { header: 'id', value: p => p.id },
+  { header: 'purchased_at', value: p => p.purchasedAt },
+  { header: 'isbn', value: p => p.isbn },
+  { header: 'title', value: p => p.title },
+  { header: 'ebay_item_id', value: p => p.ebayItemId },
+  { header: 'ebay_order_number', value: p => p.ebayOrderNumber },
+  { header: 'quantity', value: p => p.quantity },
+  { header: 'unit_price_usd', value: p => dollars(p.unitPrice) },
+  { header: 'shipping_usd', value: p => dollars(p.shipping) },
+  { header: 'tax_usd', value: p => dollars(p.tax) },
+  { header: 'discount_usd', value: p => dollars(p.discount) },
+  { header: 'total_cost_usd', value: p => dollars(p.totalCost) },
+  { header: 'buyer', value: p => p.buyerEmail },
+  { header: 'book_id', value: p => p.bookId },
+  { header: 'notes', value: p => p.notes },
+];
+
+// Bulk ISBN lookup results, one row per input line
+export const BULK_LOOKUP_EXPORT_COLUMNS: ExportColumn<BulkLookupResult>[] = [
+  { header: 'line', value: r => r.line },
+  { header: 'input', value: r => r.input },
+  { header: 'isbn', value: r => r.isbn },
+  { header: 'cost_usd', value: r => dollars(r.cost) },
+  { header: 'error', value: r => r.error },
+  { header: 'title', value: r => r.title },
+  { header: 'asin', value: r => r.asin },
+  { header: 'amazon_price_usd', value: r => dollars(r.amazonPrice) },
+  { header: 'price_estimate', value: r => r.priceEstimate },
+  { header: 'multiplier', value: r => (r.amazonPrice && r.cost ? Math.round((r.amazonPrice / r.cost) * 100) / 100 : null) },
+  { header: 'sales_rank', value: r => r.salesRank },
+  { header: 'sold_per_month', value: r => (r.salesRankDrops90 != null ? Math.round(r.salesRankDrops90 / 3) : null) },
+  { header: 'fba_profit_usd', value: r => dollars(r.fbaProfit) },
+  { header: 'fbm_profit_usd', value: r => dollars(r.fbmProfit) },
+  { header: 'fba_roi', value: r => r.fbaRoi },
+  { header: 'score', value: r => r.score },
+  { header: 'decision', value: r => r.decision },
+  { header: 'reason', value: r => r.reason },
+];
+
+export function toCells<T>(columns: ExportColumn<T>[], row: T): CellValue[] {
+  return columns.map(column => column.value(row));
+}
+
+// RFC 4180 line: quote fields containing commas, quotes or newlines
+export function csvLine(values: CellValue[]): string {
+  return values.map(value => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',') + '\r\n';
+}
+
+// Every book matching the dashboard filters, a page at a time
+export async function* iterateBooks(query: BookQuery, hasanRule?: FilterRule): AsyncGenerator<EbayBook[]> {
+  let cursor: string | null = null;
+  do {
+    const page = await queryBooks({ ...query, cursor, limit: MAX_PAGE_SIZE }, hasanRule);
+    yield page.books;
+    cursor = page.nextCursor;
+  } while (cursor);
+}
+
+// File name like scanflow-deals-2024-09-01.csv
+export function exportFilename(name: string, format: ExportFormat): string {
+  return `scanflow-${name}-${new Date().toISOString().slice(0, 10)}.${format}`;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
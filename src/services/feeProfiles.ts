@@ -0,0 +1,295 @@
+import { supabase } from './supabase';
+
+/**
+ * Fee Profiles
+ * Versioned, named fee schedules used by calculateFees. Profiles live in the
+ * fee_profiles table; the built-in default mirrors the original hardcoded fees.
+ */
+
+export type SizeTier = 'small_standard' | 'large_standard' | 'large_bulky';
+
+// One row of an FBA fulfillment fee table. The last tier of a size tier may
+// leave maxWeightOz null and charge perExtraLbCents above the previous tier.
+export interface FulfillmentFeeTier {
+  sizeTier: SizeTier;
+  maxWeightOz: number | null;
+  feeCents: number;
+  perExtraLbCents?: number;
+}
+
+// USPS Media Mail rate row; same open-ended convention as fulfillment tiers
+export interface ShippingRateTier {
+  maxWeightOz: number | null;
+  feeCents: number;
+  perExtraLbCents?: number;
+}
+
+export interface PackageDimensions {
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+}
+
+export interface FeeProfile {
+  id: number | null;                // null = built-in default
+  name: string;
+  version: number;
+  effectiveFrom: string;            // YYYY-MM-DD
+  effectiveTo: string | null;       // exclusive, null = open-ended
+  referralRate: number;             // e.g. 0.15
+  closingFee: number;               // cents
+  inboundShipping: number;          // cents per book
+  fbmShipping: number;              // cents, used when weight is unknown
+  ebayFeeRate: number;              // e.g. 0.13
+  defaultFulfillmentFee: number;    // cents, used when weight is unknown
+  fulfillmentTiers: FulfillmentFeeTier[];
+  mediaMailRates: ShippingRateTier[];
+}
+
+export const FEE_PROFILES_TABLE = 'fee_profiles';
+
+export const DEFAULT_FEE_PROFILE: FeeProfile = {
+  id: null,
+  name: 'Built-in default',
+  version: 1,
+  effectiveFrom: '2024-01-01',
+  effectiveTo: null,
+  referralRate: 0.15,
+  closingFee: 180,
+  inboundShipping: 50,
+  fbmShipping: 399,
+  ebayFeeRate: 0.13,
+  defaultFulfillmentFee: 354,
+  fulfillmentTiers: [
+    { sizeTier: 'small_standard', maxWeightOz: 4, feeCents: 306 },
+    { sizeTier: 'small_standard', maxWeightOz: 8, feeCents: 315 },
+    { sizeTier: 'small_standard', maxWeightOz: 12, feeCents: 324 },
+    { sizeTier: 'small_standard', maxWeightOz: 16, feeCents: 333 },
+    { sizeTier: 'large_standard', maxWeightOz: 4, feeCents: 368 },
+    { sizeTier: 'large_standard', maxWeightOz: 8, feeCents: 390 },
+    { sizeTier: 'large_standard', maxWeightOz: 12, feeCents: 415 },
+    { sizeTier: 'large_standard', maxWeightOz: 16, feeCents: 455 },
+    { sizeTier: 'large_standard', maxWeightOz: 24, feeCents: 499 },
+    { sizeTier: 'large_standard', maxWeightOz: 32, feeCents: 537 },
+    { sizeTier: 'large_standard', maxWeightOz: 48, feeCents: 612 },
+    { sizeTier: 'large_standard', maxWeightOz: null, feeCents: 612, perExtraLbCents: 32 },
+    { sizeTier: 'large_bulky', maxWeightOz: null, feeCents: 926, perExtraLbCents: 38 },
+  ],
+  mediaMailRates: [
+    { maxWeightOz: 16, feeCents: 413 },
+    { maxWeightOz: 32, feeCents: 488 },
+    { maxWeightOz: 48, feeCents: 563 },
+    { maxWeightOz: 64, feeCents: 638 },
+    { maxWeightOz: 80, feeCents: 713 },
+    { maxWeightOz: null, feeCents: 713, perExtraLbCents: 75 },
+  ],
+};
+
+interface FeeProfileRow {
+  id: number;
+  name: string;
+  version: number;
+  effective_from: string;
+  effective_to: string | null;
+  referral_rate: number | string;
+  closing_fee: number;
+  inbound_shipping: number;
+  fbm_shipping: number;
+  ebay_fee_rate: number | string;
+  default_fulfillment_fee: number;
+  fulfillment_tiers: FulfillmentFeeTier[] | null;
+  media_mail_rates: ShippingRateTier[] | null;
+  is_pinned: boolean;
+}
+
+function rowToFeeProfile(row: FeeProfileRow): FeeProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    version: row.version,
+    effectiveFrom: row.effective_from,
+    effectiveTo: row.effective_to,
+    referralRate: Number(row.referral_rate),
+    closingFee: row.closing_fee,
+    inboundShipping: row.inbound_shipping,
+    fbmShipping: row.fbm_shipping,
+    ebayFeeRate: Number(row.ebay_fee_rate),
+    defaultFulfillmentFee: row.default_fulfillment_fee,
+    fulfillmentTiers: row.fulfillment_tiers || [],
+    mediaMailRates: row.media_mail_rates || [],
+  };
+}
+
+// Walk a weight-sorted rate table; open-ended last rows charge per extra lb
+function lookupWeightRate(tiers: ShippingRateTier[], weightOz: number): number | null {
+  const sorted = [...tiers].sort((a, b) => (a.maxWeightOz ?? Infinity) - (b.maxWeightOz ?? Infinity));
+  if (sorted.length === 0) return null;
+
+  let prevMax = 0;
+  for (const tier of sorted) {
+    if (tier.maxWeightOz === null) {
+      const extraLbs = Math.max(0, Math.ceil((weightOz - prevMax) / 16));
+      return tier.feeCents + extraLbs * (tier.perExtraLbCents ?? 0);
+    }
+    if (weightOz <= tier.maxWeightOz) return tier.feeCents;
+    prevMax = tier.maxWeightOz;
+  }
+
+  // Heavier than the table covers and no open-ended row: use the top row
+  return sorted[sorted.length - 1].feeCents;
+}
+
+/**
+ * Look up the FBA fulfillment fee for a weight within a size tier.
+ * Returns null when the profile has no table for that tier.
+ */
+export function lookupFulfillmentFee(profile: FeeProfile, sizeTier: SizeTier, weightOz: number): number | null {
+  return lookupWeightRate(profile.fulfillmentTiers.filter(t => t.sizeTier === sizeTier), weightOz);
+}
+
+// Media Mail postage for an FBM shipment. Returns null when the profile has no rate table.
+export function lookupMediaMailRate(profile: FeeProfile, weightOz: number): number | null {
+  return lookupWeightRate(profile.mediaMailRates, weightOz);
+}
+
+/**
+ * Classify a package into an Amazon size tier. Small standard is at most
+ * 15 x 12 x 0.75 in and 16 oz; large standard at most 18 x 14 x 8 in and 20 lb.
+ * Without dimensions, books are assumed large standard unless over 20 lb.
+ */
+export function getSizeTier(weightOz: number | null, dimensions: PackageDimensions | null): SizeTier {
+  const weight = weightOz ?? 0;
+  if (!dimensions) return weight > 320 ? 'large_bulky' : 'large_standard';
+
+  const [longest, median, shortest] = [dimensions.lengthIn, dimensions.widthIn, dimensions.heightIn].sort((a, b) => b - a);
+  if (weight <= 16 && longest <= 15 && median <= 12 && shortest <= 0.75) return 'small_standard';
+  if (weight <= 320 && longest <= 18 && median <= 14 && shortest <= 8) return 'large_standard';
+  return 'large_bulky';
+}
+
+/**
+ * Weight Amazon bills FBA fees on: unit weight for small standard, otherwise
+ * the greater of unit weight and dimensional weight (L x W x H / 139 lb).
+ */
+export function getShippingWeightOz(weightOz: number, dimensions: PackageDimensions | null, sizeTier: SizeTier): number {
+  if (!dimensions || sizeTier === 'small_standard') return weightOz;
+  const dimensionalOz = (dimensions.lengthIn * dimensions.widthIn * dimensions.heightIn / 139) * 16;
+  return Math.max(weightOz, dimensionalOz);
+}
+
+// List all stored profiles, newest version first
+export async function getFeeProfiles(): Promise<(FeeProfile & { isPinned: boolean })[]> {
+  const { data, error } = await supabase
+    .from(FEE_PROFILES_TABLE)
+    .select('*')
+    .order('name', { ascending: true })
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching fee profiles:', error.message);
+    return [];
+  }
+
+  return (data || []).map((row: FeeProfileRow) => ({ ...rowToFeeProfile(row), isPinned: row.is_pinned }));
+}
+
+/**
+ * Get the fee profile in effect on a date. A pinned profile always wins;
+ * otherwise the highest version whose effective range covers the date.
+ * Falls back to DEFAULT_FEE_PROFILE if nothing matches.
+ */
+export async function getActiveFeeProfile(at: Date = new Date()): Promise<FeeProfile> {
+  const { data: pinned, error: pinnedError } = await supabase
+    .from(FEE_PROFILES_TABLE)
+    .select('*')
+    .eq('is_pinned', true)
+    .limit(1);
+
+  if (pinnedError) {
+    console.error('Error fetching pinned fee profile:', pinnedError.message);
+    return DEFAULT_FEE_PROFILE;
+  }
+  if (pinned && pinned.length > 0) return rowToFeeProfile(pinned[0]);
+
+  const day = at.toISOString().slice(0, 10);
+  const { data, error } = await supabase
+    .from(FEE_PROFILES_TABLE)
+    .select('*')
+    .lte('effective_from', day)
+    .or(`effective_to.is.null,effective_to.gt.${day}`)
+    .order('effective_from', { ascending: false })
+    .order('version', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    console.error('Error fetching active fee profile:', error.message);
+    return DEFAULT_FEE_PROFILE;
+  }
+
+  return data && data.length > 0 ? rowToFeeProfile(data[0]) : DEFAULT_FEE_PROFILE;
+}
+
+// Create a new profile version (version = latest for that name + 1)
+export async function createFeeProfile(profile: Omit<FeeProfile, 'id' | 'version'>): Promise<FeeProfile | null> {
+  const { data: latest } = await supabase
+    .from(FEE_PROFILES_TABLE)
+    .select('version')
+    .eq('name', profile.name)
+    .order('version', { ascending: false })
+    .limit(1);
+
+  const version = latest && latest.length > 0 ? latest[0].version + 1 : 1;
+
+  const { data, error } = await supabase
+    .from(FEE_PROFILES_TABLE)
+    .insert({
+      name: profile.name,
+      version,
+      effective_from: profile.effectiveFrom,
+      effective_to: profile.effectiveTo,
+      referral_rate: profile.referralRate,
+      closing_fee: profile.closingFee,
+      inbound_shipping: profile.inboundShipping,
+      fbm_shipping: profile.fbmShipping,
+      ebay_fee_rate: profile.ebayFeeRate,
+      default_fulfillment_fee: profile.defaultFulfillmentFee,
+      fulfillment_tiers: profile.fulfillmentTiers,
+      media_mail_rates: profile.mediaMailRates,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error(`Error creating fee profile ${profile.name}:`, error.message);
+    return null;
+  }
+
+  return rowToFeeProfile(data);
+}
+
+// Pin a profile as active regardless of dates (null clears the pin)
+export async function pinFeeProfile(id: number | null): Promise<boolean> {
+  const { error: clearError } = await supabase
+    .from(FEE_PROFILES_TABLE)
+    .update({ is_pinned: false })
+    .eq('is_pinned', true);
+
+  if (clearError) {
+    console.error('Error clearing pinned fee profile:', clearError.message);
+    return false;
+  }
+
+  if (id === null) return true;
+
+  const { error } = await supabase
+    .from(FEE_PROFILES_TABLE)
+    .update({ is_pinned: true })
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error pinning fee profile ${id}:`, error.message);
+    return false;
+  }
+
+  return true;
+}
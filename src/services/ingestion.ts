@@ -0,0 +1,169 @@
+import { saveBooks, getStoredListings, type EbayBook } from './supabase';
+import {
+  searchSellerListings,
+  getItems,
+  extractIsbn,
+  getAspect,
+  amountToCents,
+  MAX_SEARCH_LIMIT,
+  type EbayItem,
+  type EbayItemSummary,
+} from './ebayApi';
+import { getSellers, type Seller } from './sellers';
+
+/**
+ * eBay Ingestion
+ * Pulls each active seller's book listings through the Browse API, reads
+ * the ISBN from the GTIN or item specifics and saves new listings to
+ * ebay_books as pending (decision null) for the evaluator to pick up.
+ * Each listing is its own row, so a seller's several copies of a book are
+ * all kept. Listings we already have are re-saved when their price moved,
+ * and an ended listing's new item id is saved as a relist; either records
+ * the change and re-queues the book (see saveBooks).
+ */
+
+// Listings fetched per seller per run unless the caller asks for fewer/more
+export const DEFAULT_MAX_LISTINGS = 1000;
+
+export interface SellerIngestResult {
+  seller: string;                   // seller id
+  listings: number;                 // listings returned by search
+  known: number;                    // already in ebay_books at the same price
+  withoutIsbn: number;              // no valid ISBN in GTIN or item specifics
+  saved: number;
+  updated: number;                  // price or shipping changed, or ended listing relisted
+  requeued: number;                 // updated books sent back for evaluation
+  duplicates: number;               // item id stored by a concurrent run
+  errors: number;
+  error: string | null;             // eBay API failure that stopped this seller
+}
+
+// Listing price and first quoted shipping cost, in cents
+function listingCosts(item: EbayItemSummary): { price: number; shipping: number } {
+  const shipping = item.shippingOptions?.find(option => option.shippingCost) ?? null;
+  return { price: amountToCents(item.price), shipping: amountToCents(shipping?.shippingCost) };
+}
+
+// ebay_books row for a listing; evaluation fields start empty
+export function itemToBook(item: EbayItem, isbn: string, sellerId: string): Omit<EbayBook, 'id'> {
+  const { price, shipping } = listingCosts(item);
+
+  return {
+    isbn,
+    title: item.title,
+    price,
+    condition: item.condition || 'Unknown',
+    seller: sellerId,
+    category: item.categoryPath || item.categories?.[0]?.categoryName || 'Books',
+    ebay_item_id: item.legacyItemId || item.itemId,
+    ebay_url: item.itemAffiliateWebUrl || item.itemWebUrl,
+    image_url: item.image?.imageUrl ?? null,
+    shipping,
+    scraped_at: new Date().toISOString(),
+    previous_price: null,
+    price_changed_at: null,
+    verified_at: null,
+    ended_at: null,
+    decision: null,
+    asin: null,
+    amazon_price: null,
+    price_estimate: null,
+    target_sell_date: null,
+    sales_rank: null,
+    sales_rank_drops_30: null,
+    sales_rank_drops_90: null,
+    fba_profit: null,
+    fbm_profit: null,
+    fba_roi: null,
+    fbm_roi: null,
+    score: null,
+    fee_profile_id: null,
+    rule_set_id: null,
+    rule_set_version: null,
+    fired_rules: null,
+    decision_explanation: null,
+    book_type: getAspect(item, 'Format') ?? getAspect(item, 'Binding'),
+    weight_oz: null,
+    evaluated_at: null,
+    bought_at: null,
+    user_id: null,
+  };
+}
+
+async function ingestSeller(seller: Seller, maxListings: number): Promise<SellerIngestResult> {
+  const result: SellerIngestResult = {
+    seller: seller.id,
+    listings: 0,
+    known: 0,
+    withoutIsbn: 0,
+    saved: 0,
+    updated: 0,
+    requeued: 0,
+    duplicates: 0,
+    errors: 0,
+    error: null,
+  };
+
+  try {
+    for (let offset = 0; offset < maxListings;) {
+      const page = await searchSellerListings(seller.ebayUsername, { offset, limit: Math.min(MAX_SEARCH_LIMIT, maxListings - offset) });
+      result.listings += page.items.length;
+      offset += page.items.length;
+
+      // Only new, repriced or back-from-ENDED listings need the (per-item)
+      // detail call for their ISBN
+      const stored = await getStoredListings(seller.id, page.items.map(item => item.legacyItemId || item.itemId));
+      const fresh = page.items.filter(item => {
+        const current = stored.get(item.legacyItemId || item.itemId);
+        const costs = listingCosts(item);
+        return !current || current.decision === 'ENDED' || current.price !== costs.price || current.shipping !== costs.shipping;
+      });
+      result.known += page.items.length - fresh.length;
+
+      const books: Omit<EbayBook, 'id'>[] = [];
+      for (const item of await getItems(fresh.map(item => item.itemId))) {
+        const isbn = extractIsbn(item);
+        if (!isbn) {
+          result.withoutIsbn++;
+        } else {
+          books.push(itemToBook(item, isbn, seller.id));
+        }
+      }
+
+      const saved = await saveBooks(books);
+      result.saved += saved.saved;
+      result.updated += saved.updated;
+      result.requeued += saved.requeued;
+      result.known += saved.unchanged;
+      result.duplicates += saved.duplicates;
+      result.errors += saved.errors;
+
+      if (!page.hasMore || page.items.length === 0) break;
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'eBay request failed';
+    console.error(`Ingestion failed for seller ${seller.id}:`, result.error);
+  }
+
+  return result;
+}
+
+/**
+ * Ingest new listings for the given seller ids (default: every active
+ * seller), one seller at a time. A failing seller doesn't stop the others.
+ */
+export async function ingestSellers(
+  sellerIds?: string[],
+  options: { maxListings?: number } = {}
+): Promise<SellerIngestResult[]> {
+  const maxListings = options.maxListings ?? DEFAULT_MAX_LISTINGS;
+  const sellers = (await getSellers()).filter(s => !sellerIds || sellerIds.includes(s.id));
+
+  const results: SellerIngestResult[] = [];
+  for (const seller of sellers) {
+    const result = await ingestSeller(seller, maxListings);
+    console.log(`Ingested ${seller.id}: ${result.listings} listings, ${result.saved} saved, ${result.updated} updated, ${result.known} known, ${result.withoutIsbn} without ISBN`);
+    results.push(result);
+  }
+  return results;
+}
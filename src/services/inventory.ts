@@ -0,0 +1,503 @@
+import { supabase } from './supabase';
+import type { Purchase } from './purchases';
+import {
+  validateTransition,
+  type InventoryCounts,
+  type InventoryEvent,
+  type InventoryItem,
+  type InventoryStatus,
+  type InventoryTransition,
+  type SalesChannel,
+  INVENTORY_STATUSES,
+} from './inventoryLifecycle';
+
+/**
+ * Inventory
+ * One inventory_items row per purchased copy, moved through the lifecycle in
+ * inventoryLifecycle.ts. Every state change is recorded in inventory_events
+ * with when it happened and what it cost; the item's total_cost is its share
+ * of the purchase plus those costs.
+ */
+
+export const INVENTORY_ITEMS_TABLE = 'inventory_items';
+export const INVENTORY_EVENTS_TABLE = 'inventory_events';
+
+interface InventoryItemRow {
+  id: number;
+  purchase_id: number;
+  isbn: string;
+  title: string;
+  status: InventoryStatus;
+  status_changed_at: string;
+  condition_grade: string | null;
+  channel: SalesChannel | null;
+  sku: string | null;
+  list_price: number | null;
+  sale_price: number | null;
+  sale_fees: number | null;
+  sale_order_id: string | null;
+  total_cost: number;
+  created_at: string;
+}
+
+interface InventoryEventRow {
+  id: number;
+  item_id: number;
+  from_status: InventoryStatus | null;
+  status: InventoryStatus;
+  occurred_at: string;
+  cost: number;
+  note: string | null;
+  user_id: string | null;
+}
+
+function rowToItem(row: InventoryItemRow): InventoryItem {
+  return {
+    id: row.id,
+    purchaseId: row.purchase_id,
+    isbn: row.isbn,
+    title: row.title,
+    status: row.status,
+    statusChangedAt: row.status_changed_at,
+    conditionGrade: row.condition_grade,
+    channel: row.channel,
+    sku: row.sku,
+    listPrice: row.list_price,
+    salePrice: row.sale_price,
+    saleFees: row.sale_fees,
+    saleOrderId: row.sale_order_id,
+    totalCost: row.total_cost,
+    createdAt: row.created_at,
+  };
+}
+
+function rowToEvent(row: InventoryEventRow): InventoryEvent {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    fromStatus: row.from_status,
+    status: row.status,
+    occurredAt: row.occurred_at,
+    cost: row.cost,
+    note: row.note,
+    userId: row.user_id,
+  };
+}
+
+// Equal shares of a purchase's total cost, one per copy; the first copy
+// absorbs any rounding remainder
+function splitPurchaseCost(purchase: Purchase): number[] {
+  const share = Math.floor(purchase.totalCost / purchase.quantity);
+  const remainder = purchase.totalCost - share * purchase.quantity;
+  return Array.from({ length: purchase.quantity }, (_, i) => share + (i === 0 ? remainder : 0));
+}
+
+// Insert one 'ordered' item (and its order event) per cost share
+async function insertOrderedCopies(purchase: Purchase, shares: number[], userId: string | null): Promise<InventoryItem[] | null> {
+  const { data, error } = await supabase
+    .from(INVENTORY_ITEMS_TABLE)
+    .insert(shares.map(share => ({
+      purchase_id: purchase.id,
+      isbn: purchase.isbn,
+      title: purchase.title,
+      status: 'ordered',
+      status_changed_at: purchase.purchasedAt,
+      total_cost: share,
+    })))
+    .select('*');
+
+  if (error) {
+    console.error(`Error creating inventory for purchase ${purchase.id}:`, error.message);
+    return null;
+  }
+
+  const items = (data || []).map(rowToItem);
+
+  const { error: eventError } = await supabase
+    .from(INVENTORY_EVENTS_TABLE)
+    .insert(items.map(item => ({
+      item_id: item.id,
+      from_status: null,
+      status: 'ordered',
+      occurred_at: purchase.purchasedAt,
+      cost: item.totalCost,
+      note: purchase.ebayOrderNumber ? `eBay order ${purchase.ebayOrderNumber}` : null,
+      user_id: userId,
+    })));
+
+  if (eventError) {
+    console.error(`Error recording order events for purchase ${purchase.id}:`, eventError.message);
+  }
+
+  return items;
+}
+
+/**
+ * One 'ordered' item per copy of a purchase, each carrying an equal share of
+ * its total cost (the first copy absorbs any rounding remainder). Returns
+ * null if the items couldn't be created.
+ */
+export async function createInventoryForPurchase(purchase: Purchase, userId: string | null): Promise<InventoryItem[] | null> {
+  return insertOrderedCopies(purchase, splitPurchaseCost(purchase), userId);
+}
+
+/**
+ * Check that a purchase's quantity can become `quantity`: only copies still
+ * 'ordered' can be removed. Returns an error message, or null.
+ */
+export async function checkInventoryQuantity(purchaseId: number, quantity: number): Promise<string | null> {
+  const { data, error } = await supabase
+    .from(INVENTORY_ITEMS_TABLE)
+    .select('status')
+    .eq('purchase_id', purchaseId);
+
+  if (error) {
+    console.error(`Error loading inventory for purchase ${purchaseId}:`, error.message);
+    return 'Failed to load inventory for purchase';
+  }
+
+  const moved = (data || []).filter(row => row.status !== 'ordered').length;
+  if (quantity < moved) {
+    return `${moved} copies are already past ordered; quantity can't be less than that`;
+  }
+  return null;
+}
+
+/**
+ * Bring a purchase's copies in line after its quantity or costs were edited:
+ * remove or add 'ordered' copies to match the quantity, then re-split the
+ * total cost. Each copy keeps the costs of its own events on top of its new
+ * share, and its order event is updated to the new share. Returns an error
+ * message, or null.
+ */
+export async function syncInventoryForPurchase(
+  previous: Purchase,
+  purchase: Purchase,
+  userId: string | null
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from(INVENTORY_ITEMS_TABLE)
+    .select('*')
+    .eq('purchase_id', purchase.id)
+    .order('id', { ascending: true });
+
+  if (error) {
+    console.error(`Error loading inventory for purchase ${purchase.id}:`, error.message);
+    return 'Failed to load inventory for purchase';
+  }
+
+  const items = (data || []).map(rowToItem);
+  if (items.length === 0) return null;
+
+  const { data: orderEvents, error: eventsError } = await supabase
+    .from(INVENTORY_EVENTS_TABLE)
+    .select('id, item_id, cost')
+    .in('item_id', items.map(item => item.id))
+    .is('from_status', null);
+
+  if (eventsError) {
+    console.error(`Error loading order events for purchase ${purchase.id}:`, eventsError.message);
+    return 'Failed to load inventory for purchase';
+  }
+
+  // What each copy was charged for the purchase: its order event, or for
+  // copies created without one, its share of the old split
+  const orderEventByItem = new Map((orderEvents || []).map(event => [event.item_id as number, event]));
+  const previousShares = splitPurchaseCost(previous);
+  const previousShare = new Map(items.map((item, i) => [
+    item.id,
+    orderEventByItem.get(item.id)?.cost ?? previousShares[i] ?? 0,
+  ]));
+
+  // Drop the newest copies still 'ordered'
+  const kept = [...items];
+  const removeIds: number[] = [];
+  for (let i = kept.length - 1; i >= 0 && kept.length > purchase.quantity; i--) {
+    if (kept[i].status !== 'ordered') continue;
+    removeIds.push(kept[i].id);
+    kept.splice(i, 1);
+  }
+  if (kept.length > purchase.quantity) {
+    return `${kept.length} copies are already past ordered; quantity can't be less than that`;
+  }
+
+  if (removeIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from(INVENTORY_ITEMS_TABLE)
+      .delete()
+      .in('id', removeIds)
+      .eq('status', 'ordered');
+
+    if (deleteError) {
+      console.error(`Error removing copies of purchase ${purchase.id}:`, deleteError.message);
+      return 'Failed to remove inventory copies';
+    }
+  }
+
+  const shares = splitPurchaseCost(purchase);
+  for (let i = 0; i < kept.length; i++) {
+    const item = kept[i];
+    const oldShare = previousShare.get(item.id)!;
+    if (shares[i] === oldShare) continue;
+
+    const { error: itemError } = await supabase
+      .from(INVENTORY_ITEMS_TABLE)
+      .update({ total_cost: item.totalCost - oldShare + shares[i] })
+      .eq('id', item.id);
+
+    if (itemError) {
+      console.error(`Error re-splitting cost of inventory item ${item.id}:`, itemError.message);
+      return 'Failed to update inventory costs';
+    }
+
+    const orderEvent = orderEventByItem.get(item.id);
+    if (orderEvent) {
+      const { error: eventError } = await supabase
+        .from(INVENTORY_EVENTS_TABLE)
+        .update({ cost: shares[i] })
+        .eq('id', orderEvent.id);
+
+      if (eventError) {
+        console.error(`Error updating order event for inventory item ${item.id}:`, eventError.message);
+      }
+    }
+  }
+
+  if (kept.length < purchase.quantity) {
+    const added = await insertOrderedCopies(purchase, shares.slice(kept.length), userId);
+    if (!added) return 'Failed to add inventory copies';
+  }
+
+  return null;
+}
+
+// Items oldest-in-state first, so whatever is stuck shows at the top
+export interface InventoryFilter {
+  status?: InventoryStatus;
+  purchaseId?: number;
+  purchaseIds?: number[];
+  sku?: string;
+  isbns?: string[];
+  saleOrderId?: string;
+  limit?: number;
+}
+
+export async function getInventoryItems(filter: InventoryFilter = {}): Promise<InventoryItem[]> {
+  let query = supabase
+    .from(INVENTORY_ITEMS_TABLE)
+    .select('*')
+    .order('status_changed_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(filter.limit ?? 500);
+
+  if (filter.status) query = query.eq('status', filter.status);
+  if (filter.purchaseId !== undefined) query = query.eq('purchase_id', filter.purchaseId);
+  if (filter.purchaseIds) query = query.in('purchase_id', filter.purchaseIds);
+  if (filter.sku) query = query.eq('sku', filter.sku);
+  if (filter.isbns) query = query.in('isbn', filter.isbns);
+  if (filter.saleOrderId) query = query.eq('sale_order_id', filter.saleOrderId);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching inventory:', error.message);
+    return [];
+  }
+
+  return (data || []).map(rowToItem);
+}
+
+export async function getInventoryItem(id: number): Promise<{ item: InventoryItem; events: InventoryEvent[] } | null> {
+  const [itemRes, eventsRes] = await Promise.all([
+    supabase.from(INVENTORY_ITEMS_TABLE).select('*').eq('id', id).maybeSingle(),
+    supabase.from(INVENTORY_EVENTS_TABLE).select('*').eq('item_id', id).order('occurred_at', { ascending: true }).order('id', { ascending: true }),
+  ]);
+
+  if (itemRes.error || eventsRes.error) {
+    console.error(`Error fetching inventory item ${id}:`, (itemRes.error || eventsRes.error)!.message);
+    return null;
+  }
+  if (!itemRes.data) return null;
+
+  return { item: rowToItem(itemRes.data), events: (eventsRes.data || []).map(rowToEvent) };
+}
+
+// Number of items in each state
+export async function getInventoryCounts(): Promise<InventoryCounts> {
+  const results = await Promise.all(INVENTORY_STATUSES.map(status =>
+    supabase.from(INVENTORY_ITEMS_TABLE).select('*', { count: 'exact', head: true }).eq('status', status)
+  ));
+
+  return Object.fromEntries(INVENTORY_STATUSES.map((status, i) => [status, results[i].count || 0])) as InventoryCounts;
+}
+
+/**
+ * Move an item to its next state and record the event. The update only
+ * applies if the item is still in the state it was read in, so two people
+ * acting on the same copy can't both succeed. Returns the updated item, or an
+ * error message.
+ */
+export async function transitionInventoryItem(
+  id: number,
+  transition: InventoryTransition,
+  userId: string
+): Promise<InventoryItem | string> {
+  const current = await getInventoryItem(id);
+  if (!current) return 'Inventory item not found';
+
+  const { item } = current;
+  const validationError = validateTransition(item.status, transition);
+  if (validationError) return validationError;
+
+  const cost = transition.cost ?? 0;
+  const occurredAt = transition.occurredAt || new Date().toISOString();
+
+  const updates: Partial<InventoryItemRow> = {
+    status: transition.status,
+    status_changed_at: occurredAt,
+    total_cost: item.totalCost + cost,
+  };
+  if (transition.status === 'graded') updates.condition_grade = transition.conditionGrade!.trim();
+  if (transition.status === 'listed') {
+    updates.channel = transition.channel!;
+    updates.sku = transition.sku!.trim();
+    if (transition.listPrice !== undefined) updates.list_price = transition.listPrice;
+  }
+  if (transition.status === 'sold') {
+    updates.sale_price = transition.salePrice!;
+    updates.sale_fees = cost;
+    updates.sale_order_id = transition.orderId || null;
+  }
+  if (transition.status === 'returned') {
+    updates.sale_price = null;
+    updates.sale_fees = null;
+  }
+
+  const { data, error } = await supabase
+    .from(INVENTORY_ITEMS_TABLE)
+    .update(updates)
+    .eq('id', id)
+    .eq('status', item.status)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error updating inventory item ${id}:`, error.message);
+    return 'Failed to update inventory item';
+  }
+  if (!data) return `Item is no longer ${item.status}; reload and try again`;
+
+  const { error: eventError } = await supabase
+    .from(INVENTORY_EVENTS_TABLE)
+    .insert({
+      item_id: id,
+      from_status: item.status,
+      status: transition.status,
+      occurred_at: occurredAt,
+      cost,
+      note: transition.note || null,
+      user_id: userId,
+    });
+
+  if (eventError) {
+    console.error(`Error recording event for inventory item ${id}:`, eventError.message);
+  }
+
+  return rowToItem(data);
+}
+
+/**
+ * Correct the price and fees of a copy that is already sold, e.g. when the
+ * settlement report arrives after the order report. The fee difference is
+ * recorded as a sold → sold event so total_cost stays the sum of event costs.
+ */
+export async function updateSaleAmounts(
+  item: InventoryItem,
+  amounts: { salePrice: number; saleFees: number | null; note: string },
+  userId: string | null
+): Promise<boolean> {
+  const saleFees = amounts.saleFees ?? item.saleFees;
+  const feeDelta = (saleFees ?? 0) - (item.saleFees ?? 0);
+  if (amounts.salePrice === item.salePrice && feeDelta === 0) return true;
+
+  const { error } = await supabase
+    .from(INVENTORY_ITEMS_TABLE)
+    .update({ sale_price: amounts.salePrice, sale_fees: saleFees, total_cost: item.totalCost + feeDelta })
+    .eq('id', item.id)
+    .eq('status', 'sold');
+
+  if (error) {
+    console.error(`Error updating sale amounts for inventory item ${item.id}:`, error.message);
+    return false;
+  }
+
+  if (feeDelta !== 0) {
+    const { error: eventError } = await supabase
+      .from(INVENTORY_EVENTS_TABLE)
+      .insert({
+        item_id: item.id,
+        from_status: 'sold',
+        status: 'sold',
+        occurred_at: new Date().toISOString(),
+        cost: feeDelta,
+        note: amounts.note,
+        user_id: userId,
+      });
+
+    if (eventError) {
+      console.error(`Error recording fee event for inventory item ${item.id}:`, eventError.message);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Undo a sale recorded by transitionInventoryItem, for when a multi-copy sale
+ * fails partway: `item` is the copy as it was before the sale. The sale's
+ * event is removed along with the sold state.
+ */
+export async function revertSale(item: InventoryItem): Promise<boolean> {
+  const { data, error } = await supabase
+    .from(INVENTORY_ITEMS_TABLE)
+    .update({
+      status: item.status,
+      status_changed_at: item.statusChangedAt,
+      sale_price: item.salePrice,
+      sale_fees: item.saleFees,
+      sale_order_id: item.saleOrderId,
+      total_cost: item.totalCost,
+    })
+    .eq('id', item.id)
+    .eq('status', 'sold')
+    .select('id')
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error(`Error reverting sale of inventory item ${item.id}:`, error?.message ?? 'item is no longer sold');
+    return false;
+  }
+
+  const { data: saleEvent } = await supabase
+    .from(INVENTORY_EVENTS_TABLE)
+    .select('id')
+    .eq('item_id', item.id)
+    .eq('from_status', item.status)
+    .eq('status', 'sold')
+    .order('id', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (saleEvent) {
+    const { error: eventError } = await supabase
+      .from(INVENTORY_EVENTS_TABLE)
+      .delete()
+      .eq('id', saleEvent.id);
+
+    if (eventError) {
+      console.error(`Error removing sale event for inventory item ${item.id}:`, eventError.message);
+    }
+  }
+
+  return true;
+}
@@ -0,0 +1,108 @@
+/**
+ * Inventory Lifecycle
+ * States a purchased copy moves through and the rules for moving between
+ * them. Pure, so the inventory page can use it too; persistence lives in
+ * inventory.ts. Event costs cover inbound shipping, prep, return fees and the
+ * like; money is in cents.
+ */
+
+export type InventoryStatus = 'ordered' | 'received' | 'graded' | 'listed' | 'sold' | 'returned' | 'written_off';
+export type SalesChannel = 'FBA' | 'FBM';
+
+export const INVENTORY_STATUSES: InventoryStatus[] = ['ordered', 'received', 'graded', 'listed', 'sold', 'returned', 'written_off'];
+
+export const INVENTORY_STATUS_LABELS: Record<InventoryStatus, string> = {
+  ordered: 'Ordered',
+  received: 'Received',
+  graded: 'Graded',
+  listed: 'Listed',
+  sold: 'Sold',
+  returned: 'Returned',
+  written_off: 'Written off',
+};
+
+// Allowed next states; anything unsold can be written off
+export const INVENTORY_TRANSITIONS: Record<InventoryStatus, InventoryStatus[]> = {
+  ordered: ['received', 'written_off'],
+  received: ['graded', 'written_off'],
+  graded: ['listed', 'written_off'],
+  listed: ['sold', 'graded', 'written_off'],
+  sold: ['returned'],
+  returned: ['graded', 'listed', 'written_off'],
+  written_off: [],
+};
+
+export interface InventoryItem {
+  id: number;
+  purchaseId: number;
+  isbn: string;
+  title: string;
+  status: InventoryStatus;
+  statusChangedAt: string;
+  conditionGrade: string | null;    // set when graded
+  channel: SalesChannel | null;     // set when listed
+  sku: string | null;
+  listPrice: number | null;
+  salePrice: number | null;         // set when sold
+  saleFees: number | null;          // marketplace fees charged on the sale
+  saleOrderId: string | null;       // Amazon order id
+  totalCost: number;                // purchase share plus every event cost
+  createdAt: string;
+}
+
+export interface InventoryEvent {
+  id: number;
+  itemId: number;
+  fromStatus: InventoryStatus | null;
+  status: InventoryStatus;
+  occurredAt: string;
+  cost: number;
+  note: string | null;
+  userId: string | null;
+}
+
+// A requested state change plus the details that state needs
+export interface InventoryTransition {
+  status: InventoryStatus;
+  cost?: number;
+  note?: string | null;
+  occurredAt?: string;
+  conditionGrade?: string;          // graded
+  channel?: SalesChannel;           // listed
+  sku?: string;                     // listed
+  listPrice?: number;               // listed
+  salePrice?: number;               // sold
+  orderId?: string;                 // sold
+}
+
+export type InventoryCounts = Record<InventoryStatus, number>;
+
+// Check a transition from the item's current state; returns an error message or null
+export function validateTransition(from: InventoryStatus, transition: InventoryTransition): string | null {
+  if (!INVENTORY_STATUSES.includes(transition.status)) {
+    return `status must be one of ${INVENTORY_STATUSES.join(', ')}`;
+  }
+  if (!INVENTORY_TRANSITIONS[from].includes(transition.status)) {
+    return `Can't move from ${from} to ${transition.status}`;
+  }
+  if (transition.cost !== undefined && (!Number.isInteger(transition.cost) || transition.cost < 0)) {
+    return 'cost must be a non-negative whole number of cents';
+  }
+  if (transition.occurredAt !== undefined && isNaN(Date.parse(transition.occurredAt))) {
+    return 'occurredAt must be a date';
+  }
+  if (transition.status === 'graded' && !transition.conditionGrade?.trim()) {
+    return 'conditionGrade is required when grading';
+  }
+  if (transition.status === 'listed') {
+    if (transition.channel !== 'FBA' && transition.channel !== 'FBM') return 'channel must be FBA or FBM';
+    if (!transition.sku?.trim()) return 'sku is required when listing';
+    if (transition.listPrice !== undefined && (!Number.isInteger(transition.listPrice) || transition.listPrice < 0)) {
+      return 'listPrice must be a non-negative whole number of cents';
+    }
+  }
+  if (transition.status === 'sold' && (!Number.isInteger(transition.salePrice) || transition.salePrice! < 0)) {
+    return 'salePrice is required when sold, in cents';
+  }
+  return null;
+}
@@ -0,0 +1,74 @@
+/**
+ * ISBN
+ * ISBN-10/13 validation and conversion. No server dependencies, so client
+ * pages (e.g. the barcode scanner) can import it directly.
+ */
+
+export function isbn10to13(isbn10: string): string | null {
+  const clean = isbn10.replace(/[-\s]/g, '');
+  if (clean.length !== 10) return null;
+  const base = '978' + clean.substring(0, 9);
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += parseInt(base[i], 10) * (i % 2 === 0 ? 1 : 3);
+  }
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return base + checkDigit;
+}
+
+export function isbn13to10(isbn13: string): string | null {
+  const clean = isbn13.replace(/[-\s]/g, '');
+  if (clean.length !== 13 || !clean.startsWith('978')) return null;
+  const base = clean.substring(3, 12);
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    sum += parseInt(base[i], 10) * (10 - i);
+  }
+  const remainder = sum % 11;
+  const checkDigit = remainder === 0 ? '0' : remainder === 1 ? 'X' : (11 - remainder).toString();
+  return base + checkDigit;
+}
+
+/**
+ * Validate ISBN format (10 or 13 digits)
+ */
+export function validateIsbn(isbn: string): { valid: boolean; error?: string } {
+  const clean = isbn.replace(/[-\s]/g, '');
+
+  if (!clean) {
+    return { valid: false, error: 'ISBN is empty' };
+  }
+
+  if (!/^\d+X?$/i.test(clean)) {
+    return { valid: false, error: 'ISBN must contain only digits (and X for ISBN-10)' };
+  }
+
+  if (clean.length === 10) {
+    // ISBN-10 validation
+    let sum = 0;
+    for (let i = 0; i < 9; i++) {
+      sum += parseInt(clean[i], 10) * (10 - i);
+    }
+    const lastChar = clean[9].toUpperCase();
+    sum += lastChar === 'X' ? 10 : parseInt(lastChar, 10);
+    if (sum % 11 !== 0) {
+      return { valid: false, error: 'Invalid ISBN-10 checksum' };
+    }
+    return { valid: true };
+  }
+
+  if (clean.length === 13) {
+    // ISBN-13 validation
+    let sum = 0;
+    for (let i = 0; i < 12; i++) {
+      sum += parseInt(clean[i], 10) * (i % 2 === 0 ? 1 : 3);
+    }
+    const checkDigit = (10 - (sum % 10)) % 10;
+    if (checkDigit !== parseInt(clean[12], 10)) {
+      return { valid: false, error: 'Invalid ISBN-13 checksum' };
+    }
+    return { valid: true };
+  }
+
+  return { valid: false, error: `ISBN must be 10 or 13 digits (got ${clean.length})` };
+}
@@ -3,6 +3,22 @@
  * Fetches Amazon product data including prices, sales rank, and offers.
  */
 
+import {
+  DEFAULT_FEE_PROFILE,
+  lookupFulfillmentFee,
+  lookupMediaMailRate,
+  getSizeTier,
+  getShippingWeightOz,
+  type FeeProfile,
+  type PackageDimensions,
+  type SizeTier,
+} from './feeProfiles';
+import { recordTokenUsage, waitForTokens, affordableProducts, TOKENS_PER_PRODUCT } from './keepaTokens';
+import { isbn10to13, isbn13to10, validateIsbn } from './isbn';
+
+// ISBN helpers live in ./isbn so client pages can use them; re-exported for existing callers
+export { isbn10to13, isbn13to10, validateIsbn };
+
 const KEEPA_API_BASE = 'https://api.keepa.com';
 const KEEPA_API_KEY = process.env.KEEPA_API_KEY || '';
 
@@ -20,34 +36,23 @@ const PRICE_TYPES = {
   COUNT_USED: 12,
   RATING: 16,
   COUNT_REVIEWS: 17,
+  BUY_BOX_SHIPPING: 18,     // triplets: time, price, shipping
   BUY_BOX_USED: 23,
   COUNT_NEW_FBA: 28,
 };
 
-// ISBN conversion utilities
-export function isbn10to13(isbn10: string): string | null {
-  const clean = isbn10.replace(/[-\s]/g, '');
-  if (clean.length !== 10) return null;
-  const base = '978' + clean.substring(0, 9);
-  let sum = 0;
-  for (let i = 0; i < 12; i++) {
-    sum += parseInt(base[i], 10) * (i % 2 === 0 ? 1 : 3);
-  }
-  const checkDigit = (10 - (sum % 10)) % 10;
-  return base + checkDigit;
+// One point of a decoded Keepa series; v is null while there was no offer/rank
+export interface HistoryPoint {
+  t: number;            // epoch ms
+  v: number | null;     // cents for prices, rank for salesRank
 }
 
-export function isbn13to10(isbn13: string): string | null {
-  const clean = isbn13.replace(/[-\s]/g, '');
-  if (clean.length !== 13 || !clean.startsWith('978')) return null;
-  const base = clean.substring(3, 12);
-  let sum = 0;
-  for (let i = 0; i < 9; i++) {
-    sum += parseInt(base[i], 10) * (10 - i);
-  }
-  const remainder = sum % 11;
-  const checkDigit = remainder === 0 ? '0' : remainder === 1 ? 'X' : (11 - remainder).toString();
-  return base + checkDigit;
+export interface KeepaHistory {
+  buyBox: HistoryPoint[];
+  used: HistoryPoint[];
+  new: HistoryPoint[];
+  amazon: HistoryPoint[];
+  salesRank: HistoryPoint[];
 }
 
 export interface KeepaProduct {
@@ -75,6 +80,9 @@ export interface KeepaProduct {
   imageUrl: string | null;
   category: string | null;
   isAmazon: boolean;
+  weightOz: number | null;                 // package weight
+  dimensions: PackageDimensions | null;    // package dimensions in inches
+  history: KeepaHistory;                   // last HISTORY_DAYS of price/rank changes
   lastUpdate: number;
 }
 
@@ -91,19 +99,28 @@ interface KeepaStats {
   outOfStockPercentage90?: number;
 }
 
-interface KeepaProductRaw {
+export interface KeepaProductRaw {
   asin: string;
   title?: string;
   csv?: (number[] | null)[];
   stats?: KeepaStats;
   imagesCSV?: string;
   categoryTree?: Array<{ catId: number; name: string }>;
+  eanList?: string[];
+  packageWeight?: number;     // grams
+  packageLength?: number;     // millimeters
+  packageWidth?: number;
+  packageHeight?: number;
+  itemWeight?: number;        // grams
   lastUpdate?: number;
 }
 
 interface KeepaApiResponse {
   tokensLeft: number;
   tokensConsumed: number;
+  refillIn?: number;
+  refillRate?: number;
+  timestamp?: number;
   products?: KeepaProductRaw[];
   error?: { message: string };
 }
@@ -119,6 +136,66 @@ function keepaPriceToCents(price: number | undefined | null): number | null {
   return price;
 }
 
+const GRAMS_PER_OZ = 28.3495;
+const MM_PER_INCH = 25.4;
+
+// Keepa reports 0 or -1 for unknown weights/dimensions
+function parsePackageWeightOz(raw: KeepaProductRaw): number | null {
+  const grams = raw.packageWeight && raw.packageWeight > 0 ? raw.packageWeight
+    : raw.itemWeight && raw.itemWeight > 0 ? raw.itemWeight
+    : null;
+  return grams !== null ? Math.round((grams / GRAMS_PER_OZ) * 10) / 10 : null;
+}
+
+function parsePackageDimensions(raw: KeepaProductRaw): PackageDimensions | null {
+  const { packageLength, packageWidth, packageHeight } = raw;
+  if (!packageLength || !packageWidth || !packageHeight || packageLength <= 0 || packageWidth <= 0 || packageHeight <= 0) {
+    return null;
+  }
+  return {
+    lengthIn: Math.round((packageLength / MM_PER_INCH) * 100) / 100,
+    widthIn: Math.round((packageWidth / MM_PER_INCH) * 100) / 100,
+    heightIn: Math.round((packageHeight / MM_PER_INCH) * 100) / 100,
+  };
+}
+
+// Keepa timestamps are minutes since 2011-01-01
+export function keepaMinutesToMs(keepaTime: number): number {
+  return (keepaTime + 21564000) * 60000;
+}
+
+// How much history the product API returns (the longest chart range)
+const HISTORY_DAYS = 365;
+
+/**
+ * Decode a Keepa csv array ([time, value, time, value, ...], or triplets with
+ * a trailing shipping cost when stride is 3) into points within the last
+ * `days`. The last point before the window is kept, clamped to the window
+ * start, so step charts begin with the value that was in effect.
+ */
+export function decodeKeepaSeries(csv: number[] | null | undefined, stride: 2 | 3 = 2, days: number = HISTORY_DAYS): HistoryPoint[] {
+  if (!csv || csv.length < stride) return [];
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  const points: HistoryPoint[] = [];
+  let before: HistoryPoint | null = null;
+
+  for (let i = 0; i + stride - 1 < csv.length; i += stride) {
+    const t = keepaMinutesToMs(csv[i]);
+    const raw = csv[i + 1];
+    const shipping = stride === 3 ? Math.max(0, csv[i + 2]) : 0;
+    const point = { t, v: raw < 0 ? null : raw + shipping };
+
+    if (t < cutoff) {
+      before = point;
+    } else {
+      points.push(point);
+    }
+  }
+
+  if (before) points.unshift({ t: cutoff, v: before.v });
+  return points;
+}
+
 function calculateDaysWithSales(rankCsv: number[] | null | undefined, days: number): number {
   if (!rankCsv || rankCsv.length < 4) return 0;
   const now = Date.now();
@@ -129,7 +206,7 @@ function calculateDaysWithSales(rankCsv: number[] | null | undefined, days: numb
   for (let i = 0; i < rankCsv.length - 1; i += 2) {
     const keepaTime = rankCsv[i];
     const rank = rankCsv[i + 1];
-    const timestamp = (keepaTime + 21564000) * 60000;
+    const timestamp = keepaMinutesToMs(keepaTime);
 
     if (timestamp < cutoffTime) {
       prevRank = rank > 0 ? rank : null;
@@ -146,7 +223,7 @@ function calculateDaysWithSales(rankCsv: number[] | null | undefined, days: numb
   return daysWithDrops.size;
 }
 
-function parseKeepaProduct(raw: KeepaProductRaw): KeepaProduct {
+export function parseKeepaProduct(raw: KeepaProductRaw): KeepaProduct {
   const csv = raw.csv || [];
   const stats = raw.stats;
   const currentStats = stats?.current || [];
@@ -222,60 +299,62 @@ function parseKeepaProduct(raw: KeepaProductRaw): KeepaProduct {
     imageUrl,
     category,
     isAmazon: amazonPrice !== null && amazonPrice > 0,
+    weightOz: parsePackageWeightOz(raw),
+    dimensions: parsePackageDimensions(raw),
+    history: {
+      buyBox: decodeKeepaSeries(csv[PRICE_TYPES.BUY_BOX_SHIPPING], 3),
+      used: decodeKeepaSeries(csv[PRICE_TYPES.USED]),
+      new: decodeKeepaSeries(csv[PRICE_TYPES.NEW]),
+      amazon: decodeKeepaSeries(csv[PRICE_TYPES.AMAZON]),
+      salesRank: decodeKeepaSeries(rankCsv),
+    },
     lastUpdate: raw.lastUpdate || 0,
   };
 }
 
-/**
- * Validate ISBN format (10 or 13 digits)
- */
-export function validateIsbn(isbn: string): { valid: boolean; error?: string } {
-  const clean = isbn.replace(/[-\s]/g, '');
 
-  if (!clean) {
-    return { valid: false, error: 'ISBN is empty' };
+// Keepa accepts up to 100 product codes per /product request
+const MAX_CODES_PER_REQUEST = 100;
+
+// Longest we'll sleep for tokens to refill before giving up on a request
+const MAX_TOKEN_WAIT_MS = 60_000;
+
+// One /product request for a list of codes, paced by the token budget.
+// Throws on transport or API errors, or when tokens won't refill in time.
+async function requestKeepaProducts(codes: string[]): Promise<KeepaProductRaw[]> {
+  if (!KEEPA_API_KEY) {
+    throw new Error('Keepa API key not configured');
   }
 
-  if (!/^\d+X?$/i.test(clean)) {
-    return { valid: false, error: 'ISBN must contain only digits (and X for ISBN-10)' };
+  if (!(await waitForTokens(codes.length * TOKENS_PER_PRODUCT, MAX_TOKEN_WAIT_MS))) {
+    throw new Error('Keepa token budget exhausted');
   }
 
-  if (clean.length === 10) {
-    // ISBN-10 validation
-    let sum = 0;
-    for (let i = 0; i < 9; i++) {
-      sum += parseInt(clean[i], 10) * (10 - i);
-    }
-    const lastChar = clean[9].toUpperCase();
-    sum += lastChar === 'X' ? 10 : parseInt(lastChar, 10);
-    if (sum % 11 !== 0) {
-      return { valid: false, error: 'Invalid ISBN-10 checksum' };
-    }
-    return { valid: true };
+  const url = `${KEEPA_API_BASE}/product?key=${KEEPA_API_KEY}&domain=1&code=${codes.join(',')}&stats=180&offers=20`;
+
+  const response = await fetch(url);
+
+  // Keepa reports the token balance on errors too (429 = out of tokens)
+  const data: KeepaApiResponse | null = await response.json().catch(() => null);
+  if (data && typeof data.tokensLeft === 'number') {
+    await recordTokenUsage(data);
   }
 
-  if (clean.length === 13) {
-    // ISBN-13 validation
-    let sum = 0;
-    for (let i = 0; i < 12; i++) {
-      sum += parseInt(clean[i], 10) * (i % 2 === 0 ? 1 : 3);
-    }
-    const checkDigit = (10 - (sum % 10)) % 10;
-    if (checkDigit !== parseInt(clean[12], 10)) {
-      return { valid: false, error: 'Invalid ISBN-13 checksum' };
-    }
-    return { valid: true };
+  if (!response.ok || !data) {
+    throw new Error(response.status === 429 ? 'Keepa token budget exhausted' : `Keepa API error: ${response.status}`);
+  }
+  if (data.error) {
+    throw new Error(`Keepa API error: ${data.error.message}`);
   }
 
-  return { valid: false, error: `ISBN must be 10 or 13 digits (got ${clean.length})` };
+  return data.products || [];
 }
 
-export async function getProductByIsbn(isbn: string): Promise<KeepaProduct | null> {
-  if (!KEEPA_API_KEY) {
-    console.error('Keepa API key not configured');
-    return null;
-  }
-
+/**
+ * Fetch a product by ISBN, throwing on transport or Keepa API errors so
+ * callers can retry. Returns null when the ISBN is invalid or not on Amazon.
+ */
+export async function fetchProductByIsbn(isbn: string): Promise<KeepaProduct | null> {
   const cleanIsbn = isbn.replace(/[-\s]/g, '');
 
   // Validate ISBN format
@@ -284,50 +363,233 @@ export async function getProductByIsbn(isbn: string): Promise<KeepaProduct | nul
     console.error('Invalid ISBN:', validation.error);
     return null;
   }
-  const url = `${KEEPA_API_BASE}/product?key=${KEEPA_API_KEY}&domain=1&code=${cleanIsbn}&stats=180&offers=20`;
 
-  try {
-    const response = await fetch(url);
-    if (!response.ok) {
-      console.error('Keepa API error:', response.status);
-      return null;
-    }
+  const products = await requestKeepaProducts([cleanIsbn]);
+  return products.length > 0 ? parseKeepaProduct(products[0]) : null;
+}
 
-    const data: KeepaApiResponse = await response.json();
-    if (data.error) {
-      console.error('Keepa API error:', data.error.message);
-      return null;
+// Both ISBN forms for a code; Keepa matches books by EAN (ISBN-13) and
+// older books often use the ISBN-10 as their ASIN
+function isbnVariants(isbn: string): string[] {
+  const variants = [isbn];
+  const other = isbn.length === 10 ? isbn10to13(isbn) : isbn13to10(isbn);
+  if (other) variants.push(other);
+  return variants;
+}
+
+/**
+ * Fetch raw Keepa products for many ISBNs in chunks of up to 100 codes per
+ * request, sized to the current token budget. Each returned product is matched
+ * back to the requested ISBN through its ASIN or EAN list, trying both the
+ * ISBN-10 and ISBN-13 form. Throws on transport or API errors.
+ */
+export async function getRawProductsByIsbns(isbns: string[]): Promise<{
+  products: Map<string, KeepaProductRaw>;  // keyed by the ISBN as passed in
+  missing: string[];                       // valid ISBNs Keepa returned nothing for
+  invalid: string[];
+}> {
+  const products = new Map<string, KeepaProductRaw>();
+  const invalid: string[] = [];
+  // Cleaned ISBN -> the input strings that normalise to it
+  const requested = new Map<string, string[]>();
+
+  for (const isbn of isbns) {
+    const clean = isbn.replace(/[-\s]/g, '').toUpperCase();
+    if (!validateIsbn(clean).valid) {
+      invalid.push(isbn);
+      continue;
     }
+    requested.set(clean, [...(requested.get(clean) || []), isbn]);
+  }
 
-    console.log(`Keepa tokens left: ${data.tokensLeft}, consumed: ${data.tokensConsumed}`);
+  const cleanIsbns = Array.from(requested.keys());
+  const matched = new Set<string>();
 
-    if (!data.products || data.products.length === 0) {
-      return null;
+  for (let i = 0; i < cleanIsbns.length;) {
+    // Size each chunk to what the token balance covers (at least one code,
+    // which requestKeepaProducts will wait for)
+    const chunkSize = Math.max(1, await affordableProducts(Math.min(MAX_CODES_PER_REQUEST, cleanIsbns.length - i)));
+    const chunk = cleanIsbns.slice(i, i + chunkSize);
+    i += chunk.length;
+    const rawProducts = await requestKeepaProducts(chunk);
+
+    for (const raw of rawProducts) {
+      const codes = new Set([raw.asin, ...(raw.eanList || [])]);
+      const match = chunk.find(isbn => !matched.has(isbn) && isbnVariants(isbn).some(v => codes.has(v)));
+      if (!match) continue;
+
+      matched.add(match);
+      requested.get(match)!.forEach(original => products.set(original, raw));
     }
+  }
+
+  const missing = cleanIsbns
+    .filter(isbn => !matched.has(isbn))
+    .flatMap(isbn => requested.get(isbn)!);
 
-    return parseKeepaProduct(data.products[0]);
+  return { products, missing, invalid };
+}
+
+// Parsed variant of getRawProductsByIsbns
+export async function getProductsByIsbns(isbns: string[]): Promise<{
+  products: Map<string, KeepaProduct>;
+  missing: string[];
+  invalid: string[];
+}> {
+  const { products: raw, missing, invalid } = await getRawProductsByIsbns(isbns);
+  const products = new Map<string, KeepaProduct>();
+  raw.forEach((product, isbn) => products.set(isbn, parseKeepaProduct(product)));
+  return { products, missing, invalid };
+}
+
+export async function getProductByIsbn(isbn: string): Promise<KeepaProduct | null> {
+  try {
+    return await fetchProductByIsbn(isbn);
   } catch (error) {
     console.error('Keepa API fetch error:', error);
     return null;
   }
 }
 
-// Fee calculation for profit estimation
-export function calculateFees(ebayPriceCents: number, amazonPriceCents: number): {
+// ── Seasonal sell price estimation ──
+
+// Textbook demand peaks around semester starts; everything else is off-season.
+// Windows are [month, day] inclusive and may wrap the year end.
+export type SellSeason = 'fall_rush' | 'spring_rush' | 'off_season';
+
+const SEASON_WINDOWS: { season: Exclude<SellSeason, 'off_season'>; start: [number, number]; end: [number, number] }[] = [
+  { season: 'fall_rush', start: [8, 1], end: [9, 15] },
+  { season: 'spring_rush', start: [12, 20], end: [1, 31] },
+];
+
+// Percentile of in-season daily prices treated as a realistic sale price
+const SELL_PRICE_PERCENTILE = 40;
+
+// Fewer in-season days of history than this and the season is unknown
+const MIN_SEASON_SAMPLES = 7;
+
+export type PriceEstimateMethod = 'buy_box' | 'seasonal';
+
+export interface SellPriceEstimate {
+  method: PriceEstimateMethod;            // what `price` is based on
+  price: number;                          // cents
+  currentBuyBox: number | null;
+  seasonPrices: Record<SellSeason, number | null>;
+  targetDate: string;                     // YYYY-MM-DD
+  targetSeason: SellSeason;
+}
+
+export function getSellSeason(date: Date): SellSeason {
+  const md = (date.getUTCMonth() + 1) * 100 + date.getUTCDate();
+  for (const w of SEASON_WINDOWS) {
+    const start = w.start[0] * 100 + w.start[1];
+    const end = w.end[0] * 100 + w.end[1];
+    const inWindow = start <= end ? md >= start && md <= end : md >= start || md <= end;
+    if (inWindow) return w.season;
+  }
+  return 'off_season';
+}
+
+// Next date (after `from`) on which a rush season begins
+export function nextSellSeasonStart(from: Date = new Date()): Date {
+  const candidates = SEASON_WINDOWS.flatMap(w => [0, 1].map(yearOffset =>
+    new Date(Date.UTC(from.getUTCFullYear() + yearOffset, w.start[0] - 1, w.start[1]))
+  ));
+  return candidates.filter(d => d > from).sort((a, b) => a.getTime() - b.getTime())[0];
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((p / 100) * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * Estimate a realistic sell price per season from the last year of buy box
+ * history (falling back to used offers), by sampling the price in effect each
+ * day and taking a percentile within each season window. The projected price
+ * is the estimate for the season containing targetDate; without enough
+ * history it falls back to the current buy box price.
+ */
+export function estimateSellPrice(product: KeepaProduct, targetDate: Date = nextSellSeasonStart()): SellPriceEstimate | null {
+  const series = product.history.buyBox.some(p => p.v !== null) ? product.history.buyBox : product.history.used;
+  const samples: Record<SellSeason, number[]> = { fall_rush: [], spring_rush: [], off_season: [] };
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const now = Date.now();
+  let index = 0;
+  let current: number | null = null;
+  for (let t = now - 365 * dayMs; t <= now; t += dayMs) {
+    while (index < series.length && series[index].t <= t) {
+      current = series[index].v;
+      index++;
+    }
+    if (current !== null) samples[getSellSeason(new Date(t))].push(current);
+  }
+
+  const seasonPrices: Record<SellSeason, number | null> = {
+    fall_rush: samples.fall_rush.length >= MIN_SEASON_SAMPLES ? percentile(samples.fall_rush, SELL_PRICE_PERCENTILE) : null,
+    spring_rush: samples.spring_rush.length >= MIN_SEASON_SAMPLES ? percentile(samples.spring_rush, SELL_PRICE_PERCENTILE) : null,
+    off_season: samples.off_season.length >= MIN_SEASON_SAMPLES ? percentile(samples.off_season, SELL_PRICE_PERCENTILE) : null,
+  };
+
+  const targetSeason = getSellSeason(targetDate);
+  const projected = seasonPrices[targetSeason];
+  const price = projected ?? product.buyBoxPrice;
+  if (price === null) return null;
+
+  return {
+    method: projected !== null ? 'seasonal' : 'buy_box',
+    price,
+    currentBuyBox: product.buyBoxPrice,
+    seasonPrices,
+    targetDate: targetDate.toISOString().slice(0, 10),
+    targetSeason,
+  };
+}
+
+// Fee calculation for profit estimation. Weight and dimensions select the FBA
+// size tier/fulfillment fee and the Media Mail rate; without them the
+// profile's flat defaults apply.
+export function calculateFees(
+  ebayPriceCents: number,
+  amazonPriceCents: number,
+  options: {
+    profile?: FeeProfile;
+    weightOz?: number | null;
+    dimensions?: PackageDimensions | null;
+  } = {}
+): {
   fbaProfit: number;
   fbmProfit: number;
   fbaRoi: number;
   fbmRoi: number;
   referralFee: number;
   fulfillmentFee: number;
+  fbmShipping: number;
+  sizeTier: SizeTier | null;
+  feeProfileId: number | null;
 } {
-  const referralFee = Math.round(amazonPriceCents * 0.15);
-  const fulfillmentFee = 354; // ~$3.54 average for books
-  const inboundShipping = 50; // ~$0.50 per book
-  const closingFee = 180; // $1.80 media closing fee
-  const fbmShipping = 399; // $3.99 media mail
+  const profile = options.profile ?? DEFAULT_FEE_PROFILE;
+  const weightOz = options.weightOz != null && options.weightOz > 0 ? options.weightOz : null;
+  const dimensions = options.dimensions ?? null;
+
+  const referralFee = Math.round(amazonPriceCents * profile.referralRate);
+  const inboundShipping = profile.inboundShipping;
+  const closingFee = profile.closingFee;
+
+  let sizeTier: SizeTier | null = null;
+  let fulfillmentFee = profile.defaultFulfillmentFee;
+  let fbmShipping = profile.fbmShipping;
+  if (weightOz !== null) {
+    sizeTier = getSizeTier(weightOz, dimensions);
+    const billableOz = getShippingWeightOz(weightOz, dimensions, sizeTier);
+    fulfillmentFee = lookupFulfillmentFee(profile, sizeTier, billableOz) ?? profile.defaultFulfillmentFee;
+    fbmShipping = lookupMediaMailRate(profile, weightOz) ?? profile.fbmShipping;
+  }
 
-  const ebayFee = Math.round(ebayPriceCents * 0.13);
+  const ebayFee = Math.round(ebayPriceCents * profile.ebayFeeRate);
   const totalEbayCost = ebayPriceCents + ebayFee;
 
   const fbaProfit = amazonPriceCents - referralFee - fulfillmentFee - inboundShipping - totalEbayCost;
@@ -336,54 +598,15 @@ export function calculateFees(ebayPriceCents: number, amazonPriceCents: number):
   const fbaRoi = totalEbayCost > 0 ? Math.round((fbaProfit / totalEbayCost) * 100) : 0;
   const fbmRoi = totalEbayCost > 0 ? Math.round((fbmProfit / totalEbayCost) * 100) : 0;
 
-  return { fbaProfit, fbmProfit, fbaRoi, fbmRoi, referralFee, fulfillmentFee };
-}
-
-// Decision logic
-export function makeDecision(
-  profit: number,
-  roi: number,
-  salesRank: number | null,
-  salesDrops30: number | null,
-  fbaCount: number,
-  isAmazon: boolean
-): { decision: 'BUY' | 'REVIEW' | 'REJECT'; reason: string; score: number } {
-  // Knockout filters
-  if (profit < 300) return { decision: 'REJECT', reason: 'Profit below $3', score: 0 };
-  if (roi < 30) return { decision: 'REJECT', reason: 'ROI below 30%', score: 0 };
-  if (salesRank && salesRank > 3000000) return { decision: 'REJECT', reason: 'Rank too high (>3M)', score: 0 };
-  if (salesDrops30 !== null && salesDrops30 < 2) return { decision: 'REJECT', reason: 'No sales velocity', score: 0 };
-  if (isAmazon) return { decision: 'REJECT', reason: 'Amazon is selling', score: 0 };
-
-  // Calculate score
-  let score = 50;
-
-  // Profit bonus
-  if (profit >= 1000) score += 20;
-  else if (profit >= 500) score += 10;
-
-  // ROI bonus
-  if (roi >= 100) score += 15;
-  else if (roi >= 50) score += 10;
-
-  // Rank bonus
-  if (salesRank) {
-    if (salesRank < 100000) score += 15;
-    else if (salesRank < 500000) score += 10;
-    else if (salesRank < 1000000) score += 5;
-  }
-
-  // Velocity bonus
-  if (salesDrops30 && salesDrops30 >= 10) score += 10;
-  else if (salesDrops30 && salesDrops30 >= 5) score += 5;
-
-  // Competition penalty
-  if (fbaCount > 10) score -= 10;
-  else if (fbaCount > 5) score -= 5;
-
-  score = Math.min(100, Math.max(0, score));
-
-  if (score >= 70) return { decision: 'BUY', reason: 'Strong opportunity', score };
-  if (score >= 50) return { decision: 'REVIEW', reason: 'Needs review', score };
-  return { decision: 'REJECT', reason: 'Below threshold', score };
+  return {
+    fbaProfit,
+    fbmProfit,
+    fbaRoi,
+    fbmRoi,
+    referralFee,
+    fulfillmentFee,
+    fbmShipping,
+    sizeTier,
+    feeProfileId: profile.id,
+  };
 }
@@ -0,0 +1,227 @@
+import { supabase } from './supabase';
+import {
+  getRawProductsByIsbns,
+  parseKeepaProduct,
+  validateIsbn,
+  isbn10to13,
+  isbn13to10,
+  type KeepaProduct,
+  type KeepaProductRaw,
+} from './keepaApi';
+
+/**
+ * Keepa Response Cache
+ * Stores raw Keepa product JSON in keepa_cache, keyed by ASIN with both ISBN
+ * forms indexed, so the detail modal and the evaluator share lookups. Raw
+ * JSON is parsed on read, so parser changes apply to cached rows too.
+ * ISBNs Keepa doesn't know are remembered in keepa_cache_misses for a
+ * shorter time, so rescanning them doesn't spend tokens on every lookup.
+ */
+
+export const KEEPA_CACHE_TABLE = 'keepa_cache';
+
+// Entries younger than this are fresh; older ones are served as stale
+export const CACHE_TTL_MS = (parseFloat(process.env.KEEPA_CACHE_TTL_HOURS || '') || 24) * 60 * 60 * 1000;
+
+export const KEEPA_MISSES_TABLE = 'keepa_cache_misses';
+
+// A not-found answer is trusted this long before Keepa is asked again
+export const MISS_TTL_MS = (parseFloat(process.env.KEEPA_MISS_TTL_HOURS || '') || 6) * 60 * 60 * 1000;
+
+export interface CachedProduct {
+  product: KeepaProduct;
+  stale: boolean;
+  cachedAt: string;
+  source: 'cache' | 'keepa';
+}
+
+interface KeepaCacheRow {
+  asin: string;
+  isbn13: string | null;
+  isbn10: string | null;
+  product: KeepaProductRaw;
+  fetched_at: string;
+}
+
+function normalizeIsbn(isbn: string): { isbn13: string | null; isbn10: string | null } {
+  const clean = isbn.replace(/[-\s]/g, '').toUpperCase();
+  if (clean.length === 10) return { isbn13: isbn10to13(clean), isbn10: clean };
+  return { isbn13: clean, isbn10: isbn13to10(clean) };
+}
+
+// Cached rows for the given ISBNs, keyed by the ISBN as passed in
+async function readCache(isbns: string[]): Promise<Map<string, KeepaCacheRow>> {
+  const result = new Map<string, KeepaCacheRow>();
+  const keys = isbns.map(isbn => ({ isbn, ...normalizeIsbn(isbn) }));
+  const isbn13s = keys.map(k => k.isbn13).filter((v): v is string => !!v);
+  if (isbn13s.length === 0) return result;
+
+  const { data, error } = await supabase
+    .from(KEEPA_CACHE_TABLE)
+    .select('*')
+    .in('isbn13', isbn13s);
+
+  if (error) {
+    console.error('Error reading Keepa cache:', error.message);
+    return result;
+  }
+
+  const rows: KeepaCacheRow[] = data || [];
+  for (const key of keys) {
+    const row = rows.find(r => r.isbn13 === key.isbn13);
+    if (row) result.set(key.isbn, row);
+  }
+  return result;
+}
+
+async function writeCache(entries: Array<{ isbn: string; raw: KeepaProductRaw }>): Promise<string> {
+  const fetchedAt = new Date().toISOString();
+  if (entries.length === 0) return fetchedAt;
+
+  // One row per ASIN, even if several requested ISBNs resolved to it
+  const rows = new Map<string, KeepaCacheRow>();
+  for (const { isbn, raw } of entries) {
+    rows.set(raw.asin, { asin: raw.asin, ...normalizeIsbn(isbn), product: raw, fetched_at: fetchedAt });
+  }
+
+  const { error } = await supabase
+    .from(KEEPA_CACHE_TABLE)
+    .upsert(Array.from(rows.values()), { onConflict: 'asin' });
+
+  if (error) {
+    console.error('Error writing Keepa cache:', error.message);
+  }
+  return fetchedAt;
+}
+
+// Which of these ISBNs Keepa reported as not found within MISS_TTL_MS
+async function readMisses(isbns: string[]): Promise<Set<string>> {
+  const keys = isbns.map(isbn => ({ isbn, isbn13: normalizeIsbn(isbn).isbn13 }));
+  const isbn13s = keys.map(k => k.isbn13).filter((v): v is string => !!v);
+  if (isbn13s.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from(KEEPA_MISSES_TABLE)
+    .select('isbn13')
+    .in('isbn13', isbn13s)
+    .gte('checked_at', new Date(Date.now() - MISS_TTL_MS).toISOString());
+
+  if (error) {
+    console.error('Error reading Keepa misses:', error.message);
+    return new Set();
+  }
+
+  const recent = new Set((data || []).map(row => row.isbn13 as string));
+  return new Set(keys.filter(k => k.isbn13 && recent.has(k.isbn13)).map(k => k.isbn));
+}
+
+async function writeMisses(isbns: string[]): Promise<void> {
+  const checkedAt = new Date().toISOString();
+  const isbn13s = new Set(isbns.map(isbn => normalizeIsbn(isbn).isbn13).filter((v): v is string => !!v));
+  if (isbn13s.size === 0) return;
+
+  const { error } = await supabase
+    .from(KEEPA_MISSES_TABLE)
+    .upsert(Array.from(isbn13s).map(isbn13 => ({ isbn13, checked_at: checkedAt })), { onConflict: 'isbn13' });
+
+  if (error) {
+    console.error('Error writing Keepa misses:', error.message);
+  }
+}
+
+// Fetch from Keepa and store; returns entries keyed by the ISBN as passed in
+async function fetchAndCache(isbns: string[]): Promise<{ products: Map<string, CachedProduct>; missing: string[]; invalid: string[] }> {
+  const { products: raw, missing, invalid } = await getRawProductsByIsbns(isbns);
+  const entries = Array.from(raw.entries()).map(([isbn, product]) => ({ isbn, raw: product }));
+  const fetchedAt = await writeCache(entries);
+  await writeMisses(missing);
+
+  const products = new Map<string, CachedProduct>();
+  for (const { isbn, raw: product } of entries) {
+    products.set(isbn, { product: parseKeepaProduct(product), stale: false, cachedAt: fetchedAt, source: 'keepa' });
+  }
+  return { products, missing, invalid };
+}
+
+// ISBNs with a background refresh in flight on this instance
+const refreshing = new Set<string>();
+
+// Best effort: on serverless the instance may freeze once the response is
+// sent, in which case the next request past the TTL simply tries again
+function refreshInBackground(isbns: string[]): void {
+  const todo = isbns.filter(isbn => !refreshing.has(isbn));
+  if (todo.length === 0) return;
+
+  todo.forEach(isbn => refreshing.add(isbn));
+  fetchAndCache(todo)
+    .catch(error => console.error('Keepa cache background refresh failed:', error))
+    .finally(() => todo.forEach(isbn => refreshing.delete(isbn)));
+}
+
+/**
+ * Look up many ISBNs through the cache. Fresh entries are served as-is; stale
+ * entries are served with stale=true and refreshed in the background, unless
+ * allowStale is false, in which case they are refetched before returning.
+ * ISBNs recently not found are reported missing without asking Keepa.
+ * force=true skips the cache entirely. Throws on Keepa errors.
+ */
+export async function getCachedProductsByIsbns(
+  isbns: string[],
+  options: { force?: boolean; allowStale?: boolean } = {}
+): Promise<{ products: Map<string, CachedProduct>; missing: string[]; invalid: string[] }> {
+  const { force = false, allowStale = true } = options;
+  const valid = isbns.filter(isbn => validateIsbn(isbn.replace(/[-\s]/g, '')).valid);
+  const invalid = isbns.filter(isbn => !valid.includes(isbn));
+
+  const products = new Map<string, CachedProduct>();
+  const toFetch: string[] = [];
+  const toRefresh: string[] = [];
+
+  const cached = force ? new Map<string, KeepaCacheRow>() : await readCache(valid);
+  const now = Date.now();
+
+  for (const isbn of valid) {
+    const row = cached.get(isbn);
+    if (!row) {
+      toFetch.push(isbn);
+      continue;
+    }
+
+    const stale = now - new Date(row.fetched_at).getTime() > CACHE_TTL_MS;
+    if (stale && !allowStale) {
+      toFetch.push(isbn);
+      continue;
+    }
+
+    products.set(isbn, { product: parseKeepaProduct(row.product), stale, cachedAt: row.fetched_at, source: 'cache' });
+    if (stale) toRefresh.push(isbn);
+  }
+
+  let missing: string[] = [];
+  if (toFetch.length > 0) {
+    const recentMisses = force ? new Set<string>() : await readMisses(toFetch);
+    missing = toFetch.filter(isbn => recentMisses.has(isbn));
+
+    const fetchNow = toFetch.filter(isbn => !recentMisses.has(isbn));
+    if (fetchNow.length > 0) {
+      const fetched = await fetchAndCache(fetchNow);
+      fetched.products.forEach((entry, isbn) => products.set(isbn, entry));
+      missing.push(...fetched.missing);
+    }
+  }
+
+  if (toRefresh.length > 0) refreshInBackground(toRefresh);
+
+  return { products, missing, invalid };
+}
+
+// Single-ISBN lookup through the cache; returns null when not found or on Keepa errors
+export async function getCachedProductByIsbn(isbn: string, options: { force?: boolean } = {}): Promise<CachedProduct | null> {
+  try {
+    const { products } = await getCachedProductsByIsbns([isbn], options);
+    return products.get(isbn) ?? null;
+  } catch (error) {
+    console.error('Keepa API fetch error:', error);
+    return null;
+  }
+}
@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+
+/**
+ * Keepa Token Accounting
+ * Every Keepa response reports the remaining token balance and refill rate.
+ * We persist the latest snapshot so all serverless instances (and the
+ * dashboard) share it, and use it to pace requests instead of fixed delays.
+ */
+
+export const KEEPA_TOKENS_TABLE = 'keepa_token_state';
+
+// Approximate cost of one /product lookup with stats and offers=20
+export const TOKENS_PER_PRODUCT = 7;
+
+// Evaluation jobs pause below this balance so interactive lookups still work
+export const MIN_TOKENS_FOR_JOBS = parseInt(process.env.KEEPA_MIN_TOKENS_FOR_JOBS || '', 10) || 100;
+
+// Keepa's bucket holds at most one hour of refills
+const BUCKET_MINUTES = 60;
+
+export interface KeepaTokenSnapshot {
+  tokensLeft: number;
+  refillRate: number;          // tokens per minute
+  refillInMs: number;          // ms until the next refill
+  tokensConsumed: number;      // by the request that produced this snapshot
+  recordedAt: number;          // epoch ms (Keepa's timestamp when available)
+}
+
+export interface KeepaTokenBudget extends KeepaTokenSnapshot {
+  estimatedTokens: number;     // tokensLeft plus refills since recordedAt
+}
+
+// Fields Keepa includes in every API response
+export interface KeepaTokenFields {
+  tokensLeft: number;
+  tokensConsumed: number;
+  refillIn?: number;
+  refillRate?: number;
+  timestamp?: number;
+}
+
+// Latest snapshot seen by this instance, to avoid a read per request
+let lastSnapshot: KeepaTokenSnapshot | null = null;
+
+export async function recordTokenUsage(fields: KeepaTokenFields): Promise<void> {
+  const snapshot: KeepaTokenSnapshot = {
+    tokensLeft: fields.tokensLeft,
+    refillRate: fields.refillRate ?? lastSnapshot?.refillRate ?? 0,
+    refillInMs: fields.refillIn ?? 0,
+    tokensConsumed: fields.tokensConsumed,
+    recordedAt: fields.timestamp ?? Date.now(),
+  };
+  lastSnapshot = snapshot;
+
+  console.log(`Keepa tokens left: ${snapshot.tokensLeft}, consumed: ${snapshot.tokensConsumed}, refill: ${snapshot.refillRate}/min`);
+
+  const { error } = await supabase
+    .from(KEEPA_TOKENS_TABLE)
+    .upsert({
+      id: 1,
+      tokens_left: snapshot.tokensLeft,
+      refill_rate: snapshot.refillRate,
+      refill_in_ms: snapshot.refillInMs,
+      tokens_consumed: snapshot.tokensConsumed,
+      recorded_at: new Date(snapshot.recordedAt).toISOString(),
+    });
+
+  if (error) {
+    console.error('Error saving Keepa token state:', error.message);
+  }
+}
+
+function estimateTokens(snapshot: KeepaTokenSnapshot, now: number = Date.now()): number {
+  if (snapshot.refillRate <= 0) return snapshot.tokensLeft;
+
+  // First refill lands after refillInMs, then one refill per minute
+  const elapsed = now - snapshot.recordedAt;
+  const refills = elapsed < snapshot.refillInMs ? 0 : 1 + Math.floor((elapsed - snapshot.refillInMs) / 60_000);
+  const cap = Math.max(snapshot.tokensLeft, snapshot.refillRate * BUCKET_MINUTES);
+  return Math.min(cap, snapshot.tokensLeft + refills * snapshot.refillRate);
+}
+
+/**
+ * Current token budget, or null before the first Keepa response has been
+ * recorded. Prefers the persisted snapshot when it is newer than ours.
+ */
+export async function getTokenBudget(): Promise<KeepaTokenBudget | null> {
+  const { data, error } = await supabase
+    .from(KEEPA_TOKENS_TABLE)
+    .select('*')
+    .eq('id', 1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading Keepa token state:', error.message);
+  }
+
+  let snapshot = lastSnapshot;
+  if (data) {
+    const stored: KeepaTokenSnapshot = {
+      tokensLeft: data.tokens_left,
+      refillRate: data.refill_rate,
+      refillInMs: data.refill_in_ms,
+      tokensConsumed: data.tokens_consumed,
+      recordedAt: new Date(data.recorded_at).getTime(),
+    };
+    if (!snapshot || stored.recordedAt > snapshot.recordedAt) snapshot = stored;
+  }
+
+  if (!snapshot) return null;
+  return { ...snapshot, estimatedTokens: estimateTokens(snapshot) };
+}
+
+// How long until the balance covers `cost` tokens (0 if it already does)
+export function msUntilAffordable(budget: KeepaTokenBudget, cost: number): number {
+  if (budget.estimatedTokens >= cost) return 0;
+  if (budget.refillRate <= 0) return Infinity;
+  const minutes = Math.ceil((cost - budget.estimatedTokens) / budget.refillRate);
+  return minutes * 60_000;
+}
+
+/**
+ * Wait until the budget covers `cost` tokens. Returns false without waiting
+ * when that would take longer than maxWaitMs. Unknown budgets never block.
+ */
+export async function waitForTokens(cost: number, maxWaitMs: number): Promise<boolean> {
+  const budget = await getTokenBudget();
+  if (!budget) return true;
+
+  const waitMs = msUntilAffordable(budget, cost);
+  if (waitMs === 0) return true;
+  if (waitMs > maxWaitMs) return false;
+
+  console.log(`Waiting ${Math.round(waitMs / 1000)}s for ${cost} Keepa tokens (have ~${budget.estimatedTokens})`);
+  await new Promise(resolve => setTimeout(resolve, waitMs));
+  return true;
+}
+
+/**
+ * Largest number of products affordable right now, capped at `max`.
+ * Unknown budgets allow the full amount.
+ */
+export async function affordableProducts(max: number): Promise<number> {
+  const budget = await getTokenBudget();
+  if (!budget) return max;
+  return Math.max(0, Math.min(max, Math.floor(budget.estimatedTokens / TOKENS_PER_PRODUCT)));
+}
@@ -0,0 +1,120 @@
+import { supabase, EBAY_BOOKS_TABLE } from './supabase';
+import { getItems, getItemGroup, toRestfulItemId, toLegacyItemId, isItemAvailable, type EbayItem } from './ebayApi';
+
+/**
+ * Listing Liveness
+ * Re-checks BUY/REVIEW listings against the eBay item endpoint so sold and
+ * ended listings drop off the dashboard. Items eBay no longer returns, or
+ * reports sold out, are marked ENDED with ended_at; the rest get a fresh
+ * verified_at. Multi-variation listings are live while any variation is.
+ * Run on a schedule by /api/listings/verify.
+ */
+
+// Listings verified more recently than this are skipped
+export const VERIFY_INTERVAL_MS = (parseFloat(process.env.LISTING_VERIFY_HOURS || '') || 6) * 60 * 60 * 1000;
+
+// Listings checked per run (one eBay call per 20)
+export const DEFAULT_VERIFY_LIMIT = 200;
+
+// Item-group lookups per run for listings the batch call didn't return (one
+// eBay call each); the rest wait for the next run
+export const MAX_GROUP_LOOKUPS = 20;
+
+export interface VerifyResult {
+  checked: number;
+  live: number;
+  ended: number;
+  deferred: number;                 // unreturned listings past MAX_GROUP_LOOKUPS, left for the next run
+  error: string | null;             // eBay or database failure; nothing was marked ended
+}
+
+/**
+ * Verify the BUY/REVIEW listings that were checked longest ago (never
+ * checked first). An eBay failure leaves every listing as it was.
+ */
+export async function verifyListings(options: { limit?: number } = {}): Promise<VerifyResult> {
+  const limit = options.limit ?? DEFAULT_VERIFY_LIMIT;
+  const result: VerifyResult = { checked: 0, live: 0, ended: 0, deferred: 0, error: null };
+  const staleBefore = new Date(Date.now() - VERIFY_INTERVAL_MS).toISOString();
+
+  const { data: books, error } = await supabase
+    .from(EBAY_BOOKS_TABLE)
+    .select('id, ebay_item_id')
+    .in('decision', ['BUY', 'REVIEW'])
+    .or(`verified_at.is.null,verified_at.lt."${staleBefore}"`)
+    .order('verified_at', { ascending: true, nullsFirst: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error loading listings to verify:', error.message);
+    result.error = error.message;
+    return result;
+  }
+  if (!books || books.length === 0) return result;
+
+  // Matched on the legacy id, which every variation of a listing shares
+  const legacyId = (item: EbayItem) => item.legacyItemId || toLegacyItemId(item.itemId);
+  const available = new Set<string>();
+  const deferred = new Set<string>();
+  try {
+    const items = await getItems(books.map(book => toRestfulItemId(book.ebay_item_id)));
+    items.filter(isItemAvailable).forEach(item => available.add(legacyId(item)));
+
+    // Multi-variation listings aren't returned for v1|<id>|0; look those up by
+    // item group. Most unreturned listings simply ended, so the lookups are capped.
+    const returned = new Set(items.map(legacyId));
+    const unreturned = Array.from(new Set(books.map(book => toLegacyItemId(book.ebay_item_id)).filter(id => !returned.has(id))));
+    for (const id of unreturned.slice(0, MAX_GROUP_LOOKUPS)) {
+      if ((await getItemGroup(id)).some(isItemAvailable)) available.add(id);
+    }
+    unreturned.slice(MAX_GROUP_LOOKUPS).forEach(id => deferred.add(id));
+  } catch (err) {
+    result.error = err instanceof Error ? err.message : 'eBay request failed';
+    console.error('Listing verification failed:', result.error);
+    return result;
+  }
+
+  const now = new Date().toISOString();
+  const liveIds: number[] = [];
+  const endedIds: number[] = [];
+  for (const book of books) {
+    const id = toLegacyItemId(book.ebay_item_id);
+    if (available.has(id)) liveIds.push(book.id);
+    else if (deferred.has(id)) result.deferred++;
+    else endedIds.push(book.id);
+  }
+
+  if (liveIds.length > 0) {
+    const { error: liveError } = await supabase
+      .from(EBAY_BOOKS_TABLE)
+      .update({ verified_at: now })
+      .in('id', liveIds);
+
+    if (liveError) {
+      console.error('Error saving verified listings:', liveError.message);
+      result.error = liveError.message;
+    } else {
+      result.live = liveIds.length;
+    }
+  }
+
+  if (endedIds.length > 0) {
+    // Leave books someone bought or rejected while we were checking
+    const { data: ended, error: endedError } = await supabase
+      .from(EBAY_BOOKS_TABLE)
+      .update({ decision: 'ENDED', ended_at: now, verified_at: now })
+      .in('id', endedIds)
+      .in('decision', ['BUY', 'REVIEW'])
+      .select('id');
+
+    if (endedError) {
+      console.error('Error marking ended listings:', endedError.message);
+      result.error = endedError.message;
+    } else {
+      result.ended = ended?.length ?? 0;
+    }
+  }
+
+  result.checked = books.length - result.deferred;
+  return result;
+}
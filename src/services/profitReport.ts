@@ -0,0 +1,198 @@
+import { supabase } from './supabase';
+import { INVENTORY_ITEMS_TABLE } from './inventory';
+import type { SalesChannel } from './inventoryLifecycle';
+
+/**
+ * Profit Report
+ * Realized vs predicted profit for copies that have finished their
+ * lifecycle. Predictions are the fba_profit/fbm_profit stored on the listing
+ * at evaluation time (matching the channel the copy was sold through);
+ * realized profit is the sale price minus everything the copy cost, including
+ * fees recorded as the cost of the sold step. Written-off copies count as a
+ * full loss. Money is in cents.
+ */
+
+export interface BookOutcome {
+  itemId: number;
+  isbn: string;
+  title: string;
+  seller: string | null;
+  score: number | null;
+  decision: string | null;          // decision at evaluation time, before BOUGHT
+  channel: SalesChannel | null;
+  outcome: 'sold' | 'written_off';
+  purchasedAt: string;
+  closedAt: string;                 // sold or written off
+  predictedProfit: number | null;
+  realizedProfit: number;
+  predictedRoi: number | null;      // percentage of the listing's buy cost
+  realizedRoi: number | null;       // percentage of total cost
+  daysToSell: number | null;        // purchase to sale; null when written off
+}
+
+export interface ProfitSummary {
+  key: string;
+  books: number;
+  sold: number;
+  writtenOff: number;
+  predictedProfit: number;          // over books with a prediction
+  realizedProfit: number;
+  predictedBooks: number;           // books that had a prediction
+  realizedProfitPredicted: number;  // realized profit of those same books
+  avgPredictedRoi: number | null;
+  avgRealizedRoi: number | null;
+  avgDaysToSell: number | null;
+}
+
+export interface ProfitReport {
+  from: string | null;
+  to: string | null;
+  totals: ProfitSummary;
+  bySeller: ProfitSummary[];
+  byScoreBucket: ProfitSummary[];
+  byMonth: ProfitSummary[];
+  books: BookOutcome[];
+}
+
+interface OutcomeRow {
+  id: number;
+  isbn: string;
+  title: string;
+  status: 'sold' | 'written_off';
+  status_changed_at: string;
+  channel: SalesChannel | null;
+  sale_price: number | null;
+  total_cost: number;
+  purchases: {
+    purchased_at: string;
+    ebay_books: {
+      seller: string;
+      score: number | null;
+      decision_explanation: { decision?: string } | null;
+      fba_profit: number | null;
+      fbm_profit: number | null;
+      price: number;
+      shipping: number | null;
+    } | null;
+  } | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Score buckets of 10 ('70-79'); books never scored go in 'unscored'
+export function scoreBucket(score: number | null): string {
+  if (score === null) return 'unscored';
+  const low = Math.min(Math.floor(score / 10) * 10, 90);
+  return `${low}-${low + 9}`;
+}
+
+function rowToOutcome(row: OutcomeRow): BookOutcome {
+  const book = row.purchases?.ebay_books ?? null;
+  const purchasedAt = row.purchases?.purchased_at ?? row.status_changed_at;
+
+  const predictedProfit = !book
+    ? null
+    : row.channel === 'FBA' ? book.fba_profit
+    : row.channel === 'FBM' ? book.fbm_profit
+    : book.fba_profit !== null || book.fbm_profit !== null ? Math.max(book.fba_profit ?? -Infinity, book.fbm_profit ?? -Infinity)
+    : null;
+  const buyCost = book ? book.price + (book.shipping ?? 0) : 0;
+
+  const realizedProfit = (row.status === 'sold' ? row.sale_price ?? 0 : 0) - row.total_cost;
+
+  return {
+    itemId: row.id,
+    isbn: row.isbn,
+    title: row.title,
+    seller: book?.seller ?? null,
+    score: book?.score ?? null,
+    decision: book?.decision_explanation?.decision ?? null,
+    channel: row.channel,
+    outcome: row.status,
+    purchasedAt,
+    closedAt: row.status_changed_at,
+    predictedProfit,
+    realizedProfit,
+    predictedRoi: predictedProfit !== null && buyCost > 0 ? Math.round((predictedProfit / buyCost) * 1000) / 10 : null,
+    realizedRoi: row.total_cost > 0 ? Math.round((realizedProfit / row.total_cost) * 1000) / 10 : null,
+    daysToSell: row.status === 'sold'
+      ? Math.max(0, Math.round((Date.parse(row.status_changed_at) - Date.parse(purchasedAt)) / DAY_MS))
+      : null,
+  };
+}
+
+function average(values: (number | null)[]): number | null {
+  const present = values.filter((v): v is number => v !== null);
+  return present.length > 0 ? Math.round((present.reduce((a, b) => a + b, 0) / present.length) * 10) / 10 : null;
+}
+
+export function summarize(key: string, books: BookOutcome[]): ProfitSummary {
+  const predicted = books.filter(b => b.predictedProfit !== null);
+  return {
+    key,
+    books: books.length,
+    sold: books.filter(b => b.outcome === 'sold').length,
+    writtenOff: books.filter(b => b.outcome === 'written_off').length,
+    predictedProfit: predicted.reduce((sum, b) => sum + b.predictedProfit!, 0),
+    realizedProfit: books.reduce((sum, b) => sum + b.realizedProfit, 0),
+    predictedBooks: predicted.length,
+    realizedProfitPredicted: predicted.reduce((sum, b) => sum + b.realizedProfit, 0),
+    avgPredictedRoi: average(books.map(b => b.predictedRoi)),
+    avgRealizedRoi: average(books.map(b => b.realizedRoi)),
+    avgDaysToSell: average(books.map(b => b.daysToSell)),
+  };
+}
+
+function groupBy(books: BookOutcome[], keyOf: (book: BookOutcome) => string): ProfitSummary[] {
+  const groups = new Map<string, BookOutcome[]>();
+  for (const book of books) {
+    const key = keyOf(book);
+    groups.set(key, [...(groups.get(key) ?? []), book]);
+  }
+  return Array.from(groups.entries())
+    .map(([key, group]) => summarize(key, group))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Report over copies sold or written off between from and to (YYYY-MM-DD,
+ * inclusive; either may be null for an open range).
+ */
+export async function getProfitReport(from: string | null, to: string | null): Promise<ProfitReport> {
+  const rows: OutcomeRow[] = [];
+  const pageSize = 1000;
+
+  for (let start = 0; ; start += pageSize) {
+    let query = supabase
+      .from(INVENTORY_ITEMS_TABLE)
+      .select('id, isbn, title, status, status_changed_at, channel, sale_price, total_cost, purchases(purchased_at, ebay_books(seller, score, decision_explanation, fba_profit, fbm_profit, price, shipping))')
+      .in('status', ['sold', 'written_off'])
+      .order('status_changed_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(start, start + pageSize - 1);
+
+    if (from) query = query.gte('status_changed_at', from);
+    if (to) query = query.lt('status_changed_at', new Date(Date.parse(to) + DAY_MS).toISOString().slice(0, 10));
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Error loading sold inventory: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as unknown as OutcomeRow[]));
+    if (!data || data.length < pageSize) break;
+  }
+
+  const books = rows.map(rowToOutcome);
+
+  return {
+    from,
+    to,
+    totals: summarize('all', books),
+    bySeller: groupBy(books, b => b.seller ?? 'unknown'),
+    byScoreBucket: groupBy(books, b => scoreBucket(b.score)),
+    byMonth: groupBy(books, b => b.closedAt.slice(0, 7)),
+    books,
+  };
+}
@@ -0,0 +1,229 @@
+import { supabase } from './supabase';
+
+/**
+ * Purchases
+ * The purchase ledger: what was actually paid for a book, per eBay order.
+ * Rows link back to the ebay_books listing they were bought from; money is
+ * in cents.
+ */
+
+export interface Purchase {
+  id: number;
+  bookId: number | null;            // ebay_books.id (null if the listing was deleted)
+  userId: string | null;            // who bought it
+  isbn: string;
+  title: string;
+  ebayItemId: string | null;
+  ebayOrderNumber: string | null;
+  quantity: number;
+  unitPrice: number;                // price paid per copy before discount
+  shipping: number;                 // total for the order
+  tax: number;
+  discount: number;                 // Best Offer or coupon discount for the order
+  totalCost: number;                // unitPrice * quantity + shipping + tax - discount
+  purchasedAt: string;
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Fields a client may set when recording or editing a purchase
+export type PurchaseInput = Pick<
+  Purchase,
+  'bookId' | 'isbn' | 'title' | 'ebayItemId' | 'ebayOrderNumber' | 'quantity' | 'unitPrice' | 'shipping' | 'tax' | 'discount' | 'purchasedAt' | 'notes'
+>;
+
+export const PURCHASES_TABLE = 'purchases';
+
+interface PurchaseRow {
+  id: number;
+  book_id: number | null;
+  user_id: string | null;
+  isbn: string;
+  title: string;
+  ebay_item_id: string | null;
+  ebay_order_number: string | null;
+  quantity: number;
+  unit_price: number;
+  shipping: number;
+  tax: number;
+  discount: number;
+  total_cost: number;
+  purchased_at: string;
+  notes: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToPurchase(row: PurchaseRow): Purchase {
+  return {
+    id: row.id,
+    bookId: row.book_id,
+    userId: row.user_id,
+    isbn: row.isbn,
+    title: row.title,
+    ebayItemId: row.ebay_item_id,
+    ebayOrderNumber: row.ebay_order_number,
+    quantity: row.quantity,
+    unitPrice: row.unit_price,
+    shipping: row.shipping,
+    tax: row.tax,
+    discount: row.discount,
+    totalCost: row.total_cost,
+    purchasedAt: row.purchased_at,
+    notes: row.notes,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function inputToRow(input: Partial<PurchaseInput>): Partial<PurchaseRow> {
+  const row: Partial<PurchaseRow> = {};
+  if (input.bookId !== undefined) row.book_id = input.bookId;
+  if (input.isbn !== undefined) row.isbn = input.isbn;
+  if (input.title !== undefined) row.title = input.title;
+  if (input.ebayItemId !== undefined) row.ebay_item_id = input.ebayItemId;
+  if (input.ebayOrderNumber !== undefined) row.ebay_order_number = input.ebayOrderNumber;
+  if (input.quantity !== undefined) row.quantity = input.quantity;
+  if (input.unitPrice !== undefined) row.unit_price = input.unitPrice;
+  if (input.shipping !== undefined) row.shipping = input.shipping;
+  if (input.tax !== undefined) row.tax = input.tax;
+  if (input.discount !== undefined) row.discount = input.discount;
+  if (input.purchasedAt !== undefined) row.purchased_at = input.purchasedAt;
+  if (input.notes !== undefined) row.notes = input.notes;
+  return row;
+}
+
+const CENT_FIELDS = ['unitPrice', 'shipping', 'tax', 'discount'] as const;
+
+/**
+ * Check a purchase body; returns an error message or null. With partial set
+ * (edits) only the fields present are checked, so callers check the merged
+ * purchase too for the discount limit.
+ */
+export function validatePurchaseInput(input: Partial<PurchaseInput>, partial = false): string | null {
+  if (!partial || input.isbn !== undefined) {
+    if (typeof input.isbn !== 'string' || !input.isbn.trim()) return 'isbn is required';
+  }
+  if (!partial || input.title !== undefined) {
+    if (typeof input.title !== 'string' || !input.title.trim()) return 'title is required';
+  }
+  if (!partial || input.quantity !== undefined) {
+    if (!Number.isInteger(input.quantity) || input.quantity! < 1) return 'quantity must be a whole number of at least 1';
+  }
+  for (const field of CENT_FIELDS) {
+    if (input[field] === undefined) {
+      if (field === 'unitPrice' && !partial) return 'unitPrice is required';
+      continue;
+    }
+    if (!Number.isInteger(input[field]) || input[field]! < 0) return `${field} must be a non-negative whole number of cents`;
+  }
+  if (input.discount !== undefined && input.unitPrice !== undefined && input.quantity !== undefined) {
+    const subtotal = input.unitPrice * input.quantity + (input.shipping ?? 0) + (input.tax ?? 0);
+    if (input.discount > subtotal) return 'discount can\'t be more than the price, shipping and tax';
+  }
+  if (input.bookId !== undefined && input.bookId !== null && !Number.isInteger(input.bookId)) {
+    return 'bookId must be a book id';
+  }
+  if (input.purchasedAt !== undefined && isNaN(Date.parse(input.purchasedAt))) {
+    return 'purchasedAt must be a date';
+  }
+  return null;
+}
+
+export interface PurchaseFilter {
+  bookId?: number;
+  userId?: string;
+  from?: string;                    // purchased_at >= (ISO date)
+  to?: string;                      // purchased_at < (ISO date)
+  limit?: number;
+  offset?: number;
+}
+
+// Purchases newest first, optionally for one listing, one buyer or a date range
+export async function getPurchases(filter: PurchaseFilter = {}): Promise<Purchase[]> {
+  const limit = filter.limit ?? 200;
+  const offset = filter.offset ?? 0;
+  let query = supabase
+    .from(PURCHASES_TABLE)
+    .select('*')
+    .order('purchased_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (filter.bookId !== undefined) query = query.eq('book_id', filter.bookId);
+  if (filter.userId) query = query.eq('user_id', filter.userId);
+  if (filter.from) query = query.gte('purchased_at', filter.from);
+  if (filter.to) query = query.lt('purchased_at', filter.to);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching purchases:', error.message);
+    return [];
+  }
+
+  return (data || []).map(rowToPurchase);
+}
+
+export async function getPurchase(id: number): Promise<Purchase | null> {
+  const { data, error } = await supabase
+    .from(PURCHASES_TABLE)
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error fetching purchase ${id}:`, error.message);
+    return null;
+  }
+
+  return data ? rowToPurchase(data) : null;
+}
+
+// Record a purchase made by userId
+export async function createPurchase(input: PurchaseInput, userId: string): Promise<Purchase | null> {
+  const { data, error } = await supabase
+    .from(PURCHASES_TABLE)
+    .insert({ ...inputToRow(input), user_id: userId })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating purchase:', error.message);
+    return null;
+  }
+
+  return rowToPurchase(data);
+}
+
+export async function updatePurchase(id: number, changes: Partial<PurchaseInput>): Promise<Purchase | null> {
+  const { data, error } = await supabase
+    .from(PURCHASES_TABLE)
+    .update({ ...inputToRow(changes), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error updating purchase ${id}:`, error.message);
+    return null;
+  }
+
+  return data ? rowToPurchase(data) : null;
+}
+
+// Remove a purchase and, by cascade, its inventory copies
+export async function deletePurchase(id: number): Promise<boolean> {
+  const { error } = await supabase
+    .from(PURCHASES_TABLE)
+    .delete()
+    .eq('id', id);
+
+  if (error) {
+    console.error(`Error deleting purchase ${id}:`, error.message);
+    return false;
+  }
+
+  return true;
+}
@@ -0,0 +1,171 @@
+import { supabase } from './supabase';
+
+/**
+ * Sellers
+ * The eBay wholesale sellers we source from, in the sellers table. The
+ * dashboard tabs and counts, ingestion and evaluation all read this registry;
+ * ebay_books.seller holds the seller id.
+ */
+
+export interface Seller {
+  id: string;                       // slug stored in ebay_books.seller
+  label: string;                    // dashboard tab label
+  ebayUsername: string;             // storefront searched by ingestion
+  color: string | null;             // CSS colour for the tab
+  active: boolean;                  // inactive sellers are hidden and not ingested
+  sortOrder: number;                // dashboard tab order
+  shippingAdjustment: number;       // cents added to each book's cost (e.g. unlisted shipping)
+  couponPercent: number;            // standing discount off the listing price, 0-100
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type SellerInput = Partial<Omit<Seller, 'createdAt' | 'updatedAt'>>;
+
+export const SELLERS_TABLE = 'sellers';
+
+interface SellerRow {
+  id: string;
+  label: string;
+  ebay_username: string;
+  color: string | null;
+  active: boolean;
+  sort_order: number;
+  shipping_adjustment: number;
+  coupon_percent: number;
+  created_at: string;
+  updated_at: string;
+}
+
+function rowToSeller(row: SellerRow): Seller {
+  return {
+    id: row.id,
+    label: row.label,
+    ebayUsername: row.ebay_username,
+    color: row.color,
+    active: row.active,
+    sortOrder: row.sort_order,
+    shippingAdjustment: row.shipping_adjustment,
+    couponPercent: Number(row.coupon_percent),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function inputToRow(input: SellerInput): Partial<SellerRow> {
+  const row: Partial<SellerRow> = {};
+  if (input.id !== undefined) row.id = input.id;
+  if (input.label !== undefined) row.label = input.label.trim();
+  if (input.ebayUsername !== undefined) row.ebay_username = input.ebayUsername.trim();
+  if (input.color !== undefined) row.color = input.color || null;
+  if (input.active !== undefined) row.active = input.active;
+  if (input.sortOrder !== undefined) row.sort_order = input.sortOrder;
+  if (input.shippingAdjustment !== undefined) row.shipping_adjustment = input.shippingAdjustment;
+  if (input.couponPercent !== undefined) row.coupon_percent = input.couponPercent;
+  return row;
+}
+
+// Error message for a bad seller, or null. partial=true for updates.
+export function validateSellerInput(input: SellerInput, partial: boolean = false): string | null {
+  if (!partial || input.id !== undefined) {
+    if (typeof input.id !== 'string' || !/^[a-z0-9][a-z0-9._-]*$/.test(input.id)) {
+      return 'id must be lowercase letters, digits, dots, dashes or underscores';
+    }
+  }
+  if (!partial || input.label !== undefined) {
+    if (typeof input.label !== 'string' || !input.label.trim()) return 'label is required';
+  }
+  if (!partial || input.ebayUsername !== undefined) {
+    if (typeof input.ebayUsername !== 'string' || !input.ebayUsername.trim()) return 'ebayUsername is required';
+  }
+  if (input.color !== undefined && input.color !== null && (typeof input.color !== 'string' || !/^#[0-9a-fA-F]{3,8}$/.test(input.color))) {
+    return 'color must be a hex colour like #00cec9';
+  }
+  if (input.active !== undefined && typeof input.active !== 'boolean') {
+    return 'active must be true or false';
+  }
+  if (input.sortOrder !== undefined && !Number.isInteger(input.sortOrder)) {
+    return 'sortOrder must be an integer';
+  }
+  if (input.shippingAdjustment !== undefined && !Number.isInteger(input.shippingAdjustment)) {
+    return 'shippingAdjustment must be a whole number of cents';
+  }
+  if (input.couponPercent !== undefined && (typeof input.couponPercent !== 'number' || input.couponPercent < 0 || input.couponPercent >= 100)) {
+    return 'couponPercent must be between 0 and 100';
+  }
+  return null;
+}
+
+/**
+ * What a book from this seller actually costs us: listing price less the
+ * seller's standing coupon, plus its shipping adjustment. Unknown sellers
+ * cost the listing price.
+ */
+export function effectiveBuyPrice(price: number, seller: Seller | undefined): number {
+  if (!seller) return price;
+  return Math.max(0, Math.round(price * (1 - seller.couponPercent / 100)) + seller.shippingAdjustment);
+}
+
+// Buying a listing from this seller, all in: effective price plus the
+// listing's own shipping. Compares one ISBN's offers across sellers.
+export function landedCost(price: number, shipping: number, seller: Seller | undefined): number {
+  return effectiveBuyPrice(price, seller) + shipping;
+}
+
+// Sellers in dashboard order; activeOnly=false includes deactivated ones
+export async function getSellers(options: { activeOnly?: boolean } = {}): Promise<Seller[]> {
+  const { activeOnly = true } = options;
+  let query = supabase
+    .from(SELLERS_TABLE)
+    .select('*')
+    .order('sort_order', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (activeOnly) query = query.eq('active', true);
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching sellers:', error.message);
+    return [];
+  }
+
+  return (data || []).map(rowToSeller);
+}
+
+// Active and inactive sellers by id, for looking up a book's seller
+export async function getSellerMap(): Promise<Map<string, Seller>> {
+  const sellers = await getSellers({ activeOnly: false });
+  return new Map(sellers.map(seller => [seller.id, seller]));
+}
+
+export async function createSeller(input: SellerInput): Promise<Seller | string> {
+  const { data, error } = await supabase
+    .from(SELLERS_TABLE)
+    .insert(inputToRow(input))
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating seller:', error.message);
+    return error.code === '23505' ? `Seller ${input.id} already exists` : 'Failed to create seller';
+  }
+
+  return rowToSeller(data);
+}
+
+export async function updateSeller(id: string, changes: SellerInput): Promise<Seller | null> {
+  const { data, error } = await supabase
+    .from(SELLERS_TABLE)
+    .update({ ...inputToRow(changes), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error updating seller ${id}:`, error.message);
+    return null;
+  }
+
+  return data ? rowToSeller(data) : null;
+}
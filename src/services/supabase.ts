@@ -1,22 +1,17 @@
 import { createClient } from '@supabase/supabase-js';
+import type { DecisionExplanation } from './decisionRules';
 
-// Server-side Supabase client
+// Server-side Supabase client. Needs the service role key: RLS has no
+// policies, so the anon key can't read or write any table.
 const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseKey = process.env.SUPABASE_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_KEY || '';
 
-export const supabase = createClient(supabaseUrl, supabaseKey);
-
-// Client-side Supabase client (uses NEXT_PUBLIC_ env vars)
-let clientSupabase: ReturnType<typeof createClient> | null = null;
-
-export function getClientSupabase() {
-  if (clientSupabase) return clientSupabase;
-  const url = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
-  clientSupabase = createClient(url, key);
-  return clientSupabase;
+if (!supabaseKey && typeof window === 'undefined') {
+  console.warn('SUPABASE_SERVICE_ROLE_KEY is not set; database requests will fail');
 }
 
+export const supabase = createClient(supabaseUrl, supabaseKey);
+
 // Database types
 export interface EbayBook {
   id?: number;
@@ -31,35 +26,50 @@ export interface EbayBook {
   image_url: string | null;
   shipping: number;       // shipping cost in cents
   scraped_at: string;
+  previous_price: number | null;    // price before the last price change, in cents
+  price_changed_at: string | null;
+  verified_at: string | null;       // last time the liveness check found the listing live
+  ended_at: string | null;          // when the listing was found sold or ended
 
   // Amazon/Keepa data (filled after evaluation)
-  decision: 'BUY' | 'REVIEW' | 'REJECT' | 'BOUGHT' | null;
+  decision: 'BUY' | 'REVIEW' | 'REJECT' | 'BOUGHT' | 'ENDED' | null;
   asin: string | null;
-  amazon_price: number | null;      // in cents
+  amazon_price: number | null;      // sell price used for profit, in cents
+  price_estimate: 'buy_box' | 'seasonal' | null;
+  target_sell_date: string | null;  // set for seasonal estimates
   sales_rank: number | null;
   sales_rank_drops_30: number | null;
   sales_rank_drops_90: number | null;
   fba_profit: number | null;        // in cents
   fbm_profit: number | null;        // in cents
   fba_roi: number | null;           // percentage
+  fbm_roi: number | null;           // percentage
   score: number | null;
+  fee_profile_id: number | null;    // fee profile used for profit numbers
+  rule_set_id: number | null;       // decision rule set (null = built-in default)
+  rule_set_version: number | null;
+  fired_rules: string[] | null;     // ids of knockout/score rules that applied
+  decision_explanation: DecisionExplanation | null;
   book_type: string | null;         // 'Paperback', 'Hardcover', etc.
   weight_oz: number | null;         // weight in ounces
   evaluated_at: string | null;
 
   // Action tracking
   bought_at: string | null;
+  user_id: string | null;           // who made the last BOUGHT/REJECT action
 }
 
-// Table name
+// Table names
 export const EBAY_BOOKS_TABLE = 'ebay_books';
+export const LISTING_PRICE_HISTORY_TABLE = 'listing_price_history';
 
 // Mark a book with an action (BOUGHT or REJECT)
 export async function markBookAction(
   id: number,
-  action: 'BOUGHT' | 'REJECT'
+  action: 'BOUGHT' | 'REJECT',
+  userId: string
 ): Promise<boolean> {
-  const updates: Record<string, unknown> = { decision: action };
+  const updates: Record<string, unknown> = { decision: action, user_id: userId };
   if (action === 'BOUGHT') {
     updates.bought_at = new Date().toISOString();
   }
@@ -77,41 +87,175 @@ export async function markBookAction(
   return true;
 }
 
-// Save books to database (batch insert)
-export async function saveBooks(books: Omit<EbayBook, 'id'>[]): Promise<{ saved: number; duplicates: number; errors: number }> {
-  let saved = 0;
-  let duplicates = 0;
-  let errors = 0;
+export interface SaveBooksResult {
+  saved: number;        // new listings inserted
+  updated: number;      // known listing whose price or shipping changed, or ended listing relisted
+  requeued: number;     // updated books sent back for evaluation
+  unchanged: number;
+  duplicates: number;   // seller and item id stored by a concurrent run
+  errors: number;
+}
+
+type StoredListing = Pick<EbayBook, 'price' | 'shipping' | 'ebay_item_id' | 'decision' | 'user_id'> & { id: number };
+type ListingUpdate = 'updated' | 'requeued' | 'unchanged' | 'errors';
+
+/**
+ * Bring a stored listing up to date with a fresh copy from the same seller.
+ * A price/shipping change or relist (new item id) is written to
+ * listing_price_history. A price change also clears the decision so the book
+ * is evaluated again, unless someone already bought or rejected it. A listing
+ * that had ENDED and shows up again (same item id or a relist) is always
+ * re-queued.
+ */
+async function updateListing(current: StoredListing, book: Omit<EbayBook, 'id'>): Promise<ListingUpdate> {
+  const priceMoved = current.price !== book.price || current.shipping !== book.shipping;
+  const relisted = current.ebay_item_id !== book.ebay_item_id;
+  const revived = current.decision === 'ENDED';
+  if (!priceMoved && !relisted && !revived) return 'unchanged';
+
+  // An ENDED listing back in the feed always needs a fresh decision
+  const requeue = revived || (priceMoved && current.decision !== 'BOUGHT' && current.user_id === null);
+  const now = new Date().toISOString();
+  const updates: Record<string, unknown> = {
+    price: book.price,
+    shipping: book.shipping,
+    ebay_item_id: book.ebay_item_id,
+    ebay_url: book.ebay_url,
+    image_url: book.image_url,
+  };
+  if (priceMoved) {
+    updates.previous_price = current.price;
+    updates.price_changed_at = now;
+  }
+  if (requeue) updates.decision = null;
+  if (revived) updates.ended_at = null;
+
+  const { error: updateError } = await supabase
+    .from(EBAY_BOOKS_TABLE)
+    .update(updates)
+    .eq('id', current.id);
+
+  if (updateError) {
+    console.error(`Update error for listing ${book.isbn}:`, updateError.message);
+    return 'errors';
+  }
+
+  // Same price and item id: the listing was only back from ENDED
+  if (!priceMoved && !relisted) return 'requeued';
+
+  const { error: historyError } = await supabase
+    .from(LISTING_PRICE_HISTORY_TABLE)
+    .insert({
+      book_id: current.id,
+      isbn: book.isbn,
+      ebay_item_id: book.ebay_item_id,
+      previous_item_id: relisted ? current.ebay_item_id : null,
+      price: book.price,
+      shipping: book.shipping,
+      previous_price: current.price,
+      previous_shipping: current.shipping,
+      requeued: requeue,
+      changed_at: now,
+    });
+
+  if (historyError) {
+    console.error(`Price history error for ${book.isbn}:`, historyError.message);
+  }
+
+  return requeue ? 'requeued' : 'updated';
+}
+
+const STORED_LISTING_COLUMNS = 'id, price, shipping, ebay_item_id, decision, user_id';
+
+// The seller's most recently ended listing of an ISBN, which a new item id
+// for that ISBN is taken to be a relist of
+async function findRelistedListing(book: Omit<EbayBook, 'id'>): Promise<{ listing: StoredListing | null; error: boolean }> {
+  const { data, error } = await supabase
+    .from(EBAY_BOOKS_TABLE)
+    .select(STORED_LISTING_COLUMNS)
+    .eq('seller', book.seller)
+    .eq('isbn', book.isbn)
+    .eq('decision', 'ENDED')
+    .neq('ebay_item_id', book.ebay_item_id)
+    .order('ended_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error loading ended listings for ${book.isbn}:`, error.message);
+    return { listing: null, error: true };
+  }
+  return { listing: data, error: false };
+}
+
+/**
+ * Save books to database. Rows are keyed by seller and eBay item id, so a
+ * seller's several copies of one ISBN are separate listings. A listing we
+ * already have is updated in place; a new item id for an ISBN whose listing
+ * from that seller has ENDED is a relist and moves that row to the new item.
+ * Anything else is inserted.
+ */
+export async function saveBooks(books: Omit<EbayBook, 'id'>[]): Promise<SaveBooksResult> {
+  const result: SaveBooksResult = { saved: 0, updated: 0, requeued: 0, unchanged: 0, duplicates: 0, errors: 0 };
 
   for (const book of books) {
+    const { data: known, error: lookupError } = await supabase
+      .from(EBAY_BOOKS_TABLE)
+      .select(STORED_LISTING_COLUMNS)
+      .eq('seller', book.seller)
+      .eq('ebay_item_id', book.ebay_item_id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error(`Error loading listing ${book.ebay_item_id}:`, lookupError.message);
+      result.errors++;
+      continue;
+    }
+
+    let current: StoredListing | null = known;
+    if (!current) {
+      const relist = await findRelistedListing(book);
+      if (relist.error) {
+        result.errors++;
+        continue;
+      }
+      current = relist.listing;
+    }
+
+    if (current) {
+      const outcome = await updateListing(current, book);
+      if (outcome === 'requeued') result.updated++;
+      result[outcome]++;
+      continue;
+    }
+
     const { error } = await supabase
       .from(EBAY_BOOKS_TABLE)
       .insert(book);
 
-    if (error) {
-      if (error.code === '23505') {
-        // Duplicate ISBN
-        duplicates++;
-      } else {
-        console.error(`Insert error for ${book.isbn}:`, error.message);
-        errors++;
-      }
+    if (!error) {
+      result.saved++;
+    } else if (error.code === '23505') {
+      // Seller and item id stored since the lookup
+      result.duplicates++;
     } else {
-      saved++;
+      console.error(`Insert error for ${book.isbn}:`, error.message);
+      result.errors++;
     }
   }
 
-  return { saved, duplicates, errors };
+  return result;
 }
 
-// Get pending books (not yet evaluated)
-export async function getPendingBooks(limit: number = 100): Promise<EbayBook[]> {
+// Get pending books (not yet evaluated), oldest first; offset pages past PostgREST's row cap
+export async function getPendingBooks(limit: number = 100, offset: number = 0): Promise<EbayBook[]> {
   const { data, error } = await supabase
     .from(EBAY_BOOKS_TABLE)
     .select('*')
     .is('decision', null)
     .order('scraped_at', { ascending: true })
-    .limit(limit);
+    .order('id', { ascending: true })
+    .range(offset, offset + limit - 1);
 
   if (error) {
     console.error('Error fetching pending books:', error.message);
@@ -121,18 +265,27 @@ export async function getPendingBooks(limit: number = 100): Promise<EbayBook[]>
   return data || [];
 }
 
-// Update book with evaluation data
-export async function updateBookEvaluation(isbn: string, evaluation: {
+// Update a listing with evaluation data
+export async function updateBookEvaluation(id: number, evaluation: {
   decision: 'BUY' | 'REVIEW' | 'REJECT';
   asin?: string;
   amazon_price?: number;
+  price_estimate?: 'buy_box' | 'seasonal';
+  target_sell_date?: string | null;
   sales_rank?: number;
   sales_rank_drops_30?: number;
   sales_rank_drops_90?: number;
   fba_profit?: number;
   fbm_profit?: number;
   fba_roi?: number;
+  fbm_roi?: number;
   score?: number;
+  fee_profile_id?: number | null;
+  rule_set_id?: number | null;
+  rule_set_version?: number;
+  fired_rules?: string[];
+  decision_explanation?: DecisionExplanation;
+  weight_oz?: number;
 }): Promise<boolean> {
   const { error } = await supabase
     .from(EBAY_BOOKS_TABLE)
@@ -140,10 +293,10 @@ export async function updateBookEvaluation(isbn: string, evaluation: {
       ...evaluation,
       evaluated_at: new Date().toISOString(),
     })
-    .eq('isbn', isbn);
+    .eq('id', id);
 
   if (error) {
-    console.error(`Update error for ${isbn}:`, error.message);
+    console.error(`Update error for book ${id}:`, error.message);
     return false;
   }
 
@@ -173,32 +326,36 @@ export async function getEvaluatedBooks(decision?: 'BUY' | 'REVIEW' | 'REJECT',
   return data || [];
 }
 
-// Get existing ISBNs to avoid duplicates
-export async function getExistingISBNs(): Promise<Set<string>> {
-  const isbns = new Set<string>();
-  let from = 0;
-  const pageSize = 1000;
-
-  while (true) {
-    const { data, error } = await supabase
-      .from(EBAY_BOOKS_TABLE)
-      .select('isbn')
-      .range(from, from + pageSize - 1);
-
-    if (error) {
-      console.error('Error loading existing ISBNs:', error.message);
-      break;
-    }
+export interface StoredListingSummary {
+  isbn: string;
+  price: number;        // cents
+  shipping: number;     // cents
+  decision: EbayBook['decision'];
+}
 
-    if (!data || data.length === 0) break;
+// What we have for whichever of these eBay item ids the seller listed
+export async function getStoredListings(seller: string, itemIds: string[]): Promise<Map<string, StoredListingSummary>> {
+  const listings = new Map<string, StoredListingSummary>();
+  if (itemIds.length === 0) return listings;
 
-    data.forEach(row => isbns.add(row.isbn));
-    from += pageSize;
+  const { data, error } = await supabase
+    .from(EBAY_BOOKS_TABLE)
+    .select('ebay_item_id, isbn, price, shipping, decision')
+    .eq('seller', seller)
+    .in('ebay_item_id', itemIds);
 
-    if (data.length < pageSize) break;
+  if (error) {
+    console.error('Error loading existing item ids:', error.message);
+    return listings;
   }
 
-  return isbns;
+  (data || []).forEach(row => listings.set(row.ebay_item_id, {
+    isbn: row.isbn,
+    price: row.price,
+    shipping: row.shipping ?? 0,
+    decision: row.decision,
+  }));
+  return listings;
 }
 
 // Get stats
@@ -0,0 +1,44 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Browser-side Supabase client. Used only for Supabase Auth (the anon key has
+ * no table access); data goes through the API routes via apiFetch.
+ */
+
+let clientSupabase: SupabaseClient | null = null;
+
+export function getClientSupabase(): SupabaseClient {
+  if (clientSupabase) return clientSupabase;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+  const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+  clientSupabase = createClient(url, key);
+  return clientSupabase;
+}
+
+// fetch() with the signed-in user's access token attached
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { data } = await getClientSupabase().auth.getSession();
+  const headers = new Headers(init.headers);
+  if (data.session) headers.set('Authorization', `Bearer ${data.session.access_token}`);
+  return fetch(input, { ...init, headers });
+}
+
+// Download an authenticated API response (e.g. an export) as a file
+export async function apiDownload(input: string, fallbackName: string, init: RequestInit = {}): Promise<void> {
+  const response = await apiFetch(input, init);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || 'Download failed');
+  }
+
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = disposition.match(/filename="([^"]+)"/)?.[1] || fallbackName;
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
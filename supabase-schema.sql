@@ -5,7 +5,7 @@ CREATE TABLE IF NOT EXISTS ebay_books (
   id SERIAL PRIMARY KEY,
 
   -- eBay listing data
-  isbn VARCHAR(13) NOT NULL UNIQUE,
+  isbn VARCHAR(13) NOT NULL,             -- Several sellers can list the same ISBN
   title TEXT NOT NULL,
   price INTEGER NOT NULL,                -- Price in cents
   condition VARCHAR(50) NOT NULL,
@@ -16,27 +16,68 @@ CREATE TABLE IF NOT EXISTS ebay_books (
   image_url TEXT,
   shipping INTEGER DEFAULT 0,            -- Shipping cost in cents
   scraped_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  previous_price INTEGER,                -- Price before the last price change, in cents
+  price_changed_at TIMESTAMP WITH TIME ZONE,
+  verified_at TIMESTAMP WITH TIME ZONE,  -- Last time the liveness check found the listing live
+  ended_at TIMESTAMP WITH TIME ZONE,     -- When the listing was found sold or ended (decision ENDED)
 
   -- Amazon/Keepa evaluation data (filled after evaluation)
-  decision VARCHAR(10),                  -- 'BUY', 'REVIEW', 'REJECT', 'BOUGHT'
+  decision VARCHAR(10),                  -- 'BUY', 'REVIEW', 'REJECT', 'BOUGHT', 'ENDED'
   asin VARCHAR(20),
   amazon_price INTEGER,                  -- Realistic sell price in cents
+  price_estimate VARCHAR(20),            -- How amazon_price was estimated: 'buy_box', 'seasonal'
+  target_sell_date DATE,                 -- Sell date a seasonal estimate projects to
   sales_rank INTEGER,                    -- 180-day average sales rank
   sales_rank_drops_30 INTEGER,
   sales_rank_drops_90 INTEGER,
   fba_profit INTEGER,                    -- FBA profit in cents
   fbm_profit INTEGER,                    -- FBM profit in cents
   fba_roi DECIMAL(5,2),                  -- ROI percentage (legacy)
+  fbm_roi DECIMAL(5,2),                  -- FBM ROI percentage
   score INTEGER,                         -- Decision score 0-100 (legacy)
+  fee_profile_id INTEGER,                -- fee_profiles.id used for profit (NULL = built-in default)
+  rule_set_id INTEGER,                   -- decision_rule_sets.id (NULL = built-in default)
+  rule_set_version INTEGER,              -- Rule set version that made the decision
+  fired_rules TEXT[],                    -- Ids of knockout/score rules that applied
+  decision_explanation JSONB,            -- Knockouts checked, score components, thresholds
   amazon_flag VARCHAR(10),               -- 'green', 'yellow', 'red' (Amazon 1P stockout)
   book_type VARCHAR(50),                 -- 'Paperback', 'Hardcover', etc.
   weight_oz DECIMAL(6,1),               -- Weight in ounces
   evaluated_at TIMESTAMP WITH TIME ZONE,
 
   -- Action tracking
-  bought_at TIMESTAMP WITH TIME ZONE     -- Set when user marks as BOUGHT
+  bought_at TIMESTAMP WITH TIME ZONE,    -- Set when user marks as BOUGHT
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL -- Who made the last BOUGHT/REJECT action
 );
 
+-- Columns added after the initial release (no-ops on fresh installs)
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS fee_profile_id INTEGER;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS price_estimate VARCHAR(20);
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS target_sell_date DATE;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS rule_set_id INTEGER;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS rule_set_version INTEGER;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS fired_rules TEXT[];
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS decision_explanation JSONB;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS previous_price INTEGER;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS price_changed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS verified_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS fbm_roi DECIMAL(5,2);
+
+-- Derived columns for server-side filtering and sorting (GET /api/books)
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS multiplier NUMERIC(8,2)
+  GENERATED ALWAYS AS (CASE WHEN price > 0 THEN amazon_price::NUMERIC / price END) STORED;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS best_profit INTEGER
+  GENERATED ALWAYS AS (GREATEST(fba_profit, fbm_profit)) STORED;
+ALTER TABLE ebay_books ADD COLUMN IF NOT EXISTS best_roi NUMERIC(7,2)
+  GENERATED ALWAYS AS (GREATEST(fba_roi, fbm_roi)) STORED;
+
+-- Listings are keyed by seller and eBay item id; earlier versions kept one
+-- row per ISBN across all sellers
+ALTER TABLE ebay_books DROP CONSTRAINT IF EXISTS ebay_books_isbn_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ebay_books_seller_item ON ebay_books(seller, ebay_item_id);
+
 -- Indexes for common queries
 CREATE INDEX IF NOT EXISTS idx_ebay_books_isbn ON ebay_books(isbn);
 CREATE INDEX IF NOT EXISTS idx_ebay_books_decision ON ebay_books(decision);
@@ -44,13 +85,438 @@ CREATE INDEX IF NOT EXISTS idx_ebay_books_scraped_at ON ebay_books(scraped_at);
 CREATE INDEX IF NOT EXISTS idx_ebay_books_score ON ebay_books(score DESC);
 CREATE INDEX IF NOT EXISTS idx_ebay_books_seller ON ebay_books(seller);
 CREATE INDEX IF NOT EXISTS idx_ebay_books_bought_at ON ebay_books(bought_at);
+CREATE INDEX IF NOT EXISTS idx_ebay_books_user_id ON ebay_books(user_id);
 CREATE INDEX IF NOT EXISTS idx_ebay_books_pending ON ebay_books(scraped_at) WHERE decision IS NULL;
+CREATE INDEX IF NOT EXISTS idx_ebay_books_seller_scraped ON ebay_books(seller, scraped_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_ebay_books_seller_decision ON ebay_books(seller, decision);
+CREATE INDEX IF NOT EXISTS idx_ebay_books_verify ON ebay_books(verified_at NULLS FIRST) WHERE decision IN ('BUY', 'REVIEW');
 
--- Enable Row Level Security
+-- Enable Row Level Security. No policies are defined on any table: the anon
+-- key can neither read nor write, and all access goes through the API routes,
+-- which use the service role key (it bypasses RLS).
 ALTER TABLE ebay_books ENABLE ROW LEVEL SECURITY;
 
--- Allow all operations
-CREATE POLICY "Allow all operations" ON ebay_books
-  FOR ALL
-  USING (true)
-  WITH CHECK (true);
+-- Earlier versions of this schema allowed the anon key everything
+DROP POLICY IF EXISTS "Allow all operations" ON ebay_books;
+
+-- ============================================================
+-- Fee profiles (versioned Amazon/eBay fee schedules)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS fee_profiles (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  effective_from DATE NOT NULL,
+  effective_to DATE,                     -- Exclusive; NULL = open-ended
+  referral_rate DECIMAL(5,4) NOT NULL,   -- 0.1500 = 15%
+  closing_fee INTEGER NOT NULL,          -- Media closing fee in cents
+  inbound_shipping INTEGER NOT NULL,     -- Inbound to FBA per book in cents
+  fbm_shipping INTEGER NOT NULL,         -- Media mail in cents
+  ebay_fee_rate DECIMAL(5,4) NOT NULL,   -- Added to eBay buy cost
+  default_fulfillment_fee INTEGER NOT NULL, -- FBA fee when weight is unknown
+  fulfillment_tiers JSONB NOT NULL DEFAULT '[]', -- [{ sizeTier, maxWeightOz, feeCents, perExtraLbCents }]
+  media_mail_rates JSONB NOT NULL DEFAULT '[]',  -- [{ maxWeightOz, feeCents, perExtraLbCents }]
+  is_pinned BOOLEAN NOT NULL DEFAULT FALSE,      -- Overrides the effective-date range
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (name, version)
+);
+
+-- Columns added after the initial release (no-ops on fresh installs)
+ALTER TABLE fee_profiles ADD COLUMN IF NOT EXISTS media_mail_rates JSONB NOT NULL DEFAULT '[]';
+
+CREATE INDEX IF NOT EXISTS idx_fee_profiles_effective ON fee_profiles(effective_from DESC, version DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_fee_profiles_pinned ON fee_profiles(is_pinned) WHERE is_pinned;
+
+ALTER TABLE fee_profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations" ON fee_profiles;
+
+-- Seed with the fees ScanFlow originally hardcoded
+INSERT INTO fee_profiles (name, version, effective_from, referral_rate, closing_fee, inbound_shipping, fbm_shipping, ebay_fee_rate, default_fulfillment_fee, fulfillment_tiers, media_mail_rates)
+VALUES ('Amazon US', 1, '2024-01-01', 0.15, 180, 50, 399, 0.13, 354, '[
+  {"sizeTier": "small_standard", "maxWeightOz": 4, "feeCents": 306},
+  {"sizeTier": "small_standard", "maxWeightOz": 8, "feeCents": 315},
+  {"sizeTier": "small_standard", "maxWeightOz": 12, "feeCents": 324},
+  {"sizeTier": "small_standard", "maxWeightOz": 16, "feeCents": 333},
+  {"sizeTier": "large_standard", "maxWeightOz": 4, "feeCents": 368},
+  {"sizeTier": "large_standard", "maxWeightOz": 8, "feeCents": 390},
+  {"sizeTier": "large_standard", "maxWeightOz": 12, "feeCents": 415},
+  {"sizeTier": "large_standard", "maxWeightOz": 16, "feeCents": 455},
+  {"sizeTier": "large_standard", "maxWeightOz": 24, "feeCents": 499},
+  {"sizeTier": "large_standard", "maxWeightOz": 32, "feeCents": 537},
+  {"sizeTier": "large_standard", "maxWeightOz": 48, "feeCents": 612},
+  {"sizeTier": "large_standard", "maxWeightOz": null, "feeCents": 612, "perExtraLbCents": 32},
+  {"sizeTier": "large_bulky", "maxWeightOz": null, "feeCents": 926, "perExtraLbCents": 38}
+]', '[
+  {"maxWeightOz": 16, "feeCents": 413},
+  {"maxWeightOz": 32, "feeCents": 488},
+  {"maxWeightOz": 48, "feeCents": 563},
+  {"maxWeightOz": 64, "feeCents": 638},
+  {"maxWeightOz": 80, "feeCents": 713},
+  {"maxWeightOz": null, "feeCents": 713, "perExtraLbCents": 75}
+]')
+ON CONFLICT (name, version) DO NOTHING;
+
+-- The seed profile predates Media Mail rates on databases created before them
+UPDATE fee_profiles SET media_mail_rates = '[
+  {"maxWeightOz": 16, "feeCents": 413},
+  {"maxWeightOz": 32, "feeCents": 488},
+  {"maxWeightOz": 48, "feeCents": 563},
+  {"maxWeightOz": 64, "feeCents": 638},
+  {"maxWeightOz": 80, "feeCents": 713},
+  {"maxWeightOz": null, "feeCents": 713, "perExtraLbCents": 75}
+]'
+WHERE name = 'Amazon US' AND version = 1 AND media_mail_rates = '[]'::jsonb;
+
+-- ============================================================
+-- Evaluation jobs (background Keepa evaluation queue)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS evaluation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status VARCHAR(20) NOT NULL DEFAULT 'queued',  -- 'queued', 'running', 'paused', 'completed', 'cancelled'
+  requested_limit INTEGER NOT NULL,
+  total INTEGER NOT NULL DEFAULT 0,              -- Items queued
+  price_estimate VARCHAR(20) NOT NULL DEFAULT 'buy_box', -- Sell price basis: 'buy_box', 'seasonal'
+  target_sell_date DATE,                         -- For seasonal; NULL = next rush season
+  team_id VARCHAR(100) NOT NULL DEFAULT 'default', -- Whose decision rule set the job applies
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS evaluation_job_items (
+  id BIGSERIAL PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES evaluation_jobs(id) ON DELETE CASCADE,
+  book_id INTEGER NOT NULL REFERENCES ebay_books(id) ON DELETE CASCADE,
+  isbn VARCHAR(13) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'processing', 'done', 'failed', 'cancelled'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  decision VARCHAR(10),                          -- Outcome: 'BUY', 'REVIEW', 'REJECT'
+  not_found BOOLEAN NOT NULL DEFAULT FALSE,
+  last_error TEXT,
+  UNIQUE (job_id, book_id)
+);
+
+ALTER TABLE evaluation_jobs ADD COLUMN IF NOT EXISTS team_id VARCHAR(100) NOT NULL DEFAULT 'default';
+
+CREATE INDEX IF NOT EXISTS idx_evaluation_jobs_created_at ON evaluation_jobs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_evaluation_job_items_job ON evaluation_job_items(job_id, status);
+CREATE INDEX IF NOT EXISTS idx_evaluation_job_items_due ON evaluation_job_items(next_attempt_at) WHERE status IN ('pending', 'processing');
+
+-- A book is open in at most one job, even when two enqueues race
+UPDATE evaluation_job_items SET status = 'cancelled'
+WHERE status = 'pending' AND job_id IN (SELECT id FROM evaluation_jobs WHERE status = 'cancelled');
+CREATE UNIQUE INDEX IF NOT EXISTS idx_evaluation_job_items_open_book ON evaluation_job_items(book_id) WHERE status IN ('pending', 'processing');
+
+-- Claim a batch of due items. SKIP LOCKED lets several workers run at once
+-- without picking the same rows; items locked longer than the timeout are
+-- assumed to belong to a dead worker and are reclaimed.
+CREATE OR REPLACE FUNCTION claim_evaluation_items(
+  p_worker TEXT,
+  p_batch_size INTEGER,
+  p_lock_timeout_seconds INTEGER DEFAULT 300,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF evaluation_job_items
+LANGUAGE sql
+AS $$
+  UPDATE evaluation_job_items
+  SET status = 'processing',
+      locked_at = NOW(),
+      locked_by = p_worker,
+      attempts = attempts + 1
+  WHERE id IN (
+    SELECT i.id
+    FROM evaluation_job_items i
+    JOIN evaluation_jobs j ON j.id = i.job_id
+    WHERE j.status IN ('queued', 'running')
+      AND (p_job_id IS NULL OR i.job_id = p_job_id)
+      AND (
+        (i.status = 'pending' AND i.next_attempt_at <= NOW())
+        OR (i.status = 'processing' AND i.locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds))
+      )
+    ORDER BY i.next_attempt_at, i.id
+    LIMIT p_batch_size
+    FOR UPDATE OF i SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+ALTER TABLE evaluation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE evaluation_job_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations" ON evaluation_jobs;
+DROP POLICY IF EXISTS "Allow all operations" ON evaluation_job_items;
+
+-- ============================================================
+-- Keepa token balance (latest snapshot from any API response)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS keepa_token_state (
+  id INTEGER PRIMARY KEY CHECK (id = 1),  -- Single row
+  tokens_left INTEGER NOT NULL,
+  refill_rate INTEGER NOT NULL,          -- Tokens per minute
+  refill_in_ms INTEGER NOT NULL,         -- Until the next refill, as of recorded_at
+  tokens_consumed INTEGER NOT NULL,      -- By the request that recorded this row
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+ALTER TABLE keepa_token_state ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations" ON keepa_token_state;
+
+-- ============================================================
+-- Keepa response cache (raw product JSON)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS keepa_cache (
+  asin VARCHAR(20) PRIMARY KEY,
+  isbn13 VARCHAR(13),
+  isbn10 VARCHAR(10),
+  product JSONB NOT NULL,                -- Raw Keepa product object
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_keepa_cache_isbn13 ON keepa_cache(isbn13);
+CREATE INDEX IF NOT EXISTS idx_keepa_cache_isbn10 ON keepa_cache(isbn10);
+
+ALTER TABLE keepa_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations" ON keepa_cache;
+
+-- ISBNs Keepa returned no product for (negative cache, shorter TTL)
+CREATE TABLE IF NOT EXISTS keepa_cache_misses (
+  isbn13 VARCHAR(13) PRIMARY KEY,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE keepa_cache_misses ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Decision rule sets (versioned per team; latest version is active)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS decision_rule_sets (
+  id SERIAL PRIMARY KEY,
+  team_id VARCHAR(100) NOT NULL DEFAULT 'default',
+  version INTEGER NOT NULL,
+  rules JSONB NOT NULL,                  -- { baseScore, knockouts, scoreRules, thresholds, filters }
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (team_id, version)
+);
+
+ALTER TABLE decision_rule_sets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations" ON decision_rule_sets;
+
+-- ============================================================
+-- Purchases (what was actually paid, per eBay order)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS purchases (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER REFERENCES ebay_books(id) ON DELETE SET NULL, -- Listing it was bought from
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,    -- Who bought it
+  isbn VARCHAR(13) NOT NULL,
+  title TEXT NOT NULL,
+  ebay_item_id VARCHAR(50),
+  ebay_order_number VARCHAR(50),
+  quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price INTEGER NOT NULL,           -- Per copy in cents, before discount
+  shipping INTEGER NOT NULL DEFAULT 0,   -- Order total in cents
+  tax INTEGER NOT NULL DEFAULT 0,        -- Order total in cents
+  discount INTEGER NOT NULL DEFAULT 0,   -- Best Offer / coupon discount for the order in cents
+  total_cost INTEGER GENERATED ALWAYS AS (unit_price * quantity + shipping + tax - discount) STORED,
+  purchased_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchases_book_id ON purchases(book_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_user_id ON purchases(user_id);
+CREATE INDEX IF NOT EXISTS idx_purchases_purchased_at ON purchases(purchased_at DESC);
+
+ALTER TABLE purchases ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Inventory (one row per purchased copy, ordered -> sold)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS inventory_items (
+  id SERIAL PRIMARY KEY,
+  purchase_id INTEGER NOT NULL REFERENCES purchases(id) ON DELETE CASCADE,
+  isbn VARCHAR(13) NOT NULL,
+  title TEXT NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'ordered', -- 'ordered', 'received', 'graded', 'listed', 'sold', 'returned', 'written_off'
+  status_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  condition_grade VARCHAR(30),           -- Set when graded, e.g. 'Used - Very Good'
+  channel VARCHAR(3),                    -- 'FBA' or 'FBM', set when listed
+  sku VARCHAR(60),
+  list_price INTEGER,                    -- In cents
+  sale_price INTEGER,                    -- In cents, set when sold
+  sale_fees INTEGER,                     -- Marketplace fees on the sale in cents (the sold step's cost)
+  sale_order_id VARCHAR(50),             -- Amazon order id
+  total_cost INTEGER NOT NULL DEFAULT 0, -- Share of the purchase plus every event cost, in cents
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS inventory_events (
+  id BIGSERIAL PRIMARY KEY,
+  item_id INTEGER NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  from_status VARCHAR(20),               -- NULL for the initial 'ordered' event
+  status VARCHAR(20) NOT NULL,
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  cost INTEGER NOT NULL DEFAULT 0,       -- What this step cost (inbound shipping, prep, return fees), in cents
+  note TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_status ON inventory_items(status, status_changed_at);
+CREATE INDEX IF NOT EXISTS idx_inventory_items_purchase ON inventory_items(purchase_id);
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS sale_fees INTEGER;
+ALTER TABLE inventory_items ADD COLUMN IF NOT EXISTS sale_order_id VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_sku ON inventory_items(sku);
+CREATE INDEX IF NOT EXISTS idx_inventory_items_sale_order ON inventory_items(sale_order_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_events_item ON inventory_events(item_id, occurred_at);
+
+ALTER TABLE inventory_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_events ENABLE ROW LEVEL SECURITY;
+
+-- Purchases recorded before inventory existed start out as 'ordered'
+INSERT INTO inventory_items (purchase_id, isbn, title, status, status_changed_at, total_cost)
+SELECT p.id, p.isbn, p.title, 'ordered', p.purchased_at,
+       p.total_cost / p.quantity + CASE WHEN copy = 1 THEN p.total_cost % p.quantity ELSE 0 END
+FROM purchases p
+CROSS JOIN generate_series(1, p.quantity) AS copy
+WHERE NOT EXISTS (SELECT 1 FROM inventory_items i WHERE i.purchase_id = p.id);
+
+-- ============================================================
+-- Amazon report imports (All Orders / settlement flat files)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS amazon_imports (
+  id SERIAL PRIMARY KEY,
+  report_type VARCHAR(20) NOT NULL,      -- 'all_orders', 'settlement'
+  filename TEXT,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  lines INTEGER NOT NULL DEFAULT 0,      -- Sale lines parsed
+  matched INTEGER NOT NULL DEFAULT 0,    -- Sold listed copies
+  updated INTEGER NOT NULL DEFAULT 0,    -- Corrected copies already sold
+  unmatched INTEGER NOT NULL DEFAULT 0,  -- Sent to the review queue
+  skipped INTEGER NOT NULL DEFAULT 0,    -- Rows that weren't sales
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Review queue: sale lines no inventory copy could be matched to
+CREATE TABLE IF NOT EXISTS amazon_unmatched_sales (
+  id SERIAL PRIMARY KEY,
+  import_id INTEGER REFERENCES amazon_imports(id) ON DELETE SET NULL,
+  report_type VARCHAR(20) NOT NULL,
+  order_id VARCHAR(50) NOT NULL,
+  sku VARCHAR(60) NOT NULL DEFAULT '',
+  asin VARCHAR(20),
+  title TEXT,
+  sale_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  sale_price INTEGER NOT NULL,           -- All units, in cents
+  fees INTEGER,                          -- In cents; NULL when the report has no fees
+  reason TEXT NOT NULL,                  -- Why it couldn't be matched
+  status VARCHAR(10) NOT NULL DEFAULT 'pending', -- 'pending', 'resolved', 'ignored'
+  resolved_item_ids INTEGER[],
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  raw JSONB NOT NULL,                    -- First source row of the line
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (report_type, order_id, sku)
+);
+
+CREATE INDEX IF NOT EXISTS idx_amazon_unmatched_status ON amazon_unmatched_sales(status, sale_date DESC);
+
+ALTER TABLE amazon_imports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE amazon_unmatched_sales ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Sellers (eBay wholesale sellers: dashboard tabs, ingestion, cost adjustments)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS sellers (
+  id VARCHAR(50) PRIMARY KEY,            -- Slug stored in ebay_books.seller
+  label VARCHAR(100) NOT NULL,           -- Dashboard tab label
+  ebay_username VARCHAR(100) NOT NULL,   -- Storefront searched by ingestion
+  color VARCHAR(9),                      -- Hex colour for the tab
+  active BOOLEAN NOT NULL DEFAULT TRUE,  -- Inactive = hidden and not ingested
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  shipping_adjustment INTEGER NOT NULL DEFAULT 0, -- Cents added to each book's cost
+  coupon_percent DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (coupon_percent >= 0 AND coupon_percent < 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- The sellers that used to be hardcoded
+INSERT INTO sellers (id, label, ebay_username, color, sort_order) VALUES
+  ('booksrun', 'BooksRun', 'booksrun', '#6c5ce7', 1),
+  ('oneplanetbooks', 'OnePlanetBooks', 'oneplanetbooks', '#00b894', 2),
+  ('thrift.books', 'ThriftBooks', 'thrift.books', '#0984e3', 3),
+  ('second.sale', 'SecondSale', 'second.sale', '#e17055', 4),
+  ('betterworldbooks', 'BWB', 'betterworldbooks', '#00cec9', 5)
+ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE sellers ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Listing price history (price, shipping and item id changes)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS listing_price_history (
+  id SERIAL PRIMARY KEY,
+  book_id INTEGER NOT NULL REFERENCES ebay_books(id) ON DELETE CASCADE,
+  isbn VARCHAR(13) NOT NULL,
+  ebay_item_id VARCHAR(50) NOT NULL,     -- Listing after the change
+  previous_item_id VARCHAR(50),          -- Set when the seller relisted under a new item id
+  price INTEGER NOT NULL,                -- New price in cents
+  shipping INTEGER NOT NULL DEFAULT 0,   -- New shipping in cents
+  previous_price INTEGER NOT NULL,
+  previous_shipping INTEGER NOT NULL DEFAULT 0,
+  requeued BOOLEAN NOT NULL DEFAULT FALSE, -- Decision cleared for re-evaluation
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_listing_price_history_book ON listing_price_history(book_id, changed_at DESC);
+
+ALTER TABLE listing_price_history ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- Book products (per-ISBN Amazon data shared by every seller's listing)
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS book_products (
+  isbn VARCHAR(13) PRIMARY KEY,
+  asin VARCHAR(20),
+  amazon_price INTEGER,                  -- Sell price used for profit, in cents
+  price_estimate VARCHAR(20),            -- 'buy_box', 'seasonal'
+  target_sell_date DATE,
+  sales_rank INTEGER,
+  sales_rank_drops_30 INTEGER,
+  sales_rank_drops_90 INTEGER,
+  weight_oz DECIMAL(6,1),                -- Keepa package weight in ounces
+  evaluated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- Seed from listings evaluated before products existed (latest evaluation wins)
+INSERT INTO book_products (isbn, asin, amazon_price, price_estimate, target_sell_date,
+  sales_rank, sales_rank_drops_30, sales_rank_drops_90, weight_oz, evaluated_at)
+SELECT DISTINCT ON (isbn) isbn, asin, amazon_price, price_estimate, target_sell_date,
+  sales_rank, sales_rank_drops_30, sales_rank_drops_90, weight_oz, evaluated_at
+FROM ebay_books
+WHERE asin IS NOT NULL AND evaluated_at IS NOT NULL
+ORDER BY isbn, evaluated_at DESC
+ON CONFLICT (isbn) DO NOTHING;
+
+ALTER TABLE book_products ENABLE ROW LEVEL SECURITY;